@@ -0,0 +1,114 @@
+/**
+ * TypeScript 以外のファイル（CSS・JSON・画像など）への import の更新
+ */
+
+import ts from "typescript";
+import fs from "node:fs";
+import path from "node:path";
+import type { Range } from "./types.js";
+
+/**
+ * アセットへの import と移動後の指定子
+ */
+export type AssetImport = {
+  fileName: string; // import を書いているファイル（移動前の絶対パス）
+  range: Range; // モジュール指定子の文字列リテラルの中身の範囲
+  specifier: string; // 元のモジュール指定子
+  newSpecifier: string; // 移動後のモジュール指定子（変更不要なら元と同じ）
+};
+
+/**
+ * アセットへの相対 import を探し、移動後の指定子を求める
+ *
+ * Language Service はモジュールとして解決できないファイル（ambient module で
+ * 型を付けた画像や、宣言の無い CSS など）への import を更新せず、ディレクトリの
+ * 移動では移動しないアセットへの import も移動先に書き換えてしまう。そこで
+ * 相対パスの指定子を import しているファイルのディレクトリから解決し、
+ * ディスク上に存在するモジュール以外のファイルを指すものについて、
+ * 移動後の import 元から移動後の参照先への相対パスを求める。
+ * "?url" のようなクエリや "#hash" は保つ。
+ *
+ * @param fileNames 対象の import 元（移動前の絶対パス）
+ * @param moves 移動元 → 移動先（絶対パス）
+ * @param getFileText ファイル内容を返す関数（オーバーレイ優先）
+ * @param isModuleFile Language Service がモジュールとして扱うファイルか
+ * @returns アセットへの import（移動の影響を受けないものも含む、出現順）
+ */
+export function findAssetImports(
+  fileNames: Iterable<string>,
+  moves: ReadonlyMap<string, string>,
+  getFileText: (fileName: string) => string | undefined,
+  isModuleFile: (fileName: string) => boolean
+): AssetImport[] {
+  const assetImports: AssetImport[] = [];
+
+  for (const fileName of fileNames) {
+    const text = getFileText(fileName);
+    if (text === undefined) continue;
+
+    const newFileName = moves.get(fileName) ?? fileName;
+    let sourceFile: ts.SourceFile | undefined;
+    for (const { fileName: specifier, pos } of ts.preProcessFile(
+      text,
+      /* readImportFiles */ true,
+      /* detectJavaScriptImports */ true
+    ).importedFiles) {
+      // 1. 相対パスの指定子だけを対象にする
+      if (!specifier.startsWith("./") && !specifier.startsWith("../")) {
+        continue;
+      }
+
+      // 2. 参照先を解決し、モジュール以外の既存のファイルだけを対象にする
+      const suffixStart = specifier.search(/[?#]/);
+      const specifierPath =
+        suffixStart === -1 ? specifier : specifier.slice(0, suffixStart);
+      const suffix = suffixStart === -1 ? "" : specifier.slice(suffixStart);
+      const target = path.resolve(path.dirname(fileName), specifierPath);
+      const newTarget = moves.get(target) ?? target;
+      if (
+        isModuleFile(target) ||
+        !(moves.has(target) || isExistingFile(target))
+      ) {
+        continue;
+      }
+
+      // 3. 移動後の位置関係から指定子を作り直す（位置の変換は必要になってから解析する）
+      sourceFile ??= ts.createSourceFile(
+        fileName,
+        text,
+        ts.ScriptTarget.Latest
+      );
+      const relativePath = path
+        .relative(path.dirname(newFileName), newTarget)
+        .split(path.sep)
+        .join("/");
+      // pos は開きの引用符の位置
+      const start = pos + 1;
+      assetImports.push({
+        fileName,
+        range: {
+          start: ts.getLineAndCharacterOfPosition(sourceFile, start),
+          end: ts.getLineAndCharacterOfPosition(
+            sourceFile,
+            start + specifier.length
+          ),
+        },
+        specifier,
+        newSpecifier:
+          (relativePath.startsWith("../") ? "" : "./") + relativePath + suffix,
+      });
+    }
+  }
+
+  return assetImports;
+}
+
+/**
+ * ディスク上にファイルが存在するか
+ *
+ * @param fileName 対象のパス
+ * @returns ファイルとして存在する場合は true
+ */
+function isExistingFile(fileName: string): boolean {
+  return fs.existsSync(fileName) && fs.statSync(fileName).isFile();
+}
@@ -0,0 +1,254 @@
+/**
+ * diff のテスト
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { execFileSync } from "node:child_process";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { formatUnifiedDiff } from "./diff.js";
+import { applyTextEdits } from "./edits.js";
+import type { FileTextEdits, FsMove, TextEdit } from "./types.js";
+
+/**
+ * 1行内の編集を作る
+ */
+function edit(
+  line: number,
+  start: number,
+  end: number,
+  newText: string
+): TextEdit {
+  return {
+    range: {
+      start: { line, character: start },
+      end: { line, character: end },
+    },
+    newText,
+  };
+}
+
+describe("formatUnifiedDiff", () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), "ts-diff-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  const write = (fileName: string, text: string): void => {
+    fs.mkdirSync(path.dirname(path.join(testDir, fileName)), {
+      recursive: true,
+    });
+    fs.writeFileSync(path.join(testDir, fileName), text);
+  };
+  const readFile = (fileName: string): string | undefined =>
+    fs.existsSync(fileName) ? fs.readFileSync(fileName, "utf8") : undefined;
+  const diff = (edits: FileTextEdits[], fsMoves: FsMove[] = []): string =>
+    formatUnifiedDiff(testDir, edits, fsMoves, readFile);
+  const numberedLines = (count: number): string =>
+    Array.from({ length: count }, (_, i) => `line${i + 1}\n`).join("");
+
+  it("変更行の前後 3 行を文脈として付ける", () => {
+    write("src/a.ts", numberedLines(10));
+
+    expect(
+      diff([
+        {
+          filePath: path.join(testDir, "src/a.ts"),
+          textEdits: [edit(4, 0, 5, "renamed")],
+        },
+      ])
+    ).toBe(`diff --git a/src/a.ts b/src/a.ts
+--- a/src/a.ts
++++ b/src/a.ts
+@@ -2,7 +2,7 @@
+ line2
+ line3
+ line4
+-line5
++renamed
+ line6
+ line7
+ line8
+`);
+  });
+
+  it("離れた変更は別の hunk に、近い変更は1つの hunk にする", () => {
+    write("a.ts", numberedLines(30));
+
+    const result = diff([
+      {
+        filePath: "a.ts",
+        textEdits: [
+          edit(1, 0, 5, "first"),
+          edit(6, 0, 5, "second"),
+          edit(25, 0, 6, "third\nextra"),
+        ],
+      },
+    ]);
+
+    expect(result.match(/^@@.*@@$/gm)).toEqual([
+      "@@ -1,10 +1,10 @@",
+      "@@ -23,7 +23,8 @@",
+    ]);
+    // 間の変更されない行は文脈のまま
+    expect(result).toContain("\n line4\n line5\n line6\n-line7\n+second\n");
+  });
+
+  it("末尾に改行が無いファイルでは No newline at end of file を付ける", () => {
+    write("a.ts", "const a = 1;\nconst b = 2;");
+
+    expect(diff([{ filePath: "a.ts", textEdits: [edit(1, 6, 7, "c")] }]))
+      .toBe(`diff --git a/a.ts b/a.ts
+--- a/a.ts
++++ b/a.ts
+@@ -1,2 +1,2 @@
+ const a = 1;
+-const b = 2;
+\\ No newline at end of file
++const c = 2;
+\\ No newline at end of file
+`);
+  });
+
+  it("移動は rename ヘッダーで表し、移動したファイルへの編集も含める", () => {
+    write("src/a.ts", `import { b } from "./b";\n`);
+    write("src/b.ts", `export const b = 1;\n`);
+
+    const result = diff(
+      [
+        {
+          filePath: path.join(testDir, "lib/a.ts"),
+          textEdits: [edit(0, 18, 23, `"../src/b"`)],
+        },
+      ],
+      [
+        {
+          from: path.join(testDir, "src/a.ts"),
+          to: path.join(testDir, "lib/a.ts"),
+        },
+        {
+          from: path.join(testDir, "src/b.ts"),
+          to: path.join(testDir, "src/c.ts"),
+        },
+      ]
+    );
+
+    expect(result).toBe(`diff --git a/src/a.ts b/lib/a.ts
+rename from src/a.ts
+rename to lib/a.ts
+--- a/src/a.ts
++++ b/lib/a.ts
+@@ -1,1 +1,1 @@
+-import { b } from "./b";
++import { b } from "../src/b";
+diff --git a/src/b.ts b/src/c.ts
+similarity index 100%
+rename from src/b.ts
+rename to src/c.ts
+`);
+  });
+
+  it("新規作成するファイルは /dev/null からの差分にする", () => {
+    expect(
+      diff([
+        {
+          filePath: "src/new.ts",
+          isNewFile: true,
+          textEdits: [edit(0, 0, 0, "export const a = 1;\n")],
+        },
+      ])
+    ).toBe(`diff --git a/src/new.ts b/src/new.ts
+new file mode 100644
+--- /dev/null
++++ b/src/new.ts
+@@ -0,0 +1,1 @@
++export const a = 1;
+`);
+  });
+
+  it("行頭への挿入は次の行を変更行にせず、追加した行だけを + にする", () => {
+    write("a.ts", `import { b } from "./b";\n\nexport const a = b;\n`);
+
+    expect(
+      diff([
+        {
+          filePath: "a.ts",
+          textEdits: [edit(1, 0, 0, `import { c } from "./c";\n`)],
+        },
+      ])
+    ).toBe(`diff --git a/a.ts b/a.ts
+--- a/a.ts
++++ b/a.ts
+@@ -1,3 +1,4 @@
+ import { b } from "./b";
++import { c } from "./c";
+ 
+ export const a = b;
+`);
+  });
+
+  it("変更が無ければ空文字列を返す", () => {
+    write("a.ts", "const a = 1;\n");
+
+    expect(diff([{ filePath: "a.ts", textEdits: [] }])).toBe("");
+    expect(diff([{ filePath: "a.ts", textEdits: [edit(0, 6, 7, "a")] }])).toBe(
+      ""
+    );
+  });
+
+  it("git apply で適用すると編集を直接適用した結果と一致する", () => {
+    const files: Record<string, string> = {
+      "src/a.ts": numberedLines(20),
+      "src/b.ts": "export const b = 1;",
+      "src/empty.ts": "",
+    };
+    for (const [fileName, text] of Object.entries(files)) {
+      write(fileName, text);
+    }
+    const edits: FileTextEdits[] = [
+      {
+        filePath: "src/a.ts",
+        textEdits: [
+          edit(0, 0, 5, "start"),
+          // 行頭への挿入
+          edit(4, 0, 0, "inserted\n"),
+          // 行の削除
+          {
+            range: {
+              start: { line: 8, character: 0 },
+              end: { line: 10, character: 0 },
+            },
+            newText: "",
+          },
+          edit(19, 4, 6, "20\nappended"),
+        ],
+      },
+      { filePath: "src/b.ts", textEdits: [edit(0, 19, 19, "\n")] },
+      { filePath: "src/empty.ts", textEdits: [edit(0, 0, 0, "filled\n")] },
+    ];
+    const patch = diff(edits, [
+      {
+        from: path.join(testDir, "src/b.ts"),
+        to: path.join(testDir, "src/moved/b.ts"),
+      },
+    ]);
+
+    fs.writeFileSync(path.join(testDir, "plan.patch"), patch);
+    execFileSync("git", ["apply", "plan.patch"], { cwd: testDir });
+
+    expect(readFile(path.join(testDir, "src/a.ts"))).toBe(
+      applyTextEdits("src/a.ts", files["src/a.ts"], edits[0].textEdits)
+    );
+    expect(readFile(path.join(testDir, "src/b.ts"))).toBe(undefined);
+    expect(readFile(path.join(testDir, "src/moved/b.ts"))).toBe(
+      "export const b = 1;\n"
+    );
+    expect(readFile(path.join(testDir, "src/empty.ts"))).toBe("filled\n");
+  });
+});
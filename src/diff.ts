@@ -0,0 +1,341 @@
+/**
+ * 編集プランの unified diff 形式への変換
+ */
+
+import path from "node:path";
+import { applyTextEdits } from "./edits.js";
+import { resolvePlan } from "./plan.js";
+import type { FileTextEdits, FsMove, TextEdit } from "./types.js";
+
+/**
+ * hunk の前後に付ける変更の無い行数（git diff の既定値と同じ）
+ */
+const CONTEXT_LINES = 3;
+
+/**
+ * ファイルを行に分けた結果
+ */
+type FileLines = {
+  lines: string[]; // 改行を含まない各行（CRLF の \r は残す）
+  endsWithNewline: boolean; // 最終行が改行で終わるか
+};
+
+/**
+ * 編集プランを git apply で適用できる unified diff にする
+ *
+ * 編集の範囲から変更行を求め、前後 3 行の文脈を付けた hunk を作る。
+ * 移動したファイルは rename from / rename to のヘッダーで表し、移動したファイル
+ * への編集（移動元・移動先どちらのパスでも可）は同じ diff の hunk にまとめる。
+ * 新規作成するファイルは new file mode のヘッダーと /dev/null からの差分で表す。
+ * パスは projectRoot からの相対パス（区切りは /）で表す。
+ *
+ * @param absProjectRoot プロジェクトルート（絶対パス）
+ * @param edits 編集
+ * @param fsMoves ファイル移動
+ * @param getFileText 編集前のファイル内容を返す関数（オーバーレイ優先）
+ * @returns unified diff（変更が無い場合は空文字列）
+ * @throws 編集の範囲が不正な場合、または対象ファイルが無い場合
+ */
+export function formatUnifiedDiff(
+  absProjectRoot: string,
+  edits: readonly FileTextEdits[],
+  fsMoves: readonly FsMove[],
+  getFileText: (fileName: string) => string | undefined
+): string {
+  const plan = resolvePlan(
+    absProjectRoot,
+    edits,
+    fsMoves,
+    (fileName) => getFileText(fileName) !== undefined
+  );
+  const toDiffPath = (fileName: string): string =>
+    path.relative(absProjectRoot, fileName).split(path.sep).join("/");
+
+  const fileNames = [
+    ...plan.edits.keys(),
+    ...Array.from(plan.moves.keys()).filter(
+      (fileName) => !plan.edits.has(fileName)
+    ),
+  ];
+
+  return fileNames
+    .map((fileName) => {
+      const oldPath = toDiffPath(fileName);
+      const newPath = toDiffPath(plan.moves.get(fileName) ?? fileName);
+      const textEdits = plan.edits.get(fileName) ?? [];
+      const isNewFile = plan.createdFiles.has(fileName);
+      const hunks = formatHunks(
+        fileName,
+        isNewFile ? "" : getFileText(fileName)!,
+        textEdits
+      );
+      if (hunks.length === 0 && oldPath === newPath && !isNewFile) return "";
+
+      const header = [`diff --git a/${oldPath} b/${newPath}`];
+      if (isNewFile) header.push("new file mode 100644");
+      if (oldPath !== newPath) {
+        if (hunks.length === 0) header.push("similarity index 100%");
+        header.push(`rename from ${oldPath}`, `rename to ${newPath}`);
+      }
+      if (hunks.length > 0) {
+        header.push(
+          isNewFile ? "--- /dev/null" : `--- a/${oldPath}`,
+          `+++ b/${newPath}`
+        );
+      }
+      return [...header, ...hunks].join("\n") + "\n";
+    })
+    .join("");
+}
+
+/**
+ * 1ファイル分の編集を hunk の行にする
+ *
+ * @param fileName 対象ファイル（エラーメッセージ用）
+ * @param text 編集前の内容
+ * @param textEdits 編集
+ * @returns hunk ヘッダーと差分の行（変更が無い場合は空配列）
+ */
+function formatHunks(
+  fileName: string,
+  text: string,
+  textEdits: readonly TextEdit[]
+): string[] {
+  // 範囲の不正や重なりがあればここでエラーにする
+  applyTextEdits(fileName, text, textEdits);
+
+  const oldFile = splitLines(text);
+  const lastLine = oldFile.lines.length - 1;
+
+  // 1. 同じ行にかかる編集をまとめ、変更行ごとに編集前後の行を求める
+  const ranges: { start: number; end: number; edits: TextEdit[] }[] = [];
+  for (const edit of [...textEdits].sort(
+    (a, b) =>
+      a.range.start.line - b.range.start.line ||
+      a.range.start.character - b.range.start.character
+  )) {
+    const last = ranges[ranges.length - 1];
+    const end = getLastChangedLine(edit);
+    if (last && edit.range.start.line <= last.end) {
+      last.end = Math.max(last.end, end);
+      last.edits.push(edit);
+    } else {
+      ranges.push({ start: edit.range.start.line, end, edits: [edit] });
+    }
+  }
+  const changes = ranges.flatMap((range) => {
+    const end = Math.min(range.end, lastLine);
+    const oldLines = oldFile.lines.slice(range.start, end + 1);
+    const oldText = joinLines(
+      oldLines,
+      end < lastLine || oldFile.endsWithNewline
+    );
+    const newText = applyTextEdits(
+      fileName,
+      oldText,
+      range.edits.map((edit) => ({
+        range: {
+          start: {
+            line: edit.range.start.line - range.start,
+            character: edit.range.start.character,
+          },
+          end: {
+            line: edit.range.end.line - range.start,
+            character: edit.range.end.character,
+          },
+        },
+        newText: edit.newText,
+      }))
+    );
+    if (newText === oldText) return [];
+    const newFile = splitLines(newText);
+
+    // 行頭への挿入などで前後に残る変わらない行は、変更行から除いて文脈にする
+    const { head, tail } = countCommonLines(
+      {
+        lines: oldLines,
+        endsWithNewline: end < lastLine || oldFile.endsWithNewline,
+      },
+      newFile
+    );
+    const start = range.start + head;
+    const changedOldLines = oldLines.slice(head, oldLines.length - tail);
+    return [
+      {
+        start,
+        end: start + changedOldLines.length - 1, // 編集前の行が無い（挿入）場合は start - 1
+        oldLines: changedOldLines,
+        newLines: newFile.lines.slice(head, newFile.lines.length - tail),
+        newEndsWithNewline: tail > 0 || newFile.endsWithNewline,
+      },
+    ];
+  });
+
+  // 2. 文脈が重なる変更を1つの hunk にまとめる
+  const hunks: (typeof changes)[] = [];
+  for (const change of changes) {
+    const hunk = hunks[hunks.length - 1];
+    const previous = hunk?.[hunk.length - 1];
+    if (previous && change.start - previous.end - 1 <= CONTEXT_LINES * 2) {
+      hunk.push(change);
+    } else {
+      hunks.push([change]);
+    }
+  }
+
+  // 3. 変更の無い行は文脈として出力する
+  const contextLines = (from: number, to: number): string[] =>
+    markLines(
+      " ",
+      oldFile.lines.slice(from, to + 1),
+      to >= lastLine && !oldFile.endsWithNewline
+    );
+
+  const output: string[] = [];
+  let lineDelta = 0;
+  for (const hunk of hunks) {
+    const first = hunk[0];
+    const last = hunk[hunk.length - 1];
+    const oldStart = Math.max(0, first.start - CONTEXT_LINES);
+    const oldEnd = Math.min(lastLine, last.end + CONTEXT_LINES);
+
+    const lines: string[] = [...contextLines(oldStart, first.start - 1)];
+    for (const [index, change] of hunk.entries()) {
+      const atEnd = change.end >= lastLine;
+      lines.push(
+        ...markLines("-", change.oldLines, atEnd && !oldFile.endsWithNewline),
+        ...markLines("+", change.newLines, atEnd && !change.newEndsWithNewline),
+        ...contextLines(
+          change.end + 1,
+          index + 1 < hunk.length ? hunk[index + 1].start - 1 : oldEnd
+        )
+      );
+    }
+
+    const oldCount = oldEnd - oldStart + 1;
+    const newCount =
+      oldCount +
+      hunk.reduce(
+        (sum, change) => sum + change.newLines.length - change.oldLines.length,
+        0
+      );
+    output.push(
+      `@@ -${formatHunkRange(oldStart, oldCount)} +${formatHunkRange(oldStart + lineDelta, newCount)} @@`,
+      ...lines
+    );
+    lineDelta += newCount - oldCount;
+  }
+
+  return output;
+}
+
+/**
+ * 編集で内容が変わる最後の行を求める
+ *
+ * 行単位の削除・置換のように次の行の行頭で終わり、置き換えた結果も改行で
+ * 終わる編集では、終了位置の行そのものは変わらない。
+ *
+ * @param edit 編集
+ * @returns 最後に変わる行（0-based）
+ */
+function getLastChangedLine(edit: TextEdit): number {
+  const { start, end } = edit.range;
+  const keepsNextLine =
+    edit.newText.endsWith("\n") ||
+    (start.character === 0 && edit.newText === "");
+  return end.character === 0 && end.line > start.line && keepsNextLine
+    ? end.line - 1
+    : end.line;
+}
+
+/**
+ * 編集前後の行の先頭・末尾で変わらない行数を数える
+ *
+ * 最終行は改行の有無まで一致する場合だけ変わらない行とする。
+ *
+ * @param oldFile 編集前の行
+ * @param newFile 編集後の行
+ * @returns 先頭と末尾の変わらない行数（重ならない）
+ */
+function countCommonLines(
+  oldFile: FileLines,
+  newFile: FileLines
+): { head: number; tail: number } {
+  const lineAt = (file: FileLines, index: number): string =>
+    file.lines[index] +
+    (index < file.lines.length - 1 || file.endsWithNewline ? "\n" : "");
+  const maxCommon = Math.min(oldFile.lines.length, newFile.lines.length);
+
+  let head = 0;
+  while (head < maxCommon && lineAt(oldFile, head) === lineAt(newFile, head)) {
+    head++;
+  }
+  let tail = 0;
+  while (
+    tail < maxCommon - head &&
+    lineAt(oldFile, oldFile.lines.length - 1 - tail) ===
+      lineAt(newFile, newFile.lines.length - 1 - tail)
+  ) {
+    tail++;
+  }
+  return { head, tail };
+}
+
+/**
+ * テキストを行に分ける
+ *
+ * @param text 対象のテキスト
+ * @returns 各行と、最終行が改行で終わるか
+ */
+function splitLines(text: string): FileLines {
+  if (text === "") {
+    return { lines: [], endsWithNewline: true };
+  }
+  const lines = text.split("\n");
+  const endsWithNewline = lines[lines.length - 1] === "";
+  if (endsWithNewline) lines.pop();
+  return { lines, endsWithNewline };
+}
+
+/**
+ * 行をテキストに戻す
+ *
+ * @param lines 各行
+ * @param endsWithNewline 最終行を改行で終えるか
+ * @returns テキスト
+ */
+function joinLines(lines: readonly string[], endsWithNewline: boolean): string {
+  if (lines.length === 0) return "";
+  return lines.join("\n") + (endsWithNewline ? "\n" : "");
+}
+
+/**
+ * 差分の行に記号を付ける
+ *
+ * @param mark 行頭の記号（" ", "-", "+"）
+ * @param lines 各行
+ * @param noNewlineAtEnd 最終行が改行で終わらない場合は true
+ * @returns 記号を付けた行（必要なら "\ No newline at end of file" を続ける）
+ */
+function markLines(
+  mark: string,
+  lines: readonly string[],
+  noNewlineAtEnd: boolean
+): string[] {
+  const marked = lines.map((line) => `${mark}${line}`);
+  if (noNewlineAtEnd && lines.length > 0) {
+    marked.push("\\ No newline at end of file");
+  }
+  return marked;
+}
+
+/**
+ * hunk ヘッダーの範囲（start,count）を作る
+ *
+ * @param start 0-based の開始行
+ * @param count 行数
+ * @returns "1,3" のような範囲（0 行の場合は直前の行番号）
+ */
+function formatHunkRange(start: number, count: number): string {
+  return count === 0 ? `${start},0` : `${start + 1},${count}`;
+}
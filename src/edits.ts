@@ -0,0 +1,334 @@
+/**
+ * 編集結果のマージと適用
+ */
+
+import ts from "typescript";
+import { createHash } from "node:crypto";
+import type { FileTextEdits, Position, TextEdit } from "./types.js";
+
+/**
+ * FileTextChanges をファイルごとにまとめ、同一の TextChange を取り除く
+ *
+ * project references で複数のプロジェクトが同じファイルを参照している場合、
+ * 各 Language Service が同じ編集を返すため重複を除去する。
+ *
+ * @param fileTextChanges マージ対象の FileTextChanges
+ * @returns ファイルごとにまとめた FileTextChanges（出現順）
+ */
+export function mergeFileTextChanges(
+  fileTextChanges: readonly ts.FileTextChanges[]
+): ts.FileTextChanges[] {
+  const merged = new Map<string, ts.TextChange[]>();
+  const seen = new Set<string>();
+
+  for (const change of fileTextChanges) {
+    const textChanges = merged.get(change.fileName) ?? [];
+
+    for (const textChange of change.textChanges) {
+      const key = `${change.fileName}:${textChange.span.start}:${textChange.span.length}:${textChange.newText}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      textChanges.push(textChange);
+    }
+
+    merged.set(change.fileName, textChanges);
+  }
+
+  return Array.from(merged.entries()).map(([fileName, textChanges]) => ({
+    fileName,
+    textChanges,
+  }));
+}
+
+/**
+ * RenameLocation の重複を取り除く
+ *
+ * @param locations 複数の Language Service から得た RenameLocation
+ * @returns 重複を除いた RenameLocation（出現順）
+ */
+export function dedupeRenameLocations(
+  locations: readonly ts.RenameLocation[]
+): ts.RenameLocation[] {
+  const seen = new Set<string>();
+
+  return locations.filter((location) => {
+    const key = `${location.fileName}:${location.textSpan.start}:${location.textSpan.length}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * 1ファイル分の TextEdit を正規化する
+ *
+ * 範囲と newText が同じ編集を取り除き、位置順に並べる。範囲が重なる編集や、
+ * 同じ位置への異なる挿入は、どちらを適用すべきか決められないためエラーにする。
+ *
+ * @param fileName 対象ファイル（エラーメッセージ用）
+ * @param textEdits 正規化する編集
+ * @returns 重複を除き、位置順に並べた編集
+ * @throws 範囲が重なる編集がある場合
+ */
+export function normalizeTextEdits(
+  fileName: string,
+  textEdits: readonly TextEdit[]
+): TextEdit[] {
+  const compare = (a: Position, b: Position): number =>
+    a.line - b.line || a.character - b.character;
+
+  const seen = new Set<string>();
+  const sorted = textEdits
+    .filter(({ range, newText }) => {
+      const key = `${range.start.line}:${range.start.character}:${range.end.line}:${range.end.character}:${newText}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort(
+      (a, b) =>
+        compare(a.range.start, b.range.start) ||
+        compare(a.range.end, b.range.end)
+    );
+
+  for (const [i, edit] of sorted.entries()) {
+    const previous = sorted[i - 1];
+    if (
+      previous &&
+      (compare(edit.range.start, previous.range.end) < 0 ||
+        compare(edit.range.start, previous.range.start) === 0)
+    ) {
+      throw new Error(
+        `Overlapping edits in ${fileName} at ${edit.range.start.line}:${edit.range.start.character}: ${JSON.stringify(previous.newText)} and ${JSON.stringify(edit.newText)}`
+      );
+    }
+  }
+
+  return sorted;
+}
+
+/**
+ * TextEdit をテキストに適用する
+ *
+ * 範囲はすべて元のテキスト上の位置として解釈し、後ろの編集から順に適用する。
+ *
+ * @param fileName 対象ファイル（エラーメッセージ用）
+ * @param text 元のテキスト
+ * @param textEdits 適用する編集
+ * @returns 編集後のテキスト
+ * @throws 範囲がテキストの外にある、または編集同士が重なる場合
+ */
+export function applyTextEdits(
+  fileName: string,
+  text: string,
+  textEdits: readonly TextEdit[]
+): string {
+  const toOffset = createOffsetResolver(fileName, text);
+  const spans = textEdits
+    .map((edit) => ({
+      start: toOffset(edit.range.start),
+      end: toOffset(edit.range.end),
+      newText: edit.newText,
+    }))
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+
+  for (const [i, span] of spans.entries()) {
+    if (span.end < span.start || (i > 0 && span.start < spans[i - 1].end)) {
+      throw new Error(`Overlapping edits in ${fileName}`);
+    }
+  }
+
+  return spans.reduceRight(
+    (result, span) =>
+      result.slice(0, span.start) + span.newText + result.slice(span.end),
+    text
+  );
+}
+
+/**
+ * 2段階の編集を、元のテキストに対する1組の編集にまとめる
+ *
+ * second の範囲は first を適用した後のテキスト上の位置として解釈する。
+ * second と重なる・接する first の編集は1つの編集にまとめ、それ以外の
+ * first の編集はそのまま残す。まとめた結果が元のテキストと同じ編集は除く。
+ *
+ * @param fileName 対象ファイル（エラーメッセージ用）
+ * @param text 元のテキスト
+ * @param first 元のテキストに対する編集
+ * @param second first を適用した後のテキストに対する編集
+ * @returns 元のテキストに対する編集（位置順）
+ * @throws 範囲がテキストの外にある、または同じ段階の編集同士が重なる場合
+ */
+export function composeTextEdits(
+  fileName: string,
+  text: string,
+  first: readonly TextEdit[],
+  second: readonly TextEdit[]
+): TextEdit[] {
+  // 1. first を適用し、両段階の編集を適用後のテキスト上の範囲にそろえる
+  //    （first の編集には元のテキスト上の範囲を残しておく）
+  type Span = {
+    start: number;
+    end: number;
+    edit: TextEdit;
+    original?: { start: number; end: number };
+  };
+  const middle = applyTextEdits(fileName, text, first);
+  const toOffset = createOffsetResolver(fileName, text);
+  const toMiddleOffset = createOffsetResolver(fileName, middle);
+  let delta = 0;
+  const firstSpans = first
+    .map((edit) => ({
+      edit,
+      original: {
+        start: toOffset(edit.range.start),
+        end: toOffset(edit.range.end),
+      },
+    }))
+    .sort((a, b) => a.original.start - b.original.start)
+    .map(({ edit, original }): Span => {
+      const start = original.start + delta;
+      delta += edit.newText.length - (original.end - original.start);
+      return { start, end: start + edit.newText.length, edit, original };
+    });
+  const secondSpans = second.map(
+    (edit): Span => ({
+      start: toMiddleOffset(edit.range.start),
+      end: toMiddleOffset(edit.range.end),
+      edit,
+    })
+  );
+
+  // 適用後のテキスト上の位置（first の編集範囲の外）を元の位置に戻す
+  const toOriginalOffset = (offset: number): number => {
+    const previous = firstSpans.filter(({ end }) => end <= offset).at(-1);
+    return previous ? offset - (previous.end - previous.original!.end) : offset;
+  };
+
+  // 2. 適用後のテキスト上で重なる・接する編集をまとめる
+  const clusters: { start: number; end: number; spans: Span[] }[] = [];
+  for (const span of [...firstSpans, ...secondSpans].sort(
+    (a, b) => a.start - b.start || a.end - b.end
+  )) {
+    const cluster = clusters.at(-1);
+    if (cluster && span.start <= cluster.end) {
+      cluster.end = Math.max(cluster.end, span.end);
+      cluster.spans.push(span);
+    } else {
+      clusters.push({ start: span.start, end: span.end, spans: [span] });
+    }
+  }
+
+  // 3. second を含むまとまりは、元のテキストの範囲を second 適用後の内容で置き換える
+  const sourceFile = ts.createSourceFile(
+    fileName,
+    text,
+    ts.ScriptTarget.Latest
+  );
+  return clusters.flatMap(({ start, end, spans }): TextEdit[] => {
+    if (spans.every(({ original }) => original)) {
+      return spans.map(({ edit }) => edit);
+    }
+
+    const originalStart =
+      spans.find((span) => span.original && span.start === start)?.original!
+        .start ?? toOriginalOffset(start);
+    const originalEnd =
+      spans.find((span) => span.original && span.end === end)?.original!.end ??
+      toOriginalOffset(end);
+    const newText = spans
+      .filter(({ original }) => !original)
+      .reduceRight(
+        (result, span) =>
+          result.slice(0, span.start - start) +
+          span.edit.newText +
+          result.slice(span.end - start),
+        middle.slice(start, end)
+      );
+    if (newText === text.slice(originalStart, originalEnd)) return [];
+
+    return [
+      {
+        range: {
+          start: sourceFile.getLineAndCharacterOfPosition(originalStart),
+          end: sourceFile.getLineAndCharacterOfPosition(originalEnd),
+        },
+        newText,
+      },
+    ];
+  });
+}
+
+/**
+ * ファイル内容のハッシュ（SHA-256 の16進文字列）を求める
+ *
+ * @param text ファイル内容
+ * @returns ハッシュ
+ */
+export function hashText(text: string): string {
+  return createHash("sha256").update(text, "utf8").digest("hex");
+}
+
+/**
+ * 編集に計算元の内容のハッシュと、各範囲の元のテキストを付ける
+ *
+ * 適用・検証時にファイルがプラン作成後に変更されていないかを確かめるため。
+ *
+ * @param edits 編集
+ * @param getFileText 編集前のファイル内容を返す関数（オーバーレイ優先）
+ * @returns contentHash と oldText を付けた編集（新規作成するファイルと、内容が
+ *   取れないファイルはそのまま）
+ */
+export function withOriginalText(
+  edits: readonly FileTextEdits[],
+  getFileText: (fileName: string) => string | undefined
+): FileTextEdits[] {
+  return edits.map(({ filePath, isNewFile, textEdits }) => {
+    // 新規作成するファイルには比べる内容が無い
+    if (isNewFile) return { filePath, isNewFile, textEdits };
+    const text = getFileText(filePath);
+    if (text === undefined) return { filePath, textEdits };
+
+    const toOffset = createOffsetResolver(filePath, text);
+    return {
+      filePath,
+      contentHash: hashText(text),
+      textEdits: textEdits.map(({ range, newText }) => ({
+        range,
+        newText,
+        oldText: text.slice(toOffset(range.start), toOffset(range.end)),
+      })),
+    };
+  });
+}
+
+/**
+ * 行・文字位置をテキスト上のオフセットに変換する関数を作る
+ *
+ * @param fileName 対象ファイル（エラーメッセージ用）
+ * @param text 対象のテキスト
+ * @returns 位置をオフセットに変換する関数（範囲外の位置ではエラーを投げる）
+ */
+export function createOffsetResolver(
+  fileName: string,
+  text: string
+): (position: Position) => number {
+  const lineStarts = ts
+    .createSourceFile(fileName, text, ts.ScriptTarget.Latest)
+    .getLineStarts();
+  return ({ line, character }) => {
+    const lineEnd =
+      line + 1 < lineStarts.length ? lineStarts[line + 1] : text.length;
+    if (
+      line < 0 ||
+      line >= lineStarts.length ||
+      character < 0 ||
+      lineStarts[line] + character > lineEnd
+    ) {
+      throw new Error(
+        `Edit range is out of bounds in ${fileName}: ${line}:${character}`
+      );
+    }
+    return lineStarts[line] + character;
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * git を使わない .gitignore の解釈
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+
+/**
+ * .gitignore の1行分の規則
+ */
+export type GitignoreRule = {
+  baseDir: string; // .gitignore のあるディレクトリ（絶対パス）
+  pattern: RegExp; // baseDir からの相対パス（"/" 区切り）に対するパターン
+  negate: boolean; // "!" で始まる（無視しない）規則
+  directoryOnly: boolean; // "/" で終わる（ディレクトリだけに一致する）規則
+};
+
+/**
+ * .gitignore を読み、規則の一覧を返す
+ *
+ * 空行・"#" で始まるコメント行は除く。"/" を途中か先頭に含むパターンは
+ * .gitignore のあるディレクトリからの相対パスに、含まないパターンは
+ * どの階層の名前にも一致する。"*"・"?"・"[...]"・"**" を解釈する。
+ *
+ * @param gitignorePath .gitignore の絶対パス
+ * @returns 規則（ファイルが無い場合は空配列、記述順）
+ */
+export function readGitignore(gitignorePath: string): GitignoreRule[] {
+  if (!fs.existsSync(gitignorePath)) return [];
+
+  const baseDir = path.dirname(gitignorePath);
+  return fs
+    .readFileSync(gitignorePath, "utf8")
+    .split(/\r?\n/)
+    .flatMap((line): GitignoreRule[] => {
+      // 1. コメント・空行を除き、末尾の（エスケープされていない）空白を削る
+      let text = line.replace(/(?<!\\)\s+$/, "");
+      if (text === "" || text.startsWith("#")) return [];
+
+      // 2. 否定・ディレクトリ限定・位置の固定を取り出す
+      const negate = text.startsWith("!");
+      if (negate) text = text.slice(1);
+      const directoryOnly = text.endsWith("/");
+      if (directoryOnly) text = text.slice(0, -1);
+      const anchored = text.includes("/");
+      if (text.startsWith("/")) text = text.slice(1);
+      if (text === "") return [];
+
+      // 3. 正規表現に変換する
+      const source = globToRegExpSource(text);
+      return [
+        {
+          baseDir,
+          pattern: new RegExp(anchored ? `^${source}$` : `^(?:.*/)?${source}$`),
+          negate,
+          directoryOnly,
+        },
+      ];
+    });
+}
+
+/**
+ * ファイル・ディレクトリが .gitignore の規則で無視されるかを判定する
+ *
+ * fileName を含むディレクトリの規則を記述順に調べ、最後に一致した規則に従う
+ * （親ディレクトリの .gitignore の規則を先に並べておくこと）。
+ *
+ * @param rules 規則（親ディレクトリの .gitignore から順）
+ * @param fileName 判定するパス（絶対パス）
+ * @param isDirectory ディレクトリか
+ * @returns 無視される場合は true
+ */
+export function isGitignored(
+  rules: readonly GitignoreRule[],
+  fileName: string,
+  isDirectory: boolean
+): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) continue;
+    const relativePath = path.relative(rule.baseDir, fileName);
+    if (
+      relativePath === "" ||
+      relativePath === ".." ||
+      relativePath.startsWith(`..${path.sep}`) ||
+      path.isAbsolute(relativePath)
+    ) {
+      continue;
+    }
+    if (rule.pattern.test(relativePath.split(path.sep).join("/"))) {
+      ignored = !rule.negate;
+    }
+  }
+  return ignored;
+}
+
+/**
+ * .gitignore のパターンを正規表現のソースに変換する
+ *
+ * @param glob パターン（先頭・末尾の "/" と "!" を除いたもの）
+ * @returns 正規表現のソース（"^"・"$" を含まない）
+ */
+function globToRegExpSource(glob: string): string {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      // "**/" は0個以上のディレクトリ、末尾の "**" は以下のすべてに一致する
+      const atSegmentStart = i === 0 || glob[i - 1] === "/";
+      if (atSegmentStart && glob[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+        continue;
+      }
+      if (atSegmentStart && i + 2 === glob.length) {
+        source += ".*";
+        i += 1;
+        continue;
+      }
+      source += "[^/]*";
+      i += 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = glob.indexOf("]", i + 2);
+      if (end === -1) {
+        source += "\\[";
+        continue;
+      }
+      const body = glob.slice(i + 1, end);
+      source += body.startsWith("!") ? `[^${body.slice(1)}]` : `[${body}]`;
+      i = end;
+    } else if (char === "\\" && i + 1 < glob.length) {
+      source += escapeRegExp(glob[i + 1]);
+      i += 1;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return source;
+}
+
+/**
+ * 正規表現の特殊文字をエスケープする
+ *
+ * @param text エスケープする文字列
+ * @returns エスケープした文字列
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
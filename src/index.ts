@@ -2,7 +2,7 @@
 
 /**
  * MCP Server エントリポイント
- * TypeScript シンボルリネームとファイル/ディレクトリ移動プラン機能を提供
+ * TypeScript シンボルリネームとファイル/ディレクトリ移動プラン機能、プランの検証、参照・宣言・シンボルの検索を提供
  */
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
@@ -14,12 +14,36 @@ import {
 } from "@modelcontextprotocol/sdk/types.js";
 
 import { planRenameSymbol } from "./tools/planRenameSymbol.js";
+import { planRenameSymbols } from "./tools/planRenameSymbols.js";
+import { findReferences } from "./tools/findReferences.js";
+import { getDefinition } from "./tools/getDefinition.js";
+import { searchSymbols } from "./tools/searchSymbols.js";
 import { planFileMove } from "./tools/planFileMove.js";
+import { planMoveSymbol } from "./tools/planMoveSymbol.js";
 import {
   planDirectoryMove,
   type PlanDirectoryMoveParams,
 } from "./tools/planDirectoryMove.js";
-import type { PlanRenameSymbolParams, PlanFileMoveParams } from "./types.js";
+import { verifyPlan } from "./tools/verifyPlan.js";
+import { applyPlan } from "./tools/applyPlan.js";
+import type {
+  FindReferencesParams,
+  GetDefinitionParams,
+  SearchSymbolsParams,
+  PlanRenameSymbolParams,
+  PlanRenameSymbolsParams,
+  PlanFileMoveParams,
+  PlanMoveSymbolParams,
+  VerifyPlanParams,
+  ApplyPlanParams,
+} from "./types.js";
+
+/**
+ * applyPlan（ディスクへの書き込み）を有効にするか
+ *
+ * 既定では読み取り専用で、サーバーを --allow-writes 付きで起動した場合だけ有効。
+ */
+const ALLOW_WRITES = process.argv.slice(2).includes("--allow-writes");
 
 /**
  * MCP ツール定義
@@ -28,7 +52,7 @@ const TOOLS: Tool[] = [
   {
     name: "planRenameSymbol",
     description:
-      "Compute edits to rename a TypeScript symbol at a specific position. Returns edit plans without modifying the filesystem.",
+      "Compute edits to rename a TypeScript symbol at a specific position, or declared with a given name. Returns edit plans without modifying the filesystem.",
     inputSchema: {
       type: "object",
       properties: {
@@ -43,15 +67,28 @@ const TOOLS: Tool[] = [
         },
         line: {
           type: "number",
-          description: "0-based line number of the symbol",
+          description:
+            "0-based line number of the symbol (not needed when symbolName is given)",
         },
         character: {
           type: "number",
-          description: "0-based character position of the symbol",
+          description:
+            "0-based character position of the symbol (not needed when symbolName is given)",
+        },
+        symbolName: {
+          type: "string",
+          description:
+            "Name of the symbol declared in filePath (e.g. fetchUser or UserService.fetchUser). Takes precedence over line/character. If several declarations match, candidates are returned instead of edits",
+        },
+        containerName: {
+          type: "string",
+          description:
+            "Name of the class, namespace, etc. that contains symbolName, used to disambiguate",
         },
         newName: {
           type: "string",
-          description: "The new name for the symbol",
+          description:
+            "The new name for the symbol. Must be a valid identifier for the symbol kind; properties may use a quoted name such as \"my-key\" (including the quotes) and private members a #name",
         },
         findInStrings: {
           type: "boolean",
@@ -62,8 +99,320 @@ const TOOLS: Tool[] = [
           description:
             "Whether to find occurrences in comments (default: false)",
         },
+        usePrefixAndSuffixText: {
+          type: "boolean",
+          description:
+            "Keep object keys and exported/imported names unchanged where the renamed local is used in shorthand properties or export/import specifiers, e.g. { user } becomes { user: account } and export { user } becomes export { account as user } (default: false)",
+        },
+        allowCollisions: {
+          type: "boolean",
+          description:
+            "Return edits even if newName collides with an existing declaration (the collisions are returned as warnings). By default such renames fail with canRename: false and the colliding locations",
+        },
+        outputFormat: {
+          type: "string",
+          enum: ["json", "unifiedDiff", "workspaceEdit"],
+          description:
+            "\"unifiedDiff\" additionally returns the plan as a git-compatible unified diff in diff (paths relative to projectRoot, moves as rename headers) that can be fed to git apply; \"workspaceEdit\" additionally returns an LSP WorkspaceEdit in workspaceEdit (documentChanges with RenameFile operations followed by TextDocumentEdits on file:// URIs) that can be passed to an LSP client's workspace/applyEdit (default: \"json\")",
+        },
+        tsconfigPath: {
+          type: "string",
+          description:
+            "Absolute path or path relative to projectRoot of the tsconfig (e.g. tsconfig.app.json, jsconfig.json) to use. Defaults to the nearest tsconfig.json / tsconfig.*.json / jsconfig.json, searching upward from filePath to projectRoot, whose file list includes filePath (falling back to the tsconfig.json at or above projectRoot). The config used is returned as tsconfigPath",
+        },
+        typescriptPath: {
+          type: "string",
+          description:
+            "Path to the TypeScript package directory or lib/typescript.js to use, or \"bundled\" for the version shipped with this server. Defaults to the TypeScript installed in the project (falling back to the bundled one)",
+        },
+        disablePlugins: {
+          type: "boolean",
+          description:
+            "Do not load language service plugins declared in tsconfig compilerOptions.plugins (default: false)",
+        },
+        overlays: {
+          type: "object",
+          additionalProperties: { type: "string" },
+          description:
+            "Map of file path (absolute or relative to projectRoot) to unsaved file contents. These contents are used instead of disk, and returned ranges refer to them",
+        },
+      },
+      required: ["projectRoot", "filePath", "newName"],
+    },
+  },
+  {
+    name: "planRenameSymbols",
+    description:
+      "Compute a single combined edit plan for several renames at once. Each rename is computed against the text produced by the previous ones; renames whose edits overlap earlier edits are skipped and reported as conflicts. Returns edit plans without modifying the filesystem.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        projectRoot: {
+          type: "string",
+          description: "Absolute or relative path to the project root",
+        },
+        renames: {
+          type: "array",
+          description:
+            "Renames to apply in order. Positions refer to the original text",
+          items: {
+            type: "object",
+            properties: {
+              filePath: {
+                type: "string",
+                description:
+                  "Absolute path or path relative to projectRoot of the file containing the symbol",
+              },
+              line: {
+                type: "number",
+                description:
+                  "0-based line number of the symbol (not needed when symbolName is given)",
+              },
+              character: {
+                type: "number",
+                description:
+                  "0-based character position of the symbol (not needed when symbolName is given)",
+              },
+              symbolName: {
+                type: "string",
+                description:
+                  "Name of the symbol declared in filePath (e.g. fetchUser or UserService.fetchUser)",
+              },
+              containerName: {
+                type: "string",
+                description:
+                  "Name of the class, namespace, etc. that contains symbolName",
+              },
+              newName: {
+                type: "string",
+                description: "The new name for the symbol",
+              },
+              findInStrings: {
+                type: "boolean",
+                description:
+                  "Whether to find occurrences in strings (default: false)",
+              },
+              findInComments: {
+                type: "boolean",
+                description:
+                  "Whether to find occurrences in comments (default: false)",
+              },
+              usePrefixAndSuffixText: {
+                type: "boolean",
+                description:
+                  "Keep object keys and exported/imported names unchanged in shorthand properties and export/import specifiers (default: false)",
+              },
+              allowCollisions: {
+                type: "boolean",
+                description:
+                  "Apply the rename even if newName collides with an existing declaration (default: false)",
+              },
+            },
+            required: ["filePath", "newName"],
+          },
+        },
+        tsconfigPath: {
+          type: "string",
+          description:
+            "Absolute path or path relative to projectRoot of the tsconfig to use. Defaults to the nearest tsconfig that includes each target file",
+        },
+        typescriptPath: {
+          type: "string",
+          description:
+            "Path to the TypeScript package directory or lib/typescript.js to use, or \"bundled\" for the version shipped with this server. Defaults to the TypeScript installed in the project (falling back to the bundled one)",
+        },
+        disablePlugins: {
+          type: "boolean",
+          description:
+            "Do not load language service plugins declared in tsconfig compilerOptions.plugins (default: false)",
+        },
+        overlays: {
+          type: "object",
+          additionalProperties: { type: "string" },
+          description:
+            "Map of file path (absolute or relative to projectRoot) to unsaved file contents. These contents are used instead of disk, and returned ranges refer to them",
+        },
+      },
+      required: ["projectRoot", "renames"],
+    },
+  },
+  {
+    name: "findReferences",
+    description:
+      "Find all references to a TypeScript symbol at a specific position, or declared with a given name. References are grouped into definition, read, write, import, export and typeOnly, each with its range and a one-line preview.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        projectRoot: {
+          type: "string",
+          description: "Absolute or relative path to the project root",
+        },
+        filePath: {
+          type: "string",
+          description:
+            "Absolute path or path relative to projectRoot of the file containing the symbol",
+        },
+        line: {
+          type: "number",
+          description:
+            "0-based line number of the symbol (not needed when symbolName is given)",
+        },
+        character: {
+          type: "number",
+          description:
+            "0-based character position of the symbol (not needed when symbolName is given)",
+        },
+        symbolName: {
+          type: "string",
+          description:
+            "Name of the symbol declared in filePath (e.g. fetchUser or UserService.fetchUser). Takes precedence over line/character. If several declarations match, candidates are returned instead of references",
+        },
+        containerName: {
+          type: "string",
+          description:
+            "Name of the class, namespace, etc. that contains symbolName, used to disambiguate",
+        },
+        tsconfigPath: {
+          type: "string",
+          description:
+            "Absolute path or path relative to projectRoot of the tsconfig (e.g. tsconfig.app.json, jsconfig.json) to use. Defaults to the nearest tsconfig.json / tsconfig.*.json / jsconfig.json, searching upward from filePath to projectRoot, whose file list includes filePath (falling back to the tsconfig.json at or above projectRoot). The config used is returned as tsconfigPath",
+        },
+        typescriptPath: {
+          type: "string",
+          description:
+            "Path to the TypeScript package directory or lib/typescript.js to use, or \"bundled\" for the version shipped with this server. Defaults to the TypeScript installed in the project (falling back to the bundled one)",
+        },
+        disablePlugins: {
+          type: "boolean",
+          description:
+            "Do not load language service plugins declared in tsconfig compilerOptions.plugins (default: false)",
+        },
+        overlays: {
+          type: "object",
+          additionalProperties: { type: "string" },
+          description:
+            "Map of file path (absolute or relative to projectRoot) to unsaved file contents. These contents are used instead of disk, and returned ranges refer to them",
+        },
+      },
+      required: ["projectRoot", "filePath"],
+    },
+  },
+  {
+    name: "getDefinition",
+    description:
+      "Resolve a TypeScript symbol at a specific position, or declared with a given name, to its original declaration(s), following imports, export * and re-exports through barrel files. Also returns the declaration(s) of its type. Each declaration reports its kind, container and containing module, so the result can be passed to planRenameSymbol.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        projectRoot: {
+          type: "string",
+          description: "Absolute or relative path to the project root",
+        },
+        filePath: {
+          type: "string",
+          description:
+            "Absolute path or path relative to projectRoot of the file containing the symbol",
+        },
+        line: {
+          type: "number",
+          description:
+            "0-based line number of the symbol (not needed when symbolName is given)",
+        },
+        character: {
+          type: "number",
+          description:
+            "0-based character position of the symbol (not needed when symbolName is given)",
+        },
+        symbolName: {
+          type: "string",
+          description:
+            "Name of the symbol declared in filePath (e.g. fetchUser or UserService.fetchUser). Takes precedence over line/character. If several declarations match, candidates are returned instead of definitions",
+        },
+        containerName: {
+          type: "string",
+          description:
+            "Name of the class, namespace, etc. that contains symbolName, used to disambiguate",
+        },
+        tsconfigPath: {
+          type: "string",
+          description:
+            "Absolute path or path relative to projectRoot of the tsconfig (e.g. tsconfig.app.json, jsconfig.json) to use. Defaults to the nearest tsconfig.json / tsconfig.*.json / jsconfig.json, searching upward from filePath to projectRoot, whose file list includes filePath (falling back to the tsconfig.json at or above projectRoot). The config used is returned as tsconfigPath",
+        },
+        typescriptPath: {
+          type: "string",
+          description:
+            "Path to the TypeScript package directory or lib/typescript.js to use, or \"bundled\" for the version shipped with this server. Defaults to the TypeScript installed in the project (falling back to the bundled one)",
+        },
+        disablePlugins: {
+          type: "boolean",
+          description:
+            "Do not load language service plugins declared in tsconfig compilerOptions.plugins (default: false)",
+        },
+        overlays: {
+          type: "object",
+          additionalProperties: { type: "string" },
+          description:
+            "Map of file path (absolute or relative to projectRoot) to unsaved file contents. These contents are used instead of disk, and returned ranges refer to them",
+        },
+      },
+      required: ["projectRoot", "filePath"],
+    },
+  },
+  {
+    name: "searchSymbols",
+    description:
+      "Search declarations by name across the whole project (workspace symbol search). Returns each match's kind, container name, file path and the range of its name, which can be passed to planRenameSymbol, findReferences or getDefinition.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        projectRoot: {
+          type: "string",
+          description: "Absolute or relative path to the project root",
+        },
+        query: {
+          type: "string",
+          description:
+            "Symbol name to search for. Exact, prefix, substring and camelCase matches (e.g. \"UsrSvc\" for UserService) are returned, strongest first",
+        },
+        kinds: {
+          type: "array",
+          items: { type: "string" },
+          description:
+            "Only return these kinds of declarations (e.g. [\"class\", \"interface\", \"function\", \"method\", \"const\"])",
+        },
+        includeExternal: {
+          type: "boolean",
+          description:
+            "Also return declarations from node_modules and the TypeScript lib files (default: false)",
+        },
+        maxResults: {
+          type: "number",
+          description:
+            "Maximum number of matches to return (default: 50). truncated is true when more matches were found",
+        },
+        tsconfigPath: {
+          type: "string",
+          description:
+            "Absolute path or path relative to projectRoot of the tsconfig (e.g. tsconfig.app.json, jsconfig.json) to use. Defaults to the nearest tsconfig.json at or above projectRoot",
+        },
+        typescriptPath: {
+          type: "string",
+          description:
+            "Path to the TypeScript package directory or lib/typescript.js to use, or \"bundled\" for the version shipped with this server. Defaults to the TypeScript installed in the project (falling back to the bundled one)",
+        },
+        disablePlugins: {
+          type: "boolean",
+          description:
+            "Do not load language service plugins declared in tsconfig compilerOptions.plugins (default: false)",
+        },
+        overlays: {
+          type: "object",
+          additionalProperties: { type: "string" },
+          description:
+            "Map of file path (absolute or relative to projectRoot) to unsaved file contents. These contents are used instead of disk, and returned ranges refer to them",
+        },
       },
-      required: ["projectRoot", "filePath", "line", "character", "newName"],
+      required: ["projectRoot", "query"],
     },
   },
   {
@@ -87,6 +436,38 @@ const TOOLS: Tool[] = [
           description:
             "Absolute path or path relative to projectRoot of the destination",
         },
+        organizeImports: {
+          type: "boolean",
+          description:
+            "After updating import paths, sort the imports of every edited file and merge imports from the same module, as seen from the files' new locations. Unused imports are kept (default: false)",
+        },
+        outputFormat: {
+          type: "string",
+          enum: ["json", "unifiedDiff", "workspaceEdit"],
+          description:
+            "\"unifiedDiff\" additionally returns the plan as a git-compatible unified diff in diff (paths relative to projectRoot, moves as rename headers) that can be fed to git apply; \"workspaceEdit\" additionally returns an LSP WorkspaceEdit in workspaceEdit (documentChanges with RenameFile operations followed by TextDocumentEdits on file:// URIs) that can be passed to an LSP client's workspace/applyEdit (default: \"json\")",
+        },
+        tsconfigPath: {
+          type: "string",
+          description:
+            "Absolute path or path relative to projectRoot of the tsconfig (e.g. tsconfig.app.json, jsconfig.json) to use. Defaults to the nearest tsconfig.json / tsconfig.*.json / jsconfig.json, searching upward from oldPath to projectRoot, whose file list includes oldPath (falling back to the tsconfig.json at or above projectRoot). The config used is returned as tsconfigPath",
+        },
+        typescriptPath: {
+          type: "string",
+          description:
+            "Path to the TypeScript package directory or lib/typescript.js to use, or \"bundled\" for the version shipped with this server. Defaults to the TypeScript installed in the project (falling back to the bundled one)",
+        },
+        disablePlugins: {
+          type: "boolean",
+          description:
+            "Do not load language service plugins declared in tsconfig compilerOptions.plugins (default: false)",
+        },
+        overlays: {
+          type: "object",
+          additionalProperties: { type: "string" },
+          description:
+            "Map of file path (absolute or relative to projectRoot) to unsaved file contents. These contents are used instead of disk, and returned ranges refer to them",
+        },
       },
       required: ["projectRoot", "oldPath", "newPath"],
     },
@@ -112,10 +493,294 @@ const TOOLS: Tool[] = [
           description:
             "Absolute path or path relative to projectRoot of the destination",
         },
+        includeAllFiles: {
+          type: "boolean",
+          description:
+            "Also move files under oldDir that are not part of the TypeScript project (CSS, JSON, images, snapshots, ...), skipping files ignored by .gitignore (default: false). Imports of such files are updated either way",
+        },
+        organizeImports: {
+          type: "boolean",
+          description:
+            "After updating import paths, sort the imports of every edited file and merge imports from the same module, as seen from the files' new locations. Unused imports are kept (default: false)",
+        },
+        outputFormat: {
+          type: "string",
+          enum: ["json", "unifiedDiff", "workspaceEdit"],
+          description:
+            "\"unifiedDiff\" additionally returns the plan as a git-compatible unified diff in diff (paths relative to projectRoot, moves as rename headers) that can be fed to git apply; \"workspaceEdit\" additionally returns an LSP WorkspaceEdit in workspaceEdit (documentChanges with RenameFile operations followed by TextDocumentEdits on file:// URIs) that can be passed to an LSP client's workspace/applyEdit (default: \"json\")",
+        },
+        tsconfigPath: {
+          type: "string",
+          description:
+            "Absolute path or path relative to projectRoot of the tsconfig (e.g. tsconfig.app.json, jsconfig.json) to use. Defaults to the nearest tsconfig.json at or above projectRoot",
+        },
+        typescriptPath: {
+          type: "string",
+          description:
+            "Path to the TypeScript package directory or lib/typescript.js to use, or \"bundled\" for the version shipped with this server. Defaults to the TypeScript installed in the project (falling back to the bundled one)",
+        },
+        disablePlugins: {
+          type: "boolean",
+          description:
+            "Do not load language service plugins declared in tsconfig compilerOptions.plugins (default: false)",
+        },
+        overlays: {
+          type: "object",
+          additionalProperties: { type: "string" },
+          description:
+            "Map of file path (absolute or relative to projectRoot) to unsaved file contents. These contents are used instead of disk, and returned ranges refer to them",
+        },
       },
       required: ["projectRoot", "oldDir", "newDir"],
     },
   },
+  {
+    name: "planMoveSymbol",
+    description:
+      "Plan moving a top-level declaration (function, class, type, variable, etc.) to another file using the TypeScript \"Move to file\" refactor. Returns edits for the source file, the destination (created if it does not exist) and every file importing the declaration, without modifying the filesystem.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        projectRoot: {
+          type: "string",
+          description: "Absolute or relative path to the project root",
+        },
+        filePath: {
+          type: "string",
+          description:
+            "Absolute path or path relative to projectRoot of the file containing the declaration",
+        },
+        line: {
+          type: "number",
+          description:
+            "0-based line number inside the declaration (not needed when symbolName is given)",
+        },
+        character: {
+          type: "number",
+          description:
+            "0-based character position inside the declaration (not needed when symbolName is given)",
+        },
+        symbolName: {
+          type: "string",
+          description:
+            "Name of the top-level declaration in filePath. Takes precedence over line/character. If several declarations match, candidates are returned instead of edits",
+        },
+        targetPath: {
+          type: "string",
+          description:
+            "Absolute path or path relative to projectRoot of the destination file. If it does not exist, the edits create it (isNewFile: true)",
+        },
+        outputFormat: {
+          type: "string",
+          enum: ["json", "unifiedDiff", "workspaceEdit"],
+          description:
+            "\"unifiedDiff\" additionally returns the plan as a git-compatible unified diff in diff (paths relative to projectRoot, moves as rename headers, created files as new file diffs) that can be fed to git apply; \"workspaceEdit\" additionally returns an LSP WorkspaceEdit in workspaceEdit (documentChanges with RenameFile / CreateFile operations followed by TextDocumentEdits on file:// URIs) that can be passed to an LSP client's workspace/applyEdit (default: \"json\")",
+        },
+        tsconfigPath: {
+          type: "string",
+          description:
+            "Absolute path or path relative to projectRoot of the tsconfig (e.g. tsconfig.app.json, jsconfig.json) to use. Defaults to the nearest tsconfig.json / tsconfig.*.json / jsconfig.json, searching upward from filePath to projectRoot, whose file list includes filePath (falling back to the tsconfig.json at or above projectRoot). The config used is returned as tsconfigPath",
+        },
+        typescriptPath: {
+          type: "string",
+          description:
+            "Path to the TypeScript package directory or lib/typescript.js to use, or \"bundled\" for the version shipped with this server. Defaults to the TypeScript installed in the project (falling back to the bundled one). The \"Move to file\" refactor requires TypeScript 5.2 or later",
+        },
+        disablePlugins: {
+          type: "boolean",
+          description:
+            "Do not load language service plugins declared in tsconfig compilerOptions.plugins (default: false)",
+        },
+        overlays: {
+          type: "object",
+          additionalProperties: { type: "string" },
+          description:
+            "Map of file path (absolute or relative to projectRoot) to unsaved file contents. These contents are used instead of disk, and returned ranges refer to them",
+        },
+      },
+      required: ["projectRoot", "filePath", "targetPath"],
+    },
+  },
+  {
+    name: "verifyPlan",
+    description:
+      "Type-check the project as if an edit plan (edits and file moves returned by the plan* tools) had been applied, and report diagnostics that the plan would introduce or fix. Files changed since the plan was created (contentHash / oldText mismatch) are reported in staleFiles instead of being type-checked. Works in memory without modifying the filesystem.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        projectRoot: {
+          type: "string",
+          description: "Absolute or relative path to the project root",
+        },
+        edits: {
+          type: "array",
+          description:
+            "Text edits to verify, as returned in edits by the plan* tools. Ranges refer to the current file contents",
+          items: {
+            type: "object",
+            properties: {
+              filePath: {
+                type: "string",
+                description:
+                  "Absolute path or path relative to projectRoot of the file to edit (before or after the move)",
+              },
+              isNewFile: {
+                type: "boolean",
+                description:
+                  "The file does not exist yet and is created with the edits (ranges refer to an empty file), as returned by planMoveSymbol",
+              },
+              contentHash: {
+                type: "string",
+                description:
+                  "SHA-256 (hex) of the file contents the edits were computed against, as returned by the plan* tools. The file is reported as stale if it no longer matches",
+              },
+              textEdits: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    range: {
+                      type: "object",
+                      description:
+                        "0-based range: { start: { line, character }, end: { line, character } }",
+                    },
+                    newText: { type: "string" },
+                    oldText: {
+                      type: "string",
+                      description:
+                        "Text expected in range before the edit. The file is reported as stale if it differs",
+                    },
+                  },
+                  required: ["range", "newText"],
+                },
+              },
+            },
+            required: ["filePath", "textEdits"],
+          },
+        },
+        fsMoves: {
+          type: "array",
+          description:
+            "File moves to verify, as returned in fsMoves by planFileMove / planDirectoryMove",
+          items: {
+            type: "object",
+            properties: {
+              from: { type: "string" },
+              to: { type: "string" },
+            },
+            required: ["from", "to"],
+          },
+        },
+        tsconfigPath: {
+          type: "string",
+          description:
+            "Absolute path or path relative to projectRoot of the tsconfig (e.g. tsconfig.app.json, jsconfig.json) to use. Defaults to the nearest tsconfig.json at or above projectRoot",
+        },
+        typescriptPath: {
+          type: "string",
+          description:
+            "Path to the TypeScript package directory or lib/typescript.js to use, or \"bundled\" for the version shipped with this server. Defaults to the TypeScript installed in the project (falling back to the bundled one)",
+        },
+        disablePlugins: {
+          type: "boolean",
+          description:
+            "Do not load language service plugins declared in tsconfig compilerOptions.plugins (default: false)",
+        },
+        overlays: {
+          type: "object",
+          additionalProperties: { type: "string" },
+          description:
+            "Map of file path (absolute or relative to projectRoot) to unsaved file contents. The plan is applied on top of these contents",
+        },
+      },
+      required: ["projectRoot", "edits"],
+    },
+  },
+];
+
+/**
+ * 書き込みを行う MCP ツール定義（--allow-writes の場合だけ公開する）
+ */
+const WRITE_TOOLS: Tool[] = [
+  {
+    name: "applyPlan",
+    description:
+      "Write an edit plan (edits and file moves returned by the plan* tools) to disk as one transaction. All edits are validated first, and the plan is refused if any file changed since it was created (contentHash / oldText mismatch); if any write fails, every file is restored. Use dryRun to only validate.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        projectRoot: {
+          type: "string",
+          description: "Absolute or relative path to the project root",
+        },
+        edits: {
+          type: "array",
+          description:
+            "Text edits to write, as returned in edits by the plan* tools. Ranges refer to the current file contents on disk",
+          items: {
+            type: "object",
+            properties: {
+              filePath: {
+                type: "string",
+                description:
+                  "Absolute path or path relative to projectRoot of the file to edit (before or after the move)",
+              },
+              isNewFile: {
+                type: "boolean",
+                description:
+                  "The file does not exist yet and is created with the edits (ranges refer to an empty file), as returned by planMoveSymbol",
+              },
+              contentHash: {
+                type: "string",
+                description:
+                  "SHA-256 (hex) of the file contents the edits were computed against, as returned by the plan* tools. The file is reported as stale if it no longer matches",
+              },
+              textEdits: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    range: {
+                      type: "object",
+                      description:
+                        "0-based range: { start: { line, character }, end: { line, character } }",
+                    },
+                    newText: { type: "string" },
+                    oldText: {
+                      type: "string",
+                      description:
+                        "Text expected in range before the edit. The file is reported as stale if it differs",
+                    },
+                  },
+                  required: ["range", "newText"],
+                },
+              },
+            },
+            required: ["filePath", "textEdits"],
+          },
+        },
+        fsMoves: {
+          type: "array",
+          description:
+            "File moves to perform, as returned in fsMoves by planFileMove / planDirectoryMove",
+          items: {
+            type: "object",
+            properties: {
+              from: { type: "string" },
+              to: { type: "string" },
+            },
+            required: ["from", "to"],
+          },
+        },
+        dryRun: {
+          type: "boolean",
+          description:
+            "Only validate the plan and report the files that would be written or removed (default: false)",
+        },
+      },
+      required: ["projectRoot", "edits"],
+    },
+  },
 ];
 
 /**
@@ -138,7 +803,7 @@ async function main() {
   // ツールリストのリクエストをハンドル
   server.setRequestHandler(ListToolsRequestSchema, async () => {
     return {
-      tools: TOOLS,
+      tools: ALLOW_WRITES ? [...TOOLS, ...WRITE_TOOLS] : TOOLS,
     };
   });
 
@@ -161,6 +826,58 @@ async function main() {
           };
         }
 
+        case "planRenameSymbols": {
+          const params = args as unknown as PlanRenameSymbolsParams;
+          const result = planRenameSymbols(params);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        }
+
+        case "findReferences": {
+          const params = args as unknown as FindReferencesParams;
+          const result = findReferences(params);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        }
+
+        case "getDefinition": {
+          const params = args as unknown as GetDefinitionParams;
+          const result = getDefinition(params);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        }
+
+        case "searchSymbols": {
+          const params = args as unknown as SearchSymbolsParams;
+          const result = searchSymbols(params);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        }
+
         case "planFileMove": {
           const params = args as unknown as PlanFileMoveParams;
           const result = planFileMove(params);
@@ -187,6 +904,50 @@ async function main() {
           };
         }
 
+        case "planMoveSymbol": {
+          const params = args as unknown as PlanMoveSymbolParams;
+          const result = planMoveSymbol(params);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        }
+
+        case "verifyPlan": {
+          const params = args as unknown as VerifyPlanParams;
+          const result = verifyPlan(params);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        }
+
+        case "applyPlan": {
+          if (!ALLOW_WRITES) {
+            throw new Error(
+              "applyPlan is disabled; start the server with --allow-writes to enable it"
+            );
+          }
+          const params = args as unknown as ApplyPlanParams;
+          const result = applyPlan(params);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        }
+
         default:
           throw new Error(`Unknown tool: ${name}`);
       }
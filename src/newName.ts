@@ -0,0 +1,234 @@
+/**
+ * リネーム後の名前（newName）の検証
+ * シンボルの種類ごとに、識別子として使える名前か・予約語でないかを調べる
+ */
+
+import ts from "typescript";
+import type { NewNameError } from "./types.js";
+
+/**
+ * クラス・インターフェース・型エイリアスなどの名前に使えない型名
+ */
+const RESERVED_TYPE_NAMES = new Set([
+  "any",
+  "unknown",
+  "never",
+  "number",
+  "bigint",
+  "boolean",
+  "string",
+  "symbol",
+  "void",
+  "object",
+  "undefined",
+]);
+
+/**
+ * strict mode で束縛名に使えない名前（予約語以外）
+ */
+const STRICT_MODE_RESTRICTED_NAMES = new Set(["arguments", "eval"]);
+
+/**
+ * 型として宣言されるシンボルの種類
+ */
+const TYPE_KINDS = new Set<string>([
+  ts.ScriptElementKind.classElement,
+  ts.ScriptElementKind.interfaceElement,
+  ts.ScriptElementKind.typeElement,
+  ts.ScriptElementKind.enumElement,
+  ts.ScriptElementKind.typeParameterElement,
+]);
+
+/**
+ * メンバー（プロパティ名の位置に現れる）シンボルの種類
+ */
+const MEMBER_KINDS = new Set<string>([
+  ts.ScriptElementKind.memberVariableElement,
+  ts.ScriptElementKind.memberFunctionElement,
+  ts.ScriptElementKind.memberGetAccessorElement,
+  ts.ScriptElementKind.memberSetAccessorElement,
+  ts.ScriptElementKind.memberAccessorVariableElement,
+  ts.ScriptElementKind.enumMemberElement,
+]);
+
+/**
+ * 引用符で囲まれた名前（"my-key" や 'my-key'）であれば中身を返す
+ *
+ * @param newName 新しい名前
+ * @returns 引用符の中身（引用符で囲まれていなければ undefined）
+ */
+export function parseQuotedName(newName: string): string | undefined {
+  const match = /^(["'])(.*)\1$/s.exec(newName);
+  return match ? match[2] : undefined;
+}
+
+/**
+ * 引用符付きの名前で置き換えるときの、リネーム箇所ごとのテキストを返す
+ *
+ * 宣言のプロパティ名（key: 1 や key() {}）では引用符付きの名前を、文字列リテラル内
+ * （o["key"] や "key": 1）やコメント内では引用符の中身を使う。ドット記法のアクセスや
+ * 短縮プロパティのように引用符付きの名前を書けない識別子の位置では undefined を返す。
+ *
+ * @param sourceFile リネーム箇所を含むファイル（親ノード付きでパースしたもの）
+ * @param position リネーム箇所の開始位置
+ * @param newName 引用符付きの新しい名前
+ * @returns 置き換えるテキスト（書けない位置では undefined）
+ */
+export function getQuotedNameText(
+  sourceFile: ts.SourceFile,
+  position: number,
+  newName: string
+): string | undefined {
+  const visit = (node: ts.Node): ts.Node | undefined => {
+    if (position < node.getStart(sourceFile) || position >= node.getEnd()) {
+      return undefined;
+    }
+    return ts.forEachChild(node, visit) ?? node;
+  };
+  const node = ts.forEachChild(sourceFile, visit);
+  if (!node || !ts.isIdentifier(node)) {
+    return parseQuotedName(newName);
+  }
+
+  const parent = node.parent;
+  const isPropertyName =
+    (ts.isPropertyAssignment(parent) ||
+      ts.isPropertyDeclaration(parent) ||
+      ts.isPropertySignature(parent) ||
+      ts.isMethodDeclaration(parent) ||
+      ts.isMethodSignature(parent) ||
+      ts.isGetAccessorDeclaration(parent) ||
+      ts.isSetAccessorDeclaration(parent) ||
+      ts.isEnumMember(parent)) &&
+    parent.name === node;
+  return isPropertyName ? newName : undefined;
+}
+
+/**
+ * newName がリネーム対象のシンボルの名前として使えるかを検証する
+ *
+ * - メンバー（プロパティ・メソッド・enum メンバー）: 予約語を含む任意の識別子名、
+ *   または "my-key" のような引用符付きの名前
+ * - private 名（#x）: # で始まる識別子名
+ * - 型（クラス・インターフェースなど）: 予約語と組み込みの型名以外の識別子
+ * - それ以外（変数・関数・引数・import など）: 予約語と strict mode の予約語以外の識別子
+ *
+ * @param kind getRenameInfo() が返すシンボルの種類
+ * @param currentName 現在の名前（getRenameInfo() の displayName）
+ * @param newName 新しい名前
+ * @returns 使えない場合はその理由（使える場合は undefined）
+ */
+export function validateNewName(
+  kind: string,
+  currentName: string,
+  newName: string
+): NewNameError | undefined {
+  if (newName === "") {
+    return { code: "empty", message: "newName must not be empty" };
+  }
+
+  // private 名はそのまま # 付きで置き換わる
+  const isPrivate = currentName.startsWith("#");
+  if (isPrivate !== newName.startsWith("#")) {
+    return isPrivate
+      ? {
+          code: "privateNameRequired",
+          message: `${currentName} is a private name, so newName must start with #`,
+        }
+      : {
+          code: "privateNameNotAllowed",
+          message: `Private names such as ${newName} can only be used for private class members`,
+        };
+  }
+  if (isPrivate) {
+    return isIdentifierText(newName.slice(1))
+      ? undefined
+      : invalidIdentifier(newName);
+  }
+
+  if (MEMBER_KINDS.has(kind)) {
+    // プロパティ名は予約語も使え、引用符で囲めば任意の文字列にできる
+    if (parseQuotedName(newName) !== undefined) return undefined;
+    if (isIdentifierText(newName)) return undefined;
+    return {
+      code: "invalidIdentifier",
+      message: `${newName} is not a valid identifier; use a quoted name such as "${newName}" for property names that are not identifiers`,
+    };
+  }
+
+  if (parseQuotedName(newName) !== undefined) {
+    return {
+      code: "quotedNameNotAllowed",
+      message: `Quoted names can only be used for properties, not for a ${kind}`,
+    };
+  }
+  if (!isIdentifierText(newName)) {
+    return invalidIdentifier(newName);
+  }
+
+  const token = ts.identifierToKeywordKind(
+    ts.factory.createIdentifier(newName)
+  );
+  if (
+    token !== undefined &&
+    token >= ts.SyntaxKind.FirstReservedWord &&
+    token <= ts.SyntaxKind.LastReservedWord
+  ) {
+    return {
+      code: "reservedWord",
+      message: `${newName} is a reserved word and cannot be used as a ${kind} name`,
+    };
+  }
+  if (
+    (token !== undefined &&
+      token >= ts.SyntaxKind.FirstFutureReservedWord &&
+      token <= ts.SyntaxKind.LastFutureReservedWord) ||
+    STRICT_MODE_RESTRICTED_NAMES.has(newName)
+  ) {
+    return {
+      code: "strictModeReservedWord",
+      message: `${newName} cannot be used as a ${kind} name in strict mode (modules and classes are always strict)`,
+    };
+  }
+
+  if (TYPE_KINDS.has(kind) && RESERVED_TYPE_NAMES.has(newName)) {
+    return {
+      code: "reservedTypeName",
+      message: `${newName} is a built-in type name and cannot be used as a ${kind} name`,
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * 文字列が識別子として使える文字だけで構成されているか
+ *
+ * @param text 対象の文字列
+ * @returns 識別子として使える場合は true（予約語かどうかは問わない）
+ */
+function isIdentifierText(text: string): boolean {
+  const codePoints = Array.from(text, (char) => char.codePointAt(0)!);
+  return (
+    codePoints.length > 0 &&
+    ts.isIdentifierStart(codePoints[0], ts.ScriptTarget.Latest) &&
+    codePoints
+      .slice(1)
+      .every((codePoint) =>
+        ts.isIdentifierPart(codePoint, ts.ScriptTarget.Latest)
+      )
+  );
+}
+
+/**
+ * 識別子として不正な名前のエラーを作る
+ *
+ * @param newName 新しい名前
+ * @returns エラー
+ */
+function invalidIdentifier(newName: string): NewNameError {
+  return {
+    code: "invalidIdentifier",
+    message: `${newName} is not a valid identifier`,
+  };
+}
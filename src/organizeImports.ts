@@ -0,0 +1,143 @@
+/**
+ * 移動プランの適用後の import の整理
+ */
+
+import ts from "typescript";
+import path from "node:path";
+import { getTsServices, type TsServiceOptions } from "./tsService.js";
+import { getTypeScript } from "./typescriptModule.js";
+import { applyTextEdits, composeTextEdits } from "./edits.js";
+import type { FileTextEdits, FsMove, TextEdit } from "./types.js";
+
+/**
+ * 移動プランを適用した後の内容で import を整理し、その編集をプランに加える
+ *
+ * 編集・移動後の内容をオーバーレイ、移動元のファイルを存在しないものとして
+ * Language Service に渡し、編集のあるファイル（移動するファイルは移動先）ごとに
+ * organizeImports を呼ぶ。使われていない import は消さず、並べ替えと同じ
+ * モジュールからの import の統合だけを行う。整理の編集は元の編集と合わせて、
+ * 移動前の内容に対する編集に変換する。
+ *
+ * Language Service はキャッシュを共有しているため、最後に元のオーバーレイで
+ * 取得し直し、呼び出し元の getFileText が移動前の内容を返すように戻す。
+ *
+ * 使用する TypeScript が OrganizeImportsMode を持たない（4.9 未満）場合は、
+ * 使われていない import を消さずに整理できないため、整理せずに元の編集を返す。
+ *
+ * @param absProjectRoot プロジェクトルート（絶対パス）
+ * @param edits 移動前のファイルに対する編集
+ * @param fsMoves ファイル移動
+ * @param options プランの作成に使ったオーバーレイなどのオプション
+ * @param getFileText 移動前のファイル内容を返す関数（オーバーレイ優先）
+ * @returns import の整理を加えた編集（整理で変わらないファイルはそのまま）
+ */
+export function organizeImportsAfterMove(
+  absProjectRoot: string,
+  edits: readonly FileTextEdits[],
+  fsMoves: readonly FsMove[],
+  options: TsServiceOptions,
+  getFileText: (fileName: string) => string | undefined
+): FileTextEdits[] {
+  // 並べ替えと統合だけのモードが無い TypeScript では整理しない
+  const tsModule = getTypeScript(absProjectRoot, options.typescriptPath);
+  const modes: Partial<typeof ts.OrganizeImportsMode> | undefined =
+    tsModule.OrganizeImportsMode;
+  const sortAndCombine = modes?.SortAndCombine;
+  if (sortAndCombine === undefined) {
+    console.error(
+      `Skipping organizeImports: TypeScript ${tsModule.version} cannot organize imports without removing unused ones`
+    );
+    return [...edits];
+  }
+
+  const moves = new Map(fsMoves.map(({ from, to }) => [from, to]));
+
+  // 1. 編集・移動後の内容をオーバーレイにする
+  const afterOverlays = Object.fromEntries(
+    Object.entries(options.overlays ?? {}).map(([filePath, text]) => [
+      path.resolve(absProjectRoot, filePath),
+      text,
+    ])
+  );
+  for (const [from, to] of moves) {
+    const text = getFileText(from);
+    if (text !== undefined) afterOverlays[to] = text;
+  }
+  const originalTexts = new Map<string, string>();
+  for (const { filePath, textEdits } of edits) {
+    const text = getFileText(filePath);
+    if (text === undefined) continue;
+    originalTexts.set(filePath, text);
+    afterOverlays[moves.get(filePath) ?? filePath] = applyTextEdits(
+      filePath,
+      text,
+      textEdits
+    );
+  }
+
+  // 2. 適用後の Language Service で、編集のあるファイルの import を整理する
+  const after = getTsServices(absProjectRoot, {
+    ...options,
+    overlays: afterOverlays,
+    removedFiles: Array.from(moves.keys()),
+  });
+  const organized = edits.map((fileEdits): FileTextEdits => {
+    const text = originalTexts.get(fileEdits.filePath);
+    if (text === undefined) return fileEdits;
+
+    const fileName = moves.get(fileEdits.filePath) ?? fileEdits.filePath;
+    const owner = after.find(
+      ({ service }) =>
+        service.getProgram()?.getSourceFile(fileName) !== undefined
+    );
+    if (!owner) return fileEdits;
+
+    const newLine = text.includes("\r\n") ? "\r\n" : "\n";
+    const sourceFile = ts.createSourceFile(
+      fileName,
+      afterOverlays[fileName],
+      ts.ScriptTarget.Latest
+    );
+    const organizeEdits = owner.service
+      .organizeImports(
+        {
+          type: "file",
+          fileName,
+          mode: sortAndCombine,
+        },
+        ts.getDefaultFormatCodeSettings(newLine),
+        /* preferences */ {}
+      )
+      .filter((change) => change.fileName === fileName)
+      .flatMap(({ textChanges }) =>
+        textChanges.map(
+          (textChange): TextEdit => ({
+            range: {
+              start: sourceFile.getLineAndCharacterOfPosition(
+                textChange.span.start
+              ),
+              end: sourceFile.getLineAndCharacterOfPosition(
+                textChange.span.start + textChange.span.length
+              ),
+            },
+            newText: textChange.newText,
+          })
+        )
+      );
+
+    return {
+      ...fileEdits,
+      textEdits: composeTextEdits(
+        fileEdits.filePath,
+        text,
+        fileEdits.textEdits,
+        organizeEdits
+      ),
+    };
+  });
+
+  // 3. キャッシュ済みの Language Service を元のオーバーレイに戻す
+  getTsServices(absProjectRoot, options);
+
+  return organized;
+}
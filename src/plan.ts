@@ -0,0 +1,159 @@
+/**
+ * 編集プラン（FileTextEdits[] と FsMove[]）の解決
+ */
+
+import path from "node:path";
+import { createOffsetResolver, hashText } from "./edits.js";
+import type { FileTextEdits, FsMove, StaleFile, TextEdit } from "./types.js";
+
+/**
+ * 絶対パスに解決した編集プラン
+ */
+export type ResolvedPlan = {
+  moves: Map<string, string>; // 移動元 → 移動先（絶対パス）
+  edits: Map<string, TextEdit[]>; // 移動前のファイルパス（絶対パス）→ 編集
+  contentHashes: Map<string, string[]>; // 移動前のファイルパス（絶対パス）→ プラン作成時のハッシュ
+  createdFiles: Set<string>; // 新規作成するファイル（絶対パス、edits のキーにも含む）
+  removedFiles: string[]; // 移動後に存在しなくなるファイル（絶対パス）
+};
+
+/**
+ * 編集プランのパスを絶対パスにし、編集を移動前のファイルごとにまとめる
+ *
+ * 移動したファイルへの編集は、移動元・移動先どちらのパスで指定してもよい。
+ * 移動先のパスが他のファイルの移動元になっている場合（入れ替え）を除き、
+ * 移動先に既にファイルがあるプランはエラーにする。isNewFile の編集は空の内容に
+ * 対するものとして扱い、既に存在する（移動で作られる場合を含む）ファイルへの
+ * isNewFile の編集はエラーにする。
+ *
+ * @param absProjectRoot プロジェクトルート（絶対パス）
+ * @param edits 編集（ファイルパスは絶対 or projectRoot からの相対）
+ * @param fsMoves ファイル移動（パスは絶対 or projectRoot からの相対）
+ * @param fileExists 適用前のファイルが存在するか
+ * @returns 解決した編集プラン
+ * @throws 編集・移動の対象ファイルが無い、移動先が既に存在する、
+ *   または新規作成するファイルが既に存在する場合
+ */
+export function resolvePlan(
+  absProjectRoot: string,
+  edits: readonly FileTextEdits[],
+  fsMoves: readonly FsMove[],
+  fileExists: (fileName: string) => boolean
+): ResolvedPlan {
+  const moves = new Map(
+    fsMoves.map((move) => [
+      path.resolve(absProjectRoot, move.from),
+      path.resolve(absProjectRoot, move.to),
+    ])
+  );
+  const movedFrom = new Map(
+    Array.from(moves.entries()).map(([from, to]) => [to, from])
+  );
+
+  for (const [from, to] of moves) {
+    if (!fileExists(from)) {
+      throw new Error(`File not found: ${from}`);
+    }
+    if (fileExists(to) && !moves.has(to)) {
+      throw new Error(`Destination already exists: ${to}`);
+    }
+  }
+
+  const editsByFile = new Map<string, TextEdit[]>();
+  const contentHashes = new Map<string, string[]>();
+  const createdFiles = new Set<string>();
+  for (const fileEdits of edits) {
+    const filePath = path.resolve(absProjectRoot, fileEdits.filePath);
+    if (fileEdits.isNewFile) {
+      if (fileExists(filePath) || movedFrom.has(filePath)) {
+        throw new Error(`File already exists: ${filePath}`);
+      }
+      createdFiles.add(filePath);
+    }
+    const sourcePath =
+      fileExists(filePath) || createdFiles.has(filePath)
+        ? filePath
+        : (movedFrom.get(filePath) ?? filePath);
+    if (!fileExists(sourcePath) && !createdFiles.has(sourcePath)) {
+      throw new Error(`File not found: ${filePath}`);
+    }
+    editsByFile.set(sourcePath, [
+      ...(editsByFile.get(sourcePath) ?? []),
+      ...fileEdits.textEdits,
+    ]);
+    if (fileEdits.contentHash !== undefined) {
+      contentHashes.set(sourcePath, [
+        ...(contentHashes.get(sourcePath) ?? []),
+        fileEdits.contentHash,
+      ]);
+    }
+  }
+
+  return {
+    moves,
+    edits: editsByFile,
+    contentHashes,
+    createdFiles,
+    removedFiles: Array.from(moves.keys()).filter(
+      (from) => !movedFrom.has(from)
+    ),
+  };
+}
+
+/**
+ * プラン作成後に内容が変わったファイルを探す
+ *
+ * contentHash があるファイルはハッシュを比べ、一致しない場合は編集範囲の
+ * 確認を省く。contentHash が無い、または一致する場合は oldText のある編集の
+ * 範囲のテキストを比べる。範囲が内容の外にある編集は、適用時に範囲の
+ * エラーとして扱うためここでは無視する。新規作成するファイルは対象にしない。
+ *
+ * @param plan 解決した編集プラン
+ * @param getFileText 現在のファイル内容を返す関数
+ * @returns 変更されたファイル（無ければ空配列）
+ */
+export function findStaleFiles(
+  plan: ResolvedPlan,
+  getFileText: (fileName: string) => string
+): StaleFile[] {
+  const staleFiles: StaleFile[] = [];
+
+  for (const [fileName, textEdits] of plan.edits) {
+    if (plan.createdFiles.has(fileName)) continue;
+    const text = getFileText(fileName);
+    const contentHash = hashText(text);
+    if (
+      (plan.contentHashes.get(fileName) ?? []).some(
+        (expected) => expected !== contentHash
+      )
+    ) {
+      staleFiles.push({
+        kind: "contentHash",
+        filePath: fileName,
+        message: `File has changed since the plan was created: ${fileName}`,
+      });
+      continue;
+    }
+
+    const toOffset = createOffsetResolver(fileName, text);
+    for (const { range, oldText } of textEdits) {
+      if (oldText === undefined) continue;
+      let currentText: string;
+      try {
+        currentText = text.slice(toOffset(range.start), toOffset(range.end));
+      } catch {
+        continue;
+      }
+      if (currentText !== oldText) {
+        staleFiles.push({
+          kind: "oldText",
+          filePath: fileName,
+          range,
+          message: `Expected ${JSON.stringify(oldText)} at ${range.start.line}:${range.start.character} in ${fileName} but found ${JSON.stringify(currentText)}`,
+        });
+      }
+    }
+  }
+
+  return staleFiles;
+}
@@ -0,0 +1,56 @@
+/**
+ * plan* ツールの outputFormat に応じた追加の出力
+ */
+
+import { formatUnifiedDiff } from "./diff.js";
+import { toWorkspaceEdit } from "./workspaceEdit.js";
+import type {
+  FileTextEdits,
+  FsMove,
+  LspWorkspaceEdit,
+  OutputFormat,
+} from "./types.js";
+
+/**
+ * edits / fsMoves に加えて返す出力
+ */
+export type PlanOutput = {
+  diff?: string;
+  workspaceEdit?: LspWorkspaceEdit;
+};
+
+/**
+ * outputFormat に応じて diff または WorkspaceEdit を作る
+ *
+ * @param outputFormat 出力形式（省略時は "json"）
+ * @param absProjectRoot プロジェクトルート（絶対パス）
+ * @param edits 編集
+ * @param fsMoves ファイル移動
+ * @param getFileText 編集前のファイル内容を返す関数（オーバーレイ優先）
+ * @returns 結果に追加するフィールド（"json" の場合は空）
+ */
+export function formatPlanOutput(
+  outputFormat: OutputFormat | undefined,
+  absProjectRoot: string,
+  edits: readonly FileTextEdits[],
+  fsMoves: readonly FsMove[],
+  getFileText: (fileName: string) => string | undefined
+): PlanOutput {
+  switch (outputFormat) {
+    case "unifiedDiff":
+      return {
+        diff: formatUnifiedDiff(absProjectRoot, edits, fsMoves, getFileText),
+      };
+    case "workspaceEdit":
+      return {
+        workspaceEdit: toWorkspaceEdit(
+          absProjectRoot,
+          edits,
+          fsMoves,
+          (fileName) => getFileText(fileName) !== undefined
+        ),
+      };
+    default:
+      return {};
+  }
+}
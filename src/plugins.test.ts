@@ -0,0 +1,299 @@
+/**
+ * Language Service プラグイン読み込みのテスト
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import ts from "typescript";
+import { clearTsServiceCache, createTsService } from "./tsService.js";
+import { planRenameSymbol } from "./tools/planRenameSymbol.js";
+
+/**
+ * node_modules にプラグインパッケージを作成する
+ */
+function writePlugin(projectDir: string, name: string, source: string): void {
+  const packageDir = path.join(projectDir, "node_modules", name);
+  fs.mkdirSync(packageDir, { recursive: true });
+  fs.writeFileSync(
+    path.join(packageDir, "package.json"),
+    JSON.stringify({ name, main: "index.js" })
+  );
+  fs.writeFileSync(path.join(packageDir, "index.js"), source);
+}
+
+describe("Language Service プラグイン", () => {
+  let testProjectDir: string;
+
+  beforeAll(() => {
+    testProjectDir = fs.mkdtempSync(path.join(os.tmpdir(), "ts-plugins-"));
+
+    fs.writeFileSync(
+      path.join(testProjectDir, "tsconfig.json"),
+      JSON.stringify(
+        {
+          compilerOptions: {
+            target: "ES2020",
+            module: "ESNext",
+            strict: true,
+            skipLibCheck: true,
+            plugins: [
+              { name: "block-rename-plugin", message: "Blocked by plugin" },
+              { name: "extra-files-plugin", files: ["extra/extra.ts"] },
+              { name: "missing-plugin" },
+            ],
+          },
+          include: ["src/**/*.ts"],
+        },
+        null,
+        2
+      )
+    );
+
+    // getRenameInfo で "blocked" という名前のリネームを拒否するプラグイン
+    writePlugin(
+      testProjectDir,
+      "block-rename-plugin",
+      `module.exports = function () {
+  return {
+    create(info) {
+      const proxy = Object.create(null);
+      for (const key of Object.keys(info.languageService)) {
+        proxy[key] = (...args) => info.languageService[key](...args);
+      }
+      proxy.getRenameInfo = (fileName, position, preferences) => {
+        const result = info.languageService.getRenameInfo(
+          fileName,
+          position,
+          preferences
+        );
+        if (result.canRename && result.displayName === "blocked") {
+          return { canRename: false, localizedErrorMessage: info.config.message };
+        }
+        return result;
+      };
+      return proxy;
+    },
+  };
+};
+`
+    );
+
+    // include 外のファイルを getExternalFiles で追加するプラグイン
+    writePlugin(
+      testProjectDir,
+      "extra-files-plugin",
+      `const path = require("node:path");
+
+module.exports = function () {
+  let files = [];
+  return {
+    create(info) {
+      files = info.config.files.map((file) =>
+        path.join(info.project.getCurrentDirectory(), file)
+      );
+      return info.languageService;
+    },
+    getExternalFiles() {
+      return files;
+    },
+  };
+};
+`
+    );
+
+    fs.mkdirSync(path.join(testProjectDir, "src"));
+    fs.writeFileSync(
+      path.join(testProjectDir, "src", "a.ts"),
+      `export const blocked = 1;
+export const allowed = 2;
+`
+    );
+
+    fs.mkdirSync(path.join(testProjectDir, "extra"));
+    fs.writeFileSync(
+      path.join(testProjectDir, "extra", "extra.ts"),
+      `import { allowed } from "../src/a";
+
+export const value = allowed;
+`
+    );
+  });
+
+  afterAll(() => {
+    if (testProjectDir && fs.existsSync(testProjectDir)) {
+      fs.rmSync(testProjectDir, { recursive: true, force: true });
+    }
+  });
+
+  beforeEach(() => {
+    clearTsServiceCache();
+  });
+
+  it("プラグインがラップした Language Service でリネーム可否を判定する", () => {
+    const result = planRenameSymbol({
+      projectRoot: testProjectDir,
+      filePath: "src/a.ts",
+      line: 0,
+      character: 13,
+      newName: "renamed",
+    });
+
+    expect(result).toEqual({
+      canRename: false,
+      reason: "Blocked by plugin",
+    });
+  });
+
+  it("disablePlugins: true の場合はプラグインを読み込まない", () => {
+    const result = planRenameSymbol({
+      projectRoot: testProjectDir,
+      filePath: "src/a.ts",
+      line: 0,
+      character: 13,
+      newName: "renamed",
+      disablePlugins: true,
+    });
+
+    expect(result.canRename).toBe(true);
+  });
+
+  it("プラグインが追加したファイルもリネーム対象になる", () => {
+    const result = planRenameSymbol({
+      projectRoot: testProjectDir,
+      filePath: "src/a.ts",
+      line: 1,
+      character: 13,
+      newName: "renamed",
+    });
+
+    expect(result.canRename).toBe(true);
+    if (!result.canRename) return;
+
+    const filePaths = result.edits.map((edit) => edit.filePath).sort();
+    expect(filePaths).toEqual([
+      path.join(testProjectDir, "extra", "extra.ts"),
+      path.join(testProjectDir, "src", "a.ts"),
+    ]);
+  });
+
+  it("disablePlugins: true の場合はプラグインが追加したファイルを含まない", () => {
+    const result = planRenameSymbol({
+      projectRoot: testProjectDir,
+      filePath: "src/a.ts",
+      line: 1,
+      character: 13,
+      newName: "renamed",
+      disablePlugins: true,
+    });
+
+    expect(result.canRename).toBe(true);
+    if (!result.canRename) return;
+
+    expect(result.edits.map((edit) => edit.filePath)).toEqual([
+      path.join(testProjectDir, "src", "a.ts"),
+    ]);
+  });
+
+  it("見つからないプラグインはスキップする（createTsService）", () => {
+    const { service } = createTsService(testProjectDir);
+    const renameInfo = service.getRenameInfo(
+      path.join(testProjectDir, "src", "a.ts"),
+      13
+    );
+
+    expect(renameInfo).toMatchObject({
+      canRename: false,
+      localizedErrorMessage: "Blocked by plugin",
+    });
+  });
+});
+
+describe("Language Service プラグイン - tsconfig の読み直し", () => {
+  let testProjectDir: string;
+
+  const writeTsConfig = (target: string): void => {
+    fs.writeFileSync(
+      path.join(testProjectDir, "tsconfig.json"),
+      JSON.stringify(
+        {
+          compilerOptions: {
+            target,
+            module: "ESNext",
+            strict: true,
+            skipLibCheck: true,
+            plugins: [{ name: "options-plugin" }],
+          },
+          include: ["src/**/*.ts"],
+        },
+        null,
+        2
+      )
+    );
+  };
+
+  beforeAll(() => {
+    testProjectDir = fs.mkdtempSync(
+      path.join(os.tmpdir(), "ts-plugins-reload-")
+    );
+    writeTsConfig("ES2020");
+
+    // Project から見えるコンパイラオプションをリネーム不可の理由として返すプラグイン
+    writePlugin(
+      testProjectDir,
+      "options-plugin",
+      `module.exports = function () {
+  return {
+    create(info) {
+      const proxy = Object.create(null);
+      for (const key of Object.keys(info.languageService)) {
+        proxy[key] = (...args) => info.languageService[key](...args);
+      }
+      proxy.getRenameInfo = () => ({
+        canRename: false,
+        localizedErrorMessage: \`target=\${info.project.getCompilerOptions().target}\`,
+      });
+      return proxy;
+    },
+  };
+};
+`
+    );
+
+    fs.mkdirSync(path.join(testProjectDir, "src"));
+    fs.writeFileSync(
+      path.join(testProjectDir, "src", "a.ts"),
+      "export const value = 1;\n"
+    );
+  });
+
+  afterAll(() => {
+    clearTsServiceCache();
+    if (testProjectDir && fs.existsSync(testProjectDir)) {
+      fs.rmSync(testProjectDir, { recursive: true, force: true });
+    }
+  });
+
+  it("キャッシュ済みの Language Service でも tsconfig 変更後のコンパイラオプションを渡す", () => {
+    const rename = (): ReturnType<typeof planRenameSymbol> =>
+      planRenameSymbol({
+        projectRoot: testProjectDir,
+        filePath: "src/a.ts",
+        line: 0,
+        character: 13,
+        newName: "renamed",
+      });
+
+    expect(rename()).toEqual({
+      canRename: false,
+      reason: `target=${ts.ScriptTarget.ES2020}`,
+    });
+
+    writeTsConfig("ES2022");
+    expect(rename()).toEqual({
+      canRename: false,
+      reason: `target=${ts.ScriptTarget.ES2022}`,
+    });
+  });
+});
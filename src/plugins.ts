@@ -0,0 +1,252 @@
+/**
+ * tsconfig の compilerOptions.plugins に宣言された Language Service プラグインの読み込み
+ * tsserver と同じく PluginModuleFactory を呼び出し、Language Service をラップする
+ */
+
+import type ts from "typescript";
+import path from "node:path";
+import { createRequire } from "node:module";
+import type { TypeScriptModule } from "./typescriptModule.js";
+
+/**
+ * compilerOptions.plugins の1要素
+ */
+type PluginConfig = {
+  name?: string;
+  [key: string]: unknown;
+};
+
+/**
+ * プラグインに渡す tsserver の Project の代わりに使うオブジェクト
+ *
+ * tsserver の外で動かすため、プラグインがよく参照するメンバーだけを持つ。
+ */
+type ProjectShim = {
+  projectService: { logger: Partial<ts.server.Logger> };
+  getProjectName(): string;
+  getCurrentDirectory(): string;
+  getCompilerOptions(): ts.CompilerOptions;
+  getCompilationSettings(): ts.CompilerOptions;
+  getFileNames(): string[];
+  getScriptFileNames(): string[];
+  fileExists(fileName: string): boolean;
+  readFile(fileName: string): string | undefined;
+  readDirectory: ts.LanguageServiceHost["readDirectory"];
+};
+
+/**
+ * プラグインに渡す tsserver の ServerHost の代わりに使うオブジェクト
+ *
+ * ts.sys に、プラグインが参照するファイル監視とタイマーを加えたもの。
+ */
+type ServerHostShim = ts.System &
+  Pick<
+    ts.server.ServerHost,
+    | "watchFile"
+    | "watchDirectory"
+    | "setTimeout"
+    | "clearTimeout"
+    | "setImmediate"
+    | "clearImmediate"
+  >;
+
+/**
+ * PluginModule.create に渡す情報（ts.server.PluginCreateInfo のうち、
+ * このサーバーが用意できるもの）
+ */
+type PluginCreateInfo = {
+  project: ProjectShim;
+  languageService: ts.LanguageService;
+  languageServiceHost: ts.LanguageServiceHost;
+  serverHost: ServerHostShim;
+  config: PluginConfig;
+};
+
+/**
+ * Language Service プラグインのモジュール（ts.server.PluginModule 相当）
+ */
+type PluginModule = {
+  create(createInfo: PluginCreateInfo): ts.LanguageService;
+  getExternalFiles?(project: ProjectShim, updateLevel: number): string[];
+};
+
+/**
+ * プラグインパッケージが export するファクトリ（ts.server.PluginModuleFactory 相当）
+ */
+type PluginModuleFactory = (mod: {
+  typescript: TypeScriptModule;
+}) => PluginModule;
+
+/**
+ * 読み込み済みのプラグイン
+ */
+export type LoadedPlugin = {
+  name: string;
+  module: PluginModule;
+  project: ProjectShim; // getExternalFiles に渡す Project 相当のオブジェクト
+};
+
+/**
+ * compilerOptions.plugins を読み込み、Language Service に適用する
+ *
+ * プラグインは tsconfig のディレクトリ、次に projectRoot から Node.js の
+ * モジュール解決で探す。読み込みや生成に失敗したプラグインはスキップする。
+ *
+ * @param tsModule 使用している TypeScript モジュール
+ * @param service ラップ対象の Language Service
+ * @param host Language Service の LanguageServiceHost
+ * @param parsedConfig パース済みの tsconfig
+ * @param configPath tsconfig のパス
+ * @param projectRoot プロジェクトルート（絶対パス）
+ * @returns プラグイン適用後の Language Service と読み込んだプラグイン
+ */
+export function applyLanguageServicePlugins(
+  tsModule: TypeScriptModule,
+  service: ts.LanguageService,
+  host: ts.LanguageServiceHost,
+  parsedConfig: ts.ParsedCommandLine,
+  configPath: string,
+  projectRoot: string
+): { service: ts.LanguageService; plugins: LoadedPlugin[] } {
+  const pluginConfigs = (parsedConfig.options.plugins ?? []) as PluginConfig[];
+  const plugins: LoadedPlugin[] = [];
+  const project = createProjectShim(host, configPath);
+  const serverHost = createServerHost(tsModule);
+
+  let wrapped = service;
+  for (const config of pluginConfigs) {
+    if (typeof config.name !== "string" || config.name === "") continue;
+
+    try {
+      const factory = requirePlugin(config.name, [
+        path.dirname(configPath),
+        projectRoot,
+      ]);
+      const pluginModule = factory({ typescript: tsModule });
+      wrapped = pluginModule.create({
+        project,
+        languageService: wrapped,
+        languageServiceHost: host,
+        serverHost,
+        config,
+      });
+      plugins.push({ name: config.name, module: pluginModule, project });
+    } catch (error) {
+      console.error(
+        `Failed to load language service plugin ${config.name}:`,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+
+  return { service: wrapped, plugins };
+}
+
+/**
+ * プラグインが追加で扱うファイル（.vue など）を列挙する
+ *
+ * @param plugins 読み込んだプラグイン
+ * @returns 追加ファイル（絶対パス）
+ */
+export function getPluginExternalFiles(plugins: LoadedPlugin[]): string[] {
+  return plugins.flatMap(({ name, module, project }) => {
+    try {
+      return module.getExternalFiles?.(project, 0) ?? [];
+    } catch (error) {
+      console.error(
+        `Failed to get external files from plugin ${name}:`,
+        error instanceof Error ? error.message : String(error)
+      );
+      return [];
+    }
+  });
+}
+
+/**
+ * 指定ディレクトリから順にプラグインを解決して読み込む
+ *
+ * @param name プラグインのパッケージ名
+ * @param searchDirs 探索するディレクトリ
+ * @returns プラグインのファクトリ関数
+ * @throws どのディレクトリからも解決できない場合
+ */
+function requirePlugin(
+  name: string,
+  searchDirs: string[]
+): PluginModuleFactory {
+  for (const dir of searchDirs) {
+    const pluginRequire = createRequire(path.join(dir, "package.json"));
+    let resolved: string;
+    try {
+      resolved = pluginRequire.resolve(name);
+    } catch {
+      continue;
+    }
+
+    const loaded = pluginRequire(resolved) as
+      | PluginModuleFactory
+      | { default: PluginModuleFactory };
+    return typeof loaded === "function" ? loaded : loaded.default;
+  }
+
+  throw new Error(`Cannot find module ${name}`);
+}
+
+/**
+ * プラグインに渡す tsserver の Project 相当のオブジェクトを作る
+ *
+ * コンパイラオプションやファイル一覧はホストから都度読むため、キャッシュ済みの
+ * Language Service で tsconfig を読み直した後も最新の内容を返す。
+ *
+ * @param host Language Service の LanguageServiceHost
+ * @param configPath tsconfig のパス
+ * @returns Project 相当のオブジェクト
+ */
+function createProjectShim(
+  host: ts.LanguageServiceHost,
+  configPath: string
+): ProjectShim {
+  const noop = (): void => {};
+  const logger: Partial<ts.server.Logger> = {
+    close: noop,
+    hasLevel: () => false,
+    loggingEnabled: () => false,
+    perftrc: noop,
+    info: noop,
+    startGroup: noop,
+    endGroup: noop,
+    msg: noop,
+    getLogFileName: () => undefined,
+  };
+
+  return {
+    projectService: { logger },
+    getProjectName: () => configPath,
+    getCurrentDirectory: () => host.getCurrentDirectory(),
+    getCompilerOptions: () => host.getCompilationSettings(),
+    getCompilationSettings: () => host.getCompilationSettings(),
+    getFileNames: () => host.getScriptFileNames(),
+    getScriptFileNames: () => host.getScriptFileNames(),
+    fileExists: (fileName: string) => host.fileExists(fileName),
+    readFile: (fileName: string) => host.readFile(fileName),
+    readDirectory: host.readDirectory,
+  };
+}
+
+/**
+ * プラグインに渡す ServerHost を作る
+ *
+ * @param tsModule 使用している TypeScript モジュール
+ * @returns ServerHost
+ */
+function createServerHost(tsModule: TypeScriptModule): ServerHostShim {
+  return {
+    ...tsModule.sys,
+    watchFile: () => ({ close: (): void => {} }),
+    watchDirectory: () => ({ close: (): void => {} }),
+    setTimeout,
+    clearTimeout,
+    setImmediate,
+    clearImmediate,
+  };
+}
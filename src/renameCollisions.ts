@@ -0,0 +1,427 @@
+/**
+ * リネーム後の名前の衝突・シャドーイングの検出
+ * 各リネーム箇所のスコープとメンバーに newName が既に存在しないかを型チェッカーで調べる
+ */
+
+import type ts from "typescript";
+import type { TypeScriptModule } from "./typescriptModule.js";
+import type { NameCollision, Range } from "./types.js";
+
+/**
+ * リネーム箇所ごとに、newName と衝突する既存の宣言を探す
+ *
+ * - duplicate: 同じスコープに newName が既に宣言されている
+ * - capture: リネーム後の参照が別の宣言に解決される（内側の宣言に捕捉される、
+ *   または外側の変数への既存の参照がリネームした宣言に捕捉される）
+ * - member: 同じ型に newName というメンバーが既に存在する
+ * - export: 同じモジュールから newName が既にエクスポートされている
+ * - shadow: 外側の同名の宣言を隠すが、既存の参照は変わらない（警告）
+ *
+ * @param tsModule Program を生成した TypeScript（ノードの判定に使う）
+ * @param program 対象ファイルを含む Program
+ * @param locations リネーム箇所（文字列・コメント内の箇所は無視する）
+ * @param newName 新しい名前
+ * @returns 検出した衝突（宣言ごとに1件）
+ */
+export function findNameCollisions(
+  tsModule: TypeScriptModule,
+  program: ts.Program,
+  locations: readonly ts.RenameLocation[],
+  newName: string
+): NameCollision[] {
+  const checker = program.getTypeChecker();
+  const collisions = new Map<string, NameCollision>();
+  // 外側の宣言への参照を調べ終えたスコープ → シンボル
+  const checkedScopes = new Map<ts.Node, Set<ts.Symbol>>();
+
+  const add = (
+    kind: NameCollision["kind"],
+    node: ts.Node,
+    message: string
+  ): void => {
+    const sourceFile = node.getSourceFile();
+    const key = `${sourceFile.fileName}:${node.getStart(sourceFile)}`;
+    if (collisions.has(key)) return;
+    collisions.set(key, {
+      kind,
+      filePath: sourceFile.fileName,
+      range: toRange(sourceFile, node),
+      message,
+    });
+  };
+
+  for (const location of locations) {
+    const sourceFile = program.getSourceFile(location.fileName);
+    if (!sourceFile) continue;
+
+    const node = findIdentifierAt(
+      tsModule,
+      sourceFile,
+      location.textSpan.start
+    );
+    if (!node) continue;
+
+    const symbol = getSymbolAt(tsModule, checker, node);
+    if (!symbol || symbol.name === newName) continue;
+    const resolved = resolveAlias(tsModule, checker, symbol);
+
+    // メンバー名の場合は、同じ型に newName のメンバーが無いかを調べる
+    const ownerType = getMemberOwnerType(tsModule, checker, node);
+    if (ownerType) {
+      const existing = checker.getPropertyOfType(ownerType, newName);
+      const declaration = existing?.declarations?.[0];
+      if (existing && resolveAlias(tsModule, checker, existing) !== resolved) {
+        add(
+          "member",
+          getDeclarationName(tsModule, declaration) ?? node,
+          `${newName} is already a member of ${checker.typeToString(ownerType)}`
+        );
+      }
+      continue;
+    }
+
+    // スコープ内の同名の宣言（import を含む）との関係を調べる
+    const scope = getDeclarationScope(
+      tsModule,
+      symbol.declarations?.[0] ?? node.parent
+    );
+    const visible = checker
+      .getSymbolsInScope(
+        node,
+        tsModule.SymbolFlags.Value |
+          tsModule.SymbolFlags.Type |
+          tsModule.SymbolFlags.Namespace |
+          tsModule.SymbolFlags.Alias
+      )
+      .filter(
+        (candidate) =>
+          candidate.name === newName &&
+          resolveAlias(tsModule, checker, candidate) !== resolved
+      );
+
+    for (const existing of visible) {
+      const declaration = existing.declarations?.[0];
+      const declarationName = getDeclarationName(tsModule, declaration);
+      const existingScope = declaration
+        ? getDeclarationScope(tsModule, declaration)
+        : undefined;
+
+      if (declaration && existingScope === scope) {
+        add(
+          "duplicate",
+          declarationName ?? declaration,
+          `${newName} is already declared in the same scope`
+        );
+      } else if (
+        declaration &&
+        declaration.getSourceFile() === scope.getSourceFile() &&
+        declaration.pos >= scope.pos &&
+        declaration.end <= scope.end
+      ) {
+        add(
+          "capture",
+          declarationName ?? declaration,
+          `References to the renamed symbol would resolve to this ${newName}`
+        );
+      } else {
+        // 外側の宣言: リネーム後のスコープ内に既存の参照があれば捕捉される
+        const checkedSymbols = checkedScopes.get(scope) ?? new Set();
+        if (checkedSymbols.has(existing)) continue;
+        checkedScopes.set(scope, checkedSymbols.add(existing));
+
+        const captured = findReferenceInScope(
+          tsModule,
+          checker,
+          scope,
+          newName,
+          existing
+        );
+        if (captured) {
+          add(
+            "capture",
+            captured,
+            `This reference to the outer ${newName} would resolve to the renamed symbol`
+          );
+        } else if (declaration) {
+          add(
+            "shadow",
+            declarationName ?? declaration,
+            `The renamed symbol would shadow this ${newName}`
+          );
+        }
+      }
+    }
+
+    // エクスポート名が既に使われていないか
+    if (isExportedFromFile(checker, sourceFile, symbol)) {
+      const moduleSymbol = checker.getSymbolAtLocation(sourceFile);
+      const existing = moduleSymbol
+        ? checker
+            .getExportsOfModule(moduleSymbol)
+            .find((exported) => exported.name === newName)
+        : undefined;
+      if (existing && resolveAlias(tsModule, checker, existing) !== resolved) {
+        add(
+          "export",
+          getDeclarationName(tsModule, existing.declarations?.[0]) ?? node,
+          `${newName} is already exported from ${sourceFile.fileName}`
+        );
+      }
+    }
+  }
+
+  return Array.from(collisions.values());
+}
+
+/**
+ * 指定位置を含む識別子を探す
+ *
+ * @param tsModule Program を生成した TypeScript
+ * @param sourceFile 対象ファイル
+ * @param position 位置
+ * @returns 識別子（文字列・コメント内などで見つからない場合は undefined）
+ */
+function findIdentifierAt(
+  tsModule: TypeScriptModule,
+  sourceFile: ts.SourceFile,
+  position: number
+): ts.Identifier | ts.PrivateIdentifier | undefined {
+  const visit = (
+    node: ts.Node
+  ): ts.Identifier | ts.PrivateIdentifier | undefined => {
+    if (position < node.getStart(sourceFile) || position >= node.getEnd()) {
+      return undefined;
+    }
+    if (tsModule.isIdentifier(node) || tsModule.isPrivateIdentifier(node)) {
+      return node;
+    }
+    return tsModule.forEachChild(node, visit);
+  };
+  return tsModule.forEachChild(sourceFile, visit);
+}
+
+/**
+ * 識別子が参照するシンボルを返す（短縮プロパティは値のシンボル）
+ *
+ * @param tsModule Program を生成した TypeScript
+ * @param checker 型チェッカー
+ * @param node 識別子
+ * @returns シンボル
+ */
+function getSymbolAt(
+  tsModule: TypeScriptModule,
+  checker: ts.TypeChecker,
+  node: ts.Node
+): ts.Symbol | undefined {
+  if (tsModule.isShorthandPropertyAssignment(node.parent)) {
+    return checker.getShorthandAssignmentValueSymbol(node.parent);
+  }
+  return checker.getSymbolAtLocation(node);
+}
+
+/**
+ * エイリアス（import など）を解決し、ローカルのエクスポートシンボルを揃える
+ *
+ * @param tsModule Program を生成した TypeScript
+ * @param checker 型チェッカー
+ * @param symbol 対象のシンボル
+ * @returns 比較用のシンボル
+ */
+function resolveAlias(
+  tsModule: TypeScriptModule,
+  checker: ts.TypeChecker,
+  symbol: ts.Symbol
+): ts.Symbol {
+  const aliased =
+    symbol.flags & tsModule.SymbolFlags.Alias
+      ? checker.getAliasedSymbol(symbol)
+      : symbol;
+  return checker.getExportSymbolOfSymbol(aliased);
+}
+
+/**
+ * メンバー名の位置であれば、そのメンバーを持つ型を返す
+ *
+ * @param tsModule Program を生成した TypeScript
+ * @param checker 型チェッカー
+ * @param node 識別子
+ * @returns メンバーを持つ型（メンバー名でなければ undefined）
+ */
+function getMemberOwnerType(
+  tsModule: TypeScriptModule,
+  checker: ts.TypeChecker,
+  node: ts.Node
+): ts.Type | undefined {
+  const parent = node.parent;
+
+  if (tsModule.isPropertyAccessExpression(parent) && parent.name === node) {
+    return checker.getTypeAtLocation(parent.expression);
+  }
+
+  const isMemberDeclaration =
+    (tsModule.isPropertyDeclaration(parent) ||
+      tsModule.isMethodDeclaration(parent) ||
+      tsModule.isPropertySignature(parent) ||
+      tsModule.isMethodSignature(parent) ||
+      tsModule.isGetAccessorDeclaration(parent) ||
+      tsModule.isSetAccessorDeclaration(parent) ||
+      tsModule.isPropertyAssignment(parent) ||
+      tsModule.isEnumMember(parent)) &&
+    parent.name === node;
+  if (!isMemberDeclaration) return undefined;
+
+  const container = parent.parent;
+  const isStatic =
+    tsModule.canHaveModifiers(parent) &&
+    (tsModule.getModifiers(parent) ?? []).some(
+      (modifier) => modifier.kind === tsModule.SyntaxKind.StaticKeyword
+    );
+  if (tsModule.isClassLike(container) && isStatic && container.name) {
+    const classSymbol = checker.getSymbolAtLocation(container.name);
+    return classSymbol
+      ? checker.getTypeOfSymbolAtLocation(classSymbol, container)
+      : undefined;
+  }
+  if (tsModule.isEnumDeclaration(container)) {
+    const enumSymbol = checker.getSymbolAtLocation(container.name);
+    return enumSymbol
+      ? checker.getTypeOfSymbolAtLocation(enumSymbol, container)
+      : undefined;
+  }
+  return checker.getTypeAtLocation(container);
+}
+
+/**
+ * シンボルがファイルのモジュールからエクスポートされているか
+ *
+ * @param checker 型チェッカー
+ * @param sourceFile 対象ファイル
+ * @param symbol 対象のシンボル
+ * @returns エクスポートされていれば true
+ */
+function isExportedFromFile(
+  checker: ts.TypeChecker,
+  sourceFile: ts.SourceFile,
+  symbol: ts.Symbol
+): boolean {
+  const moduleSymbol = checker.getSymbolAtLocation(sourceFile);
+  if (!moduleSymbol) return false;
+
+  const target = checker.getExportSymbolOfSymbol(symbol);
+  return checker
+    .getExportsOfModule(moduleSymbol)
+    .some((exported) => exported === target || exported === symbol);
+}
+
+/**
+ * 宣言が属するスコープ（ブロック・関数・ファイルなど）を返す
+ *
+ * var と関数の引数は関数スコープ、それ以外はブロックスコープとして扱う。
+ *
+ * @param tsModule Program を生成した TypeScript
+ * @param declaration 宣言ノード
+ * @returns スコープを表すノード
+ */
+function getDeclarationScope(
+  tsModule: TypeScriptModule,
+  declaration: ts.Node
+): ts.Node {
+  const isFunctionScoped =
+    tsModule.isParameter(declaration) ||
+    (tsModule.isVariableDeclaration(declaration) &&
+      tsModule.isVariableDeclarationList(declaration.parent) &&
+      (declaration.parent.flags & tsModule.NodeFlags.BlockScoped) === 0);
+
+  for (let node = declaration.parent; node; node = node.parent) {
+    if (
+      tsModule.isSourceFile(node) ||
+      tsModule.isModuleBlock(node) ||
+      tsModule.isFunctionLike(node) ||
+      tsModule.isClassLike(node)
+    ) {
+      return node;
+    }
+    if (isFunctionScoped) continue;
+
+    if (tsModule.isBlock(node)) {
+      // 関数本体のブロックは引数と同じスコープ
+      return tsModule.isFunctionLike(node.parent) ? node.parent : node;
+    }
+    if (
+      tsModule.isCaseBlock(node) ||
+      tsModule.isCatchClause(node) ||
+      tsModule.isForStatement(node) ||
+      tsModule.isForInStatement(node) ||
+      tsModule.isForOfStatement(node)
+    ) {
+      return node;
+    }
+  }
+  return declaration.getSourceFile();
+}
+
+/**
+ * スコープ内で、指定したシンボルを参照している識別子を探す
+ *
+ * @param tsModule Program を生成した TypeScript
+ * @param checker 型チェッカー
+ * @param scope 探索するスコープ
+ * @param name 識別子の名前
+ * @param symbol 参照先のシンボル
+ * @returns 最初に見つかった参照（無ければ undefined）
+ */
+function findReferenceInScope(
+  tsModule: TypeScriptModule,
+  checker: ts.TypeChecker,
+  scope: ts.Node,
+  name: string,
+  symbol: ts.Symbol
+): ts.Node | undefined {
+  const target = resolveAlias(tsModule, checker, symbol);
+  const visit = (node: ts.Node): ts.Node | undefined => {
+    if (tsModule.isIdentifier(node) && node.text === name) {
+      const referenced = getSymbolAt(tsModule, checker, node);
+      if (
+        referenced &&
+        resolveAlias(tsModule, checker, referenced) === target
+      ) {
+        return node;
+      }
+    }
+    return tsModule.forEachChild(node, visit);
+  };
+  return tsModule.forEachChild(scope, visit);
+}
+
+/**
+ * 宣言の名前ノードを返す
+ *
+ * @param tsModule Program を生成した TypeScript
+ * @param declaration 宣言ノード
+ * @returns 名前ノード（無ければ undefined）
+ */
+function getDeclarationName(
+  tsModule: TypeScriptModule,
+  declaration: ts.Declaration | undefined
+): ts.Node | undefined {
+  return declaration ? tsModule.getNameOfDeclaration(declaration) : undefined;
+}
+
+/**
+ * ノードの範囲を Range に変換する
+ *
+ * @param sourceFile ノードを含むファイル
+ * @param node 対象ノード
+ * @returns Range
+ */
+function toRange(sourceFile: ts.SourceFile, node: ts.Node): Range {
+  const start = sourceFile.getLineAndCharacterOfPosition(
+    node.getStart(sourceFile)
+  );
+  const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd());
+
+  return {
+    start: { line: start.line, character: start.character },
+    end: { line: end.line, character: end.character },
+  };
+}
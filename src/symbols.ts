@@ -0,0 +1,121 @@
+/**
+ * 名前によるシンボル宣言の検索
+ * ファイルのナビゲーションツリーから宣言を探し、位置を解決する
+ */
+
+import ts from "typescript";
+import type { TypeScriptModule } from "./typescriptModule.js";
+import type { Range, SymbolCandidate } from "./types.js";
+
+/**
+ * ファイル内で名前（とコンテナ名）に一致するシンボル宣言を探す
+ *
+ * symbolName に "UserService.fetchUser" のようなドット区切りの名前を渡した場合、
+ * 最後の要素をシンボル名、それより前をコンテナ名として扱う。
+ * コンテナ名は直近のコンテナ名、またはファイル直下からのドット区切りのパスと比較する。
+ * オーバーロードや宣言マージはナビゲーションツリー上で1つにまとまるため、
+ * 1つの候補として返す。
+ *
+ * @param service 対象ファイルを含む Language Service
+ * @param sourceFile 対象ファイル（位置の変換に使う）
+ * @param symbolName シンボル名
+ * @param containerName コンテナ名（クラス・名前空間など）
+ * @returns 一致したシンボル宣言（宣言位置の順）
+ */
+export function findSymbolCandidates(
+  service: ts.LanguageService,
+  sourceFile: ts.SourceFile,
+  symbolName: string,
+  containerName?: string
+): SymbolCandidate[] {
+  let name = symbolName;
+  let container = containerName;
+  if (container === undefined && symbolName.includes(".")) {
+    const separator = symbolName.lastIndexOf(".");
+    name = symbolName.slice(separator + 1);
+    container = symbolName.slice(0, separator);
+  }
+
+  const matches: { start: number; candidate: SymbolCandidate }[] = [];
+
+  const visit = (item: ts.NavigationTree, containers: string[]): void => {
+    if (
+      item.text === name &&
+      item.nameSpan &&
+      (container === undefined ||
+        containers.at(-1) === container ||
+        containers.join(".") === container)
+    ) {
+      matches.push({
+        start: item.nameSpan.start,
+        candidate: {
+          name: item.text,
+          kind: item.kind,
+          containerName:
+            containers.length > 0 ? containers.join(".") : undefined,
+          range: toRange(sourceFile, item.nameSpan),
+        },
+      });
+    }
+
+    for (const child of item.childItems ?? []) {
+      visit(child, [...containers, item.text]);
+    }
+  };
+
+  // ルート（ファイル自体）はコンテナに含めない
+  const root = service.getNavigationTree(sourceFile.fileName);
+  for (const child of root.childItems ?? []) {
+    visit(child, []);
+  }
+
+  return matches
+    .sort((a, b) => a.start - b.start)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * TextSpan を Range に変換する
+ *
+ * @param sourceFile 対象ファイル
+ * @param span 変換する TextSpan
+ * @returns Range
+ */
+export function toRange(sourceFile: ts.SourceFile, span: ts.TextSpan): Range {
+  const start = ts.getLineAndCharacterOfPosition(sourceFile, span.start);
+  const end = ts.getLineAndCharacterOfPosition(
+    sourceFile,
+    span.start + span.length
+  );
+
+  return {
+    start: { line: start.line, character: start.character },
+    end: { line: end.line, character: end.character },
+  };
+}
+
+/**
+ * 位置を含む最も内側のノードを探す
+ *
+ * Program のノードを辿る場合は、その Program を生成した TypeScript を渡す
+ * （SyntaxKind の値はバージョンによって異なるため）。
+ *
+ * @param sourceFile 対象ファイル
+ * @param pos 位置
+ * @param tsModule sourceFile を生成した TypeScript（省略時は同梱版）
+ * @returns 位置を含む最も内側のノード（無ければ sourceFile）
+ */
+export function findNodeAt(
+  sourceFile: ts.SourceFile,
+  pos: number,
+  tsModule: TypeScriptModule = ts
+): ts.Node {
+  let node: ts.Node = sourceFile;
+  for (;;) {
+    const child = tsModule.forEachChild(node, (child) =>
+      child.getStart(sourceFile) <= pos && pos < child.end ? child : undefined
+    );
+    if (!child) return node;
+    node = child;
+  }
+}
@@ -0,0 +1,258 @@
+/**
+ * applyPlan のテスト
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { applyPlan } from "./applyPlan.js";
+import { planRenameSymbol } from "./planRenameSymbol.js";
+import { planFileMove } from "./planFileMove.js";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+
+describe("applyPlan", () => {
+  let testProjectDir: string;
+
+  const userText = `export function getUser(id: string) {
+  return { id };
+}
+`;
+  const mainText = `import { getUser } from "./user";
+
+export const user = getUser("a");
+`;
+
+  // 書き込みを伴うため、テストごとにプロジェクトを作り直す
+  beforeEach(() => {
+    testProjectDir = fs.mkdtempSync(
+      path.join(os.tmpdir(), "ts-apply-plan-test-")
+    );
+
+    fs.writeFileSync(
+      path.join(testProjectDir, "tsconfig.json"),
+      JSON.stringify(
+        {
+          compilerOptions: {
+            target: "ES2020",
+            module: "ESNext",
+            moduleResolution: "bundler",
+            strict: true,
+            skipLibCheck: true,
+          },
+          include: ["src/**/*.ts"],
+        },
+        null,
+        2
+      )
+    );
+
+    fs.mkdirSync(path.join(testProjectDir, "src"));
+    fs.writeFileSync(path.join(testProjectDir, "src", "user.ts"), userText);
+    fs.writeFileSync(path.join(testProjectDir, "src", "main.ts"), mainText);
+  });
+
+  afterEach(() => {
+    if (testProjectDir && fs.existsSync(testProjectDir)) {
+      fs.rmSync(testProjectDir, { recursive: true, force: true });
+    }
+  });
+
+  const srcPath = (fileName: string): string =>
+    path.join(testProjectDir, "src", fileName);
+  const read = (fileName: string): string =>
+    fs.readFileSync(srcPath(fileName), "utf8");
+
+  it("planRenameSymbol のプランを書き込む", () => {
+    const plan = planRenameSymbol({
+      projectRoot: testProjectDir,
+      filePath: "src/user.ts",
+      symbolName: "getUser",
+      newName: "fetchUser",
+    });
+    expect(plan.canRename).toBe(true);
+    if (!plan.canRename) return;
+
+    const result = applyPlan({
+      projectRoot: testProjectDir,
+      edits: plan.edits,
+    });
+
+    expect(result).toEqual({
+      applied: true,
+      writtenFiles: expect.arrayContaining([
+        srcPath("user.ts"),
+        srcPath("main.ts"),
+      ]),
+      removedFiles: [],
+    });
+    expect(read("user.ts")).toBe(userText.replace("getUser", "fetchUser"));
+    expect(read("main.ts")).toBe(mainText.replaceAll("getUser", "fetchUser"));
+  });
+
+  it("planFileMove のプランでファイルを移動し import を更新する", () => {
+    const plan = planFileMove({
+      projectRoot: testProjectDir,
+      oldPath: "src/user.ts",
+      newPath: "src/lib/user.ts",
+    });
+
+    const result = applyPlan({
+      projectRoot: testProjectDir,
+      edits: plan.edits,
+      fsMoves: plan.fsMoves,
+    });
+
+    expect(result.applied).toBe(true);
+    expect(result.removedFiles).toEqual([srcPath("user.ts")]);
+    expect(fs.existsSync(srcPath("user.ts"))).toBe(false);
+    expect(read("lib/user.ts")).toBe(userText);
+    expect(read("main.ts")).toContain(`from "./lib/user"`);
+  });
+
+  it("dryRun では検証だけ行い書き込まない", () => {
+    const result = applyPlan({
+      projectRoot: testProjectDir,
+      edits: [
+        {
+          filePath: "src/main.ts",
+          textEdits: [
+            {
+              range: {
+                start: { line: 2, character: 13 },
+                end: { line: 2, character: 17 },
+              },
+              newText: "account",
+            },
+          ],
+        },
+      ],
+      fsMoves: [{ from: "src/user.ts", to: "src/lib/user.ts" }],
+      dryRun: true,
+    });
+
+    expect(result).toEqual({
+      applied: false,
+      writtenFiles: [srcPath("main.ts"), srcPath("lib/user.ts")],
+      removedFiles: [srcPath("user.ts")],
+    });
+    expect(read("main.ts")).toBe(mainText);
+    expect(read("user.ts")).toBe(userText);
+    expect(fs.existsSync(srcPath("lib"))).toBe(false);
+  });
+
+  it("不正な編集を含むプランは何も書き込まずにエラーを投げる", () => {
+    expect(() =>
+      applyPlan({
+        projectRoot: testProjectDir,
+        edits: [
+          {
+            filePath: "src/main.ts",
+            textEdits: [
+              {
+                range: {
+                  start: { line: 2, character: 13 },
+                  end: { line: 2, character: 17 },
+                },
+                newText: "account",
+              },
+            ],
+          },
+          {
+            filePath: "src/user.ts",
+            textEdits: [
+              {
+                range: {
+                  start: { line: 10, character: 0 },
+                  end: { line: 10, character: 1 },
+                },
+                newText: "x",
+              },
+            ],
+          },
+        ],
+      })
+    ).toThrow(/out of bounds/);
+
+    expect(read("main.ts")).toBe(mainText);
+  });
+
+  it("書き込みの途中で失敗した場合はすべて元に戻す", () => {
+    // main.ts と new/user.ts を書き込んだ後、ファイルの下に移動しようとして失敗する
+    fs.writeFileSync(srcPath("extra.ts"), `export const extra = 1;\n`);
+    expect(() =>
+      applyPlan({
+        projectRoot: testProjectDir,
+        edits: [
+          {
+            filePath: "src/main.ts",
+            textEdits: [
+              {
+                range: {
+                  start: { line: 2, character: 13 },
+                  end: { line: 2, character: 17 },
+                },
+                newText: "account",
+              },
+            ],
+          },
+        ],
+        fsMoves: [
+          { from: "src/user.ts", to: "src/new/user.ts" },
+          { from: "src/extra.ts", to: "src/main.ts/extra.ts" },
+        ],
+      })
+    ).toThrow(/rolled back/);
+
+    expect(read("main.ts")).toBe(mainText);
+    expect(read("user.ts")).toBe(userText);
+    expect(fs.existsSync(srcPath("new"))).toBe(false);
+    expect(fs.readdirSync(path.join(testProjectDir, "src")).sort()).toEqual([
+      "extra.ts",
+      "main.ts",
+      "user.ts",
+    ]);
+  });
+
+  it("プラン作成後にファイルが変更された場合は何も書き込まずにエラーを投げる", () => {
+    const plan = planRenameSymbol({
+      projectRoot: testProjectDir,
+      filePath: "src/user.ts",
+      symbolName: "getUser",
+      newName: "fetchUser",
+    });
+    expect(plan.canRename).toBe(true);
+    if (!plan.canRename) return;
+
+    const changedMainText = `// edited after planning\n${mainText}`;
+    fs.writeFileSync(srcPath("main.ts"), changedMainText);
+
+    expect(() =>
+      applyPlan({
+        projectRoot: testProjectDir,
+        edits: plan.edits,
+        dryRun: true,
+      })
+    ).toThrow(/Plan is stale/);
+    expect(() =>
+      applyPlan({
+        projectRoot: testProjectDir,
+        edits: plan.edits,
+      })
+    ).toThrow(/Plan is stale/);
+
+    expect(read("user.ts")).toBe(userText);
+    expect(read("main.ts")).toBe(changedMainText);
+  });
+
+  it("移動先に別のファイルがある場合はエラーを投げる", () => {
+    expect(() =>
+      applyPlan({
+        projectRoot: testProjectDir,
+        edits: [],
+        fsMoves: [{ from: "src/user.ts", to: "src/main.ts" }],
+      })
+    ).toThrow(/Destination already exists/);
+
+    expect(read("user.ts")).toBe(userText);
+  });
+});
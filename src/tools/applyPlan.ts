@@ -0,0 +1,198 @@
+/**
+ * applyPlan ツールの実装
+ * 編集プランの編集とファイル移動をまとめてディスクに書き込む
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { applyTextEdits } from "../edits.js";
+import { findStaleFiles, resolvePlan } from "../plan.js";
+import type { ApplyPlanParams, ApplyPlanResult } from "../types.js";
+
+/**
+ * 書き込み前のファイルの状態（ロールバック用）
+ */
+type JournalEntry = {
+  filePath: string; // 絶対パス
+  backupPath?: string; // 元の内容を退避したファイル（元々存在しなかった場合は無し）
+  mode?: number; // 元のファイルのパーミッション
+};
+
+/**
+ * 編集プランをディスクに書き込む
+ *
+ * 書き込む前にすべての編集後の内容をメモリ上で計算し、範囲の不正や
+ * 重なり・対象ファイルの欠落があれば何も書き込まずにエラーにする。
+ * プランの contentHash / oldText が現在の内容と一致しないファイル
+ * （プラン作成後に変更されたファイル）がある場合も同様にエラーにする。
+ * 書き込みの前に、変更・削除するファイルを一時ディレクトリに退避し、
+ * 途中で失敗した場合はすべてのファイルを元に戻す。
+ *
+ * @param params 適用する編集・移動
+ * @returns 書き込んだファイルと削除したファイル
+ * @throws 検証に失敗した場合、プラン作成後にファイルが変更された場合、
+ *   または書き込みに失敗した場合（ロールバック後）
+ */
+export function applyPlan(params: ApplyPlanParams): ApplyPlanResult {
+  // 1. 移動・編集の対象を解決（移動先が既に存在する場合などはここでエラー）
+  const absProjectRoot = path.resolve(params.projectRoot);
+  const plan = resolvePlan(
+    absProjectRoot,
+    params.edits,
+    params.fsMoves ?? [],
+    (fileName) => fs.existsSync(fileName) && fs.statSync(fileName).isFile()
+  );
+  const { moves, edits, createdFiles, removedFiles } = plan;
+
+  // 2. プラン作成後に変更されたファイルがあれば何も書き込まない
+  const staleFiles = findStaleFiles(plan, (fileName) =>
+    fs.readFileSync(fileName, "utf8")
+  );
+  if (staleFiles.length > 0) {
+    throw new Error(
+      `Plan is stale, no files were written: ${staleFiles
+        .map(({ message }) => message)
+        .join("; ")}`
+    );
+  }
+
+  // 3. 書き込む内容をメモリ上で計算（移動だけのファイルはバイト列のまま扱い、
+  //    新規作成するファイルは空の内容に編集を適用する）
+  const contents = new Map<string, { data: Buffer; mode?: number }>();
+  for (const [fileName, textEdits] of edits) {
+    const isNewFile = createdFiles.has(fileName);
+    const text = applyTextEdits(
+      fileName,
+      isNewFile ? "" : fs.readFileSync(fileName, "utf8"),
+      textEdits
+    );
+    contents.set(moves.get(fileName) ?? fileName, {
+      data: Buffer.from(text, "utf8"),
+      mode: isNewFile ? undefined : fs.statSync(fileName).mode,
+    });
+  }
+  for (const [from, to] of moves) {
+    if (contents.has(to)) continue;
+    contents.set(to, {
+      data: fs.readFileSync(from),
+      mode: fs.statSync(from).mode,
+    });
+  }
+
+  const result: ApplyPlanResult = {
+    applied: false,
+    writtenFiles: Array.from(contents.keys()),
+    removedFiles,
+  };
+  if (params.dryRun) {
+    return result;
+  }
+
+  // 4. 変更・削除するファイルを退避してから書き込む
+  const backupDir = fs.mkdtempSync(
+    path.join(os.tmpdir(), "ts-rename-helper-backup-")
+  );
+  const journal: JournalEntry[] = [];
+  const createdDirs: string[] = [];
+
+  try {
+    for (const filePath of [...contents.keys(), ...removedFiles]) {
+      journal.push(backupFile(backupDir, journal.length, filePath));
+    }
+
+    for (const [filePath, { data, mode }] of contents) {
+      makeParentDirs(filePath, createdDirs);
+      fs.writeFileSync(filePath, data, { mode });
+    }
+    for (const filePath of removedFiles) {
+      fs.rmSync(filePath);
+    }
+  } catch (error) {
+    // 5. 失敗した場合は退避した内容に戻す
+    const message = error instanceof Error ? error.message : String(error);
+    try {
+      rollback(journal, createdDirs);
+    } catch (rollbackError) {
+      // 元に戻せなかった場合は退避先を残して手動で復元できるようにする
+      throw new Error(
+        `Failed to apply plan (${message}) and to roll back (${
+          rollbackError instanceof Error
+            ? rollbackError.message
+            : String(rollbackError)
+        }); original files are kept in ${backupDir}`
+      );
+    }
+    fs.rmSync(backupDir, { recursive: true, force: true });
+    throw new Error(
+      `Failed to apply plan, all changes were rolled back: ${message}`
+    );
+  }
+
+  // 6. すべて書き込めたら退避先を削除
+  fs.rmSync(backupDir, { recursive: true, force: true });
+  return { ...result, applied: true };
+}
+
+/**
+ * ファイルの現在の内容を退避する
+ *
+ * @param backupDir 退避先のディレクトリ
+ * @param index 退避するファイルの通し番号
+ * @param filePath 退避するファイル（絶対パス）
+ * @returns ロールバック用の記録
+ */
+function backupFile(
+  backupDir: string,
+  index: number,
+  filePath: string
+): JournalEntry {
+  if (!fs.existsSync(filePath)) {
+    return { filePath };
+  }
+  const backupPath = path.join(backupDir, String(index));
+  fs.copyFileSync(filePath, backupPath);
+  return { filePath, backupPath, mode: fs.statSync(filePath).mode };
+}
+
+/**
+ * 親ディレクトリを作成する
+ *
+ * @param filePath 書き込むファイル（絶対パス）
+ * @param createdDirs 作成したディレクトリを作成順に追加する配列
+ */
+function makeParentDirs(filePath: string, createdDirs: string[]): void {
+  const dirs: string[] = [];
+  for (
+    let dir = path.dirname(filePath);
+    !fs.existsSync(dir);
+    dir = path.dirname(dir)
+  ) {
+    dirs.unshift(dir);
+  }
+  for (const dir of dirs) {
+    fs.mkdirSync(dir);
+    createdDirs.push(dir);
+  }
+}
+
+/**
+ * 退避した内容にファイルを戻し、作成したディレクトリを削除する
+ *
+ * @param journal 書き込み前のファイルの状態
+ * @param createdDirs 作成したディレクトリ（作成順）
+ */
+function rollback(journal: JournalEntry[], createdDirs: string[]): void {
+  for (const { filePath, backupPath, mode } of journal) {
+    if (backupPath === undefined) {
+      // 書き込めなかったファイルは存在しない（親がファイルの場合も含む）
+      if (fs.existsSync(filePath)) fs.rmSync(filePath);
+    } else {
+      fs.copyFileSync(backupPath, filePath);
+      fs.chmodSync(filePath, mode!);
+    }
+  }
+  for (const dir of [...createdDirs].reverse()) {
+    fs.rmdirSync(dir);
+  }
+}
@@ -0,0 +1,246 @@
+/**
+ * findReferences のテスト
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { findReferences } from "./findReferences.js";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import type { ReferenceLocation } from "../types.js";
+
+describe("findReferences", () => {
+  let testProjectDir: string;
+
+  beforeAll(() => {
+    testProjectDir = fs.mkdtempSync(
+      path.join(os.tmpdir(), "find-references-test-")
+    );
+
+    fs.writeFileSync(
+      path.join(testProjectDir, "tsconfig.json"),
+      JSON.stringify(
+        {
+          compilerOptions: {
+            target: "ES2020",
+            module: "ESNext",
+            moduleResolution: "node",
+            strict: true,
+            skipLibCheck: true,
+          },
+          include: ["src/**/*.ts"],
+        },
+        null,
+        2
+      )
+    );
+
+    fs.mkdirSync(path.join(testProjectDir, "src"));
+    fs.writeFileSync(
+      path.join(testProjectDir, "src", "user.ts"),
+      `export type User = { id: string };
+
+export let count = 0;
+
+export function getUser(id: string): User {
+  count++;
+  return { id };
+}
+export { getUser as fetchUser };
+export default getUser;
+`
+    );
+    fs.writeFileSync(
+      path.join(testProjectDir, "src", "main.ts"),
+      `import { getUser, count, type User } from "./user";
+import type { User as Alias } from "./user";
+
+const u: User = getUser("a");
+let c = count;
+type Getter = typeof getUser;
+class Impl implements Alias {
+  id = "x";
+}
+export const values = [u, c, Impl] as const;
+export const long = [${Array.from({ length: 40 }, () => "1").join(", ")}, getUser("b"), ${Array.from({ length: 40 }, () => "2").join(", ")}];
+`
+    );
+  });
+
+  afterAll(() => {
+    fs.rmSync(testProjectDir, { recursive: true, force: true });
+  });
+
+  const locations = (
+    references: ReferenceLocation[]
+  ): { file: string; line: number; preview: string }[] =>
+    references.map(({ filePath, range, preview }) => ({
+      file: path.relative(testProjectDir, filePath),
+      line: range.start.line,
+      preview,
+    }));
+
+  it("関数の参照を宣言・import・export・型・読み取りに分ける", () => {
+    const result = findReferences({
+      projectRoot: testProjectDir,
+      filePath: "src/user.ts",
+      symbolName: "getUser",
+    });
+
+    expect(result.found).toBe(true);
+    if (!result.found) return;
+    expect(result.symbol).toEqual({
+      name: "getUser",
+      kind: "function",
+      display: "function getUser(id: string): User",
+    });
+    expect(locations(result.references.definition)).toEqual([
+      {
+        file: "src/user.ts",
+        line: 4,
+        preview: "export function getUser(id: string): User {",
+      },
+    ]);
+    expect(locations(result.references.import)).toEqual([
+      {
+        file: "src/main.ts",
+        line: 0,
+        preview: `import { getUser, count, type User } from "./user";`,
+      },
+    ]);
+    expect(locations(result.references.export)).toEqual([
+      {
+        file: "src/user.ts",
+        line: 8,
+        preview: "export { getUser as fetchUser };",
+      },
+      {
+        file: "src/user.ts",
+        line: 8,
+        preview: "export { getUser as fetchUser };",
+      },
+      { file: "src/user.ts", line: 9, preview: "export default getUser;" },
+    ]);
+    expect(locations(result.references.typeOnly)).toEqual([
+      {
+        file: "src/main.ts",
+        line: 5,
+        preview: "type Getter = typeof getUser;",
+      },
+    ]);
+    expect(
+      locations(result.references.read).map(({ file, line }) => [file, line])
+    ).toEqual([
+      ["src/main.ts", 3],
+      ["src/main.ts", 10],
+    ]);
+    expect(result.references.write).toEqual([]);
+  });
+
+  it("Range は参照している名前を指す", () => {
+    const result = findReferences({
+      projectRoot: testProjectDir,
+      filePath: "src/user.ts",
+      line: 4,
+      character: 18,
+    });
+
+    expect(result.found).toBe(true);
+    if (!result.found) return;
+    expect(result.references.read[0]).toMatchObject({
+      filePath: path.join(testProjectDir, "src/main.ts"),
+      range: {
+        start: { line: 3, character: 16 },
+        end: { line: 3, character: 23 },
+      },
+    });
+  });
+
+  it("長い行の preview は参照の周辺だけにする", () => {
+    const result = findReferences({
+      projectRoot: testProjectDir,
+      filePath: "src/user.ts",
+      symbolName: "getUser",
+    });
+
+    expect(result.found).toBe(true);
+    if (!result.found) return;
+    const { preview } = result.references.read[1];
+    expect(preview.length).toBeLessThanOrEqual(122);
+    expect(preview).toMatch(/^….*getUser\("b"\).*…$/);
+  });
+
+  it("書き込みと読み取りを分ける", () => {
+    const result = findReferences({
+      projectRoot: testProjectDir,
+      filePath: "src/user.ts",
+      symbolName: "count",
+    });
+
+    expect(result.found).toBe(true);
+    if (!result.found) return;
+    expect(locations(result.references.definition)).toHaveLength(1);
+    expect(locations(result.references.write)).toEqual([
+      { file: "src/user.ts", line: 5, preview: "count++;" },
+    ]);
+    expect(locations(result.references.read)).toEqual([
+      { file: "src/main.ts", line: 4, preview: "let c = count;" },
+    ]);
+  });
+
+  it("型の参照は typeOnly、implements も型として扱う", () => {
+    const result = findReferences({
+      projectRoot: testProjectDir,
+      filePath: "src/user.ts",
+      symbolName: "User",
+    });
+
+    expect(result.found).toBe(true);
+    if (!result.found) return;
+    expect(
+      locations(result.references.typeOnly).map(({ file, line }) => [
+        file,
+        line,
+      ])
+    ).toEqual([
+      ["src/main.ts", 3],
+      ["src/main.ts", 6],
+      ["src/user.ts", 4],
+    ]);
+    // import type { User as Alias } は User と Alias の両方
+    expect(locations(result.references.import).map(({ line }) => line)).toEqual(
+      [0, 1, 1]
+    );
+    expect(result.references.read).toEqual([]);
+  });
+
+  it("シンボルの無い位置や名前の指定漏れは found: false を返す", () => {
+    expect(
+      findReferences({
+        projectRoot: testProjectDir,
+        filePath: "src/user.ts",
+        line: 1,
+        character: 0,
+      })
+    ).toMatchObject({ found: false });
+    expect(
+      findReferences({
+        projectRoot: testProjectDir,
+        filePath: "src/user.ts",
+      })
+    ).toMatchObject({
+      found: false,
+      reason: "Either line and character, or symbolName is required",
+    });
+    expect(
+      findReferences({
+        projectRoot: testProjectDir,
+        filePath: "src/user.ts",
+        symbolName: "missing",
+      })
+    ).toMatchObject({
+      found: false,
+      reason: expect.stringContaining("Symbol not found"),
+    });
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * findReferences ツールの実装
+ * シンボルの参照箇所を種類ごとにまとめて返す
+ */
+
+import ts from "typescript";
+import path from "node:path";
+import { getTsServicesForFile, type TsService } from "../tsService.js";
+import { findNodeAt, findSymbolCandidates } from "../symbols.js";
+import type {
+  FindReferencesParams,
+  FindReferencesResult,
+  ReferenceKind,
+  ReferenceLocation,
+} from "../types.js";
+
+/**
+ * preview に含める最大の文字数
+ */
+const MAX_PREVIEW_LENGTH = 120;
+
+/**
+ * シンボルの参照箇所を探す
+ *
+ * 対象ファイルを含む各プロジェクトで findReferences() を呼び、import した
+ * 別名や export { x as y } の別名を含むすべての参照を重複を除いてまとめる。
+ * 各参照は import / export 文の中か、宣言か、型の位置か、書き込みかの順に
+ * 調べて1つの種類に分類する。
+ *
+ * @param params 対象シンボルの指定
+ * @returns 種類ごとの参照箇所
+ */
+export function findReferences(
+  params: FindReferencesParams
+): FindReferencesResult {
+  // 1. projectRoot・filePath を絶対パスに正規化
+  const absProjectRoot = path.resolve(params.projectRoot);
+  const absFilePath = path.resolve(absProjectRoot, params.filePath);
+
+  // 2. 対象ファイルを所有する tsconfig を解決し、キャッシュ済みの service を取得
+  let tsServices: TsService[];
+  let tsconfigPath: string;
+  try {
+    ({ tsServices, configPath: tsconfigPath } = getTsServicesForFile(
+      absProjectRoot,
+      absFilePath,
+      {
+        overlays: params.overlays,
+        tsconfigPath: params.tsconfigPath,
+        typescriptPath: params.typescriptPath,
+        disablePlugins: params.disablePlugins,
+      }
+    ));
+  } catch (error) {
+    return {
+      found: false,
+      reason:
+        error instanceof Error ? error.message : "Failed to create TS service",
+    };
+  }
+
+  // 3. ファイル内容を読み込み（オーバーレイ優先）、対象ファイルを含むプロジェクトを選ぶ
+  const { getFileText, typescriptVersion } = tsServices[0];
+  const fileText = getFileText(absFilePath);
+  if (fileText === undefined) {
+    return { found: false, reason: `File not found: ${absFilePath}` };
+  }
+  const sourceFiles = new Map<string, ts.SourceFile>();
+  const getSourceFile = (fileName: string): ts.SourceFile | undefined => {
+    if (!sourceFiles.has(fileName)) {
+      const text = getFileText(fileName);
+      if (text === undefined) return undefined;
+      sourceFiles.set(
+        fileName,
+        ts.createSourceFile(fileName, text, ts.ScriptTarget.Latest, true)
+      );
+    }
+    return sourceFiles.get(fileName);
+  };
+  const sourceFile = getSourceFile(absFilePath)!;
+  const owners = tsServices.filter(
+    ({ service }) =>
+      service.getProgram()?.getSourceFile(absFilePath) !== undefined
+  );
+  const primary = owners[0] ?? tsServices[0];
+
+  // 4. symbolName で宣言を探すか、line / character から位置を計算
+  let pos: number;
+  if (params.symbolName !== undefined) {
+    const candidates = findSymbolCandidates(
+      primary.service,
+      sourceFile,
+      params.symbolName,
+      params.containerName
+    );
+    if (candidates.length === 0) {
+      return {
+        found: false,
+        reason: `Symbol not found: ${params.symbolName} in ${absFilePath}`,
+      };
+    }
+    if (candidates.length > 1) {
+      return {
+        found: false,
+        reason: `Multiple symbols named ${params.symbolName} found in ${absFilePath}; specify containerName or line/character`,
+        candidates,
+      };
+    }
+    const { start } = candidates[0].range;
+    pos = ts.getPositionOfLineAndCharacter(
+      sourceFile,
+      start.line,
+      start.character
+    );
+  } else if (params.line !== undefined && params.character !== undefined) {
+    pos = ts.getPositionOfLineAndCharacter(
+      sourceFile,
+      params.line,
+      params.character
+    );
+  } else {
+    return {
+      found: false,
+      reason: "Either line and character, or symbolName is required",
+    };
+  }
+
+  // 5. 各プロジェクトで findReferences() を呼ぶ
+  const referencedSymbols = (owners.length > 0 ? owners : [primary]).flatMap(
+    ({ service }) => service.findReferences(absFilePath, pos) ?? []
+  );
+  if (referencedSymbols.length === 0) {
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(pos);
+    return {
+      found: false,
+      reason: `No symbol at ${absFilePath}:${line + 1}:${character + 1}`,
+    };
+  }
+
+  // 6. 参照を重複を除いて分類し、Range と preview を付ける
+  const references: Record<ReferenceKind, ReferenceLocation[]> = {
+    definition: [],
+    read: [],
+    write: [],
+    import: [],
+    export: [],
+    typeOnly: [],
+  };
+  const seen = new Set<string>();
+  for (const entry of referencedSymbols.flatMap(
+    ({ references }) => references
+  )) {
+    const key = `${entry.fileName}:${entry.textSpan.start}:${entry.textSpan.length}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const entrySourceFile = getSourceFile(entry.fileName);
+    if (!entrySourceFile) continue;
+    const start = entry.textSpan.start;
+    const end = start + entry.textSpan.length;
+    references[getReferenceKind(entrySourceFile, entry)].push({
+      filePath: entry.fileName,
+      range: {
+        start: ts.getLineAndCharacterOfPosition(entrySourceFile, start),
+        end: ts.getLineAndCharacterOfPosition(entrySourceFile, end),
+      },
+      preview: getPreview(entrySourceFile, start, end),
+    });
+  }
+
+  // 7. 種類ごとにファイル・位置順に並べる
+  for (const locations of Object.values(references)) {
+    locations.sort(
+      (a, b) =>
+        a.filePath.localeCompare(b.filePath) ||
+        a.range.start.line - b.range.start.line ||
+        a.range.start.character - b.range.start.character
+    );
+  }
+
+  // 8. 最初の ReferencedSymbol（対象そのもの）の宣言をシンボルの情報にする
+  const { definition } = referencedSymbols[0];
+  const definitionText = getSourceFile(definition.fileName)?.text.slice(
+    definition.textSpan.start,
+    definition.textSpan.start + definition.textSpan.length
+  );
+  return {
+    found: true,
+    symbol: {
+      name: definitionText ?? definition.name,
+      kind: definition.kind,
+      display: ts.displayPartsToString(definition.displayParts),
+    },
+    references,
+    tsconfigPath,
+    typescriptVersion,
+  };
+}
+
+/**
+ * 参照の種類を決める
+ *
+ * import / export 文の中の参照は宣言や書き込みとしても報告されるため、
+ * 先に文の種類で分類する。
+ *
+ * @param sourceFile 参照を含むファイル
+ * @param entry findReferences() の参照
+ * @returns 参照の種類
+ */
+function getReferenceKind(
+  sourceFile: ts.SourceFile,
+  entry: ts.ReferencedSymbolEntry
+): ReferenceKind {
+  const node = findNodeAt(sourceFile, entry.textSpan.start);
+
+  // 1. import / export 文の中の参照
+  for (let current = node.parent; current; current = current.parent) {
+    if (
+      ts.isImportDeclaration(current) ||
+      ts.isImportEqualsDeclaration(current)
+    ) {
+      return "import";
+    }
+    if (ts.isExportDeclaration(current)) {
+      return "export";
+    }
+  }
+  if (ts.isExportAssignment(node.parent)) {
+    return "export";
+  }
+
+  // 2. 宣言
+  if (entry.isDefinition) {
+    return "definition";
+  }
+
+  // 3. 型の位置での参照（A.B のような修飾名は全体の位置で判断する）
+  let outer: ts.Node = node;
+  while (
+    ts.isQualifiedName(outer.parent) ||
+    ts.isPropertyAccessExpression(outer.parent)
+  ) {
+    outer = outer.parent;
+  }
+  if (isTypePosition(outer)) {
+    return "typeOnly";
+  }
+
+  // 4. 書き込みと読み取り
+  return entry.isWriteAccess ? "write" : "read";
+}
+
+/**
+ * 型としてだけ使われる位置か
+ *
+ * @param node 参照している名前（修飾名の場合は全体）
+ * @returns 型注釈・typeof・implements などの中の場合は true
+ */
+function isTypePosition(node: ts.Node): boolean {
+  const parent = node.parent;
+  if (ts.isExpressionWithTypeArguments(parent)) {
+    // class の extends は値として使うため、implements と interface の extends だけ
+    const clause = parent.parent;
+    return (
+      ts.isHeritageClause(clause) &&
+      (clause.token === ts.SyntaxKind.ImplementsKeyword ||
+        ts.isInterfaceDeclaration(clause.parent))
+    );
+  }
+  return ts.isTypeNode(parent);
+}
+
+/**
+ * 参照を含む行の preview を作る
+ *
+ * @param sourceFile 参照を含むファイル
+ * @param start 参照の開始位置
+ * @param end 参照の終了位置
+ * @returns 前後の空白を除いた行（長い行は参照の周辺だけを "…" で挟む）
+ */
+function getPreview(
+  sourceFile: ts.SourceFile,
+  start: number,
+  end: number
+): string {
+  const { line } = ts.getLineAndCharacterOfPosition(sourceFile, start);
+  const lineStarts = sourceFile.getLineStarts();
+  const lineStart = lineStarts[line];
+  const lineEnd =
+    line + 1 < lineStarts.length
+      ? lineStarts[line + 1]
+      : sourceFile.text.length;
+  const lineText = sourceFile.text.slice(lineStart, lineEnd).trim();
+  if (lineText.length <= MAX_PREVIEW_LENGTH) return lineText;
+
+  // 参照が中央付近に来るように切り出す
+  const text = sourceFile.text.slice(lineStart, lineEnd).trimEnd();
+  const center = Math.floor((start + Math.min(end, lineEnd)) / 2) - lineStart;
+  const from = Math.max(
+    0,
+    Math.min(center - MAX_PREVIEW_LENGTH / 2, text.length - MAX_PREVIEW_LENGTH)
+  );
+  const to = from + MAX_PREVIEW_LENGTH;
+  return `${from > 0 ? "…" : ""}${text.slice(from, to).trim()}${
+    to < text.length ? "…" : ""
+  }`;
+}
@@ -0,0 +1,262 @@
+/**
+ * getDefinition のテスト
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { getDefinition } from "./getDefinition.js";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { createRequire } from "node:module";
+
+// 同梱版と SyntaxKind などの値が異なる TypeScript
+const typescript49Path = createRequire(import.meta.url).resolve(
+  "typescript-4.9"
+);
+
+describe("getDefinition", () => {
+  let testProjectDir: string;
+
+  beforeAll(() => {
+    testProjectDir = fs.mkdtempSync(
+      path.join(os.tmpdir(), "get-definition-test-")
+    );
+
+    fs.writeFileSync(
+      path.join(testProjectDir, "tsconfig.json"),
+      JSON.stringify(
+        {
+          compilerOptions: {
+            target: "ES2020",
+            module: "ESNext",
+            moduleResolution: "node",
+            strict: true,
+            skipLibCheck: true,
+          },
+          include: ["src/**/*.ts"],
+        },
+        null,
+        2
+      )
+    );
+
+    const files: Record<string, string> = {
+      "src/lib/service.ts": `export class Service {
+  run(): void {}
+}
+export type Options = { verbose: boolean };
+`,
+      "src/lib/bee.ts": `export function b(): number {
+  return 1;
+}
+`,
+      // バレルファイル
+      "src/lib/index.ts": `export * from "./service";
+export { b as bee } from "./bee";
+`,
+      "src/env.d.ts": `declare module "virtual:config" {
+  export const config: { debug: boolean };
+}
+`,
+      "src/main.ts": `import { Service, bee } from "./lib";
+import * as lib from "./lib";
+import { config } from "virtual:config";
+
+const service = new Service();
+service.run();
+bee();
+lib.bee();
+export const debug = config.debug;
+`,
+    };
+    for (const [fileName, text] of Object.entries(files)) {
+      fs.mkdirSync(path.dirname(path.join(testProjectDir, fileName)), {
+        recursive: true,
+      });
+      fs.writeFileSync(path.join(testProjectDir, fileName), text);
+    }
+  });
+
+  afterAll(() => {
+    fs.rmSync(testProjectDir, { recursive: true, force: true });
+  });
+
+  it("バレルファイルの export * をたどって元の宣言を返す", () => {
+    const result = getDefinition({
+      projectRoot: testProjectDir,
+      filePath: "src/main.ts",
+      line: 4,
+      character: 22,
+    });
+
+    expect(result).toMatchObject({
+      found: true,
+      definitions: [
+        {
+          filePath: path.join(testProjectDir, "src/lib/service.ts"),
+          range: {
+            start: { line: 0, character: 13 },
+            end: { line: 0, character: 20 },
+          },
+          declarationRange: {
+            start: { line: 0, character: 0 },
+            end: { line: 2, character: 1 },
+          },
+          name: "Service",
+          kind: "class",
+          moduleName: "src/lib/service.ts",
+          isExternal: false,
+        },
+      ],
+    });
+    if (!result.found) return;
+    expect(result.definitions[0].containerName).toBeUndefined();
+  });
+
+  it("別名を付けた re-export をたどる", () => {
+    const result = getDefinition({
+      projectRoot: testProjectDir,
+      filePath: "src/main.ts",
+      line: 6,
+      character: 0,
+    });
+
+    expect(result).toMatchObject({
+      found: true,
+      definitions: [
+        { name: "b", kind: "function", moduleName: "src/lib/bee.ts" },
+      ],
+    });
+  });
+
+  it("名前空間 import のメンバーと名前空間そのものをたどる", () => {
+    const member = getDefinition({
+      projectRoot: testProjectDir,
+      filePath: "src/main.ts",
+      line: 7,
+      character: 4,
+    });
+    expect(member).toMatchObject({
+      found: true,
+      definitions: [{ name: "b", moduleName: "src/lib/bee.ts" }],
+    });
+
+    const namespace = getDefinition({
+      projectRoot: testProjectDir,
+      filePath: "src/main.ts",
+      line: 7,
+      character: 0,
+    });
+    expect(namespace).toMatchObject({
+      found: true,
+      definitions: [{ kind: "module", moduleName: "src/lib/index.ts" }],
+    });
+  });
+
+  it("メソッドはコンテナ名を付け、値の型の宣言も返す", () => {
+    const method = getDefinition({
+      projectRoot: testProjectDir,
+      filePath: "src/main.ts",
+      line: 5,
+      character: 8,
+    });
+    expect(method).toMatchObject({
+      found: true,
+      definitions: [{ name: "run", kind: "method", containerName: "Service" }],
+    });
+
+    const variable = getDefinition({
+      projectRoot: testProjectDir,
+      filePath: "src/main.ts",
+      line: 5,
+      character: 0,
+    });
+    expect(variable).toMatchObject({
+      found: true,
+      definitions: [{ name: "service", kind: "const" }],
+      typeDefinitions: [{ name: "Service", kind: "class" }],
+    });
+  });
+
+  it("declare module の中の宣言はモジュール名を返す", () => {
+    const result = getDefinition({
+      projectRoot: testProjectDir,
+      filePath: "src/main.ts",
+      line: 8,
+      character: 21,
+    });
+
+    expect(result).toMatchObject({
+      found: true,
+      definitions: [
+        {
+          filePath: path.join(testProjectDir, "src/env.d.ts"),
+          name: "config",
+          moduleName: "virtual:config",
+        },
+      ],
+    });
+  });
+
+  it("同梱版と異なるバージョンの TypeScript でも別名と declare module をたどる", () => {
+    const member = getDefinition({
+      projectRoot: testProjectDir,
+      filePath: "src/main.ts",
+      line: 7,
+      character: 4,
+      typescriptPath: typescript49Path,
+    });
+    expect(member).toMatchObject({
+      found: true,
+      definitions: [{ name: "b", moduleName: "src/lib/bee.ts" }],
+    });
+
+    const namespace = getDefinition({
+      projectRoot: testProjectDir,
+      filePath: "src/main.ts",
+      line: 7,
+      character: 0,
+      typescriptPath: typescript49Path,
+    });
+    expect(namespace).toMatchObject({
+      found: true,
+      definitions: [{ kind: "module", moduleName: "src/lib/index.ts" }],
+    });
+
+    const declared = getDefinition({
+      projectRoot: testProjectDir,
+      filePath: "src/main.ts",
+      line: 8,
+      character: 21,
+      typescriptPath: typescript49Path,
+    });
+    expect(declared).toMatchObject({
+      found: true,
+      definitions: [{ name: "config", moduleName: "virtual:config" }],
+    });
+  });
+
+  it("symbolName で宣言を指定できる", () => {
+    const result = getDefinition({
+      projectRoot: testProjectDir,
+      filePath: "src/lib/service.ts",
+      symbolName: "Service.run",
+    });
+
+    expect(result).toMatchObject({
+      found: true,
+      definitions: [{ name: "run", containerName: "Service" }],
+    });
+  });
+
+  it("宣言の無い位置では found: false を返す", () => {
+    expect(
+      getDefinition({
+        projectRoot: testProjectDir,
+        filePath: "src/main.ts",
+        line: 3,
+        character: 0,
+      })
+    ).toMatchObject({ found: false });
+  });
+});
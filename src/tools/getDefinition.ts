@@ -0,0 +1,328 @@
+/**
+ * getDefinition ツールの実装
+ * シンボルの元の宣言と型の宣言を返す
+ */
+
+import ts from "typescript";
+import path from "node:path";
+import { getTsServicesForFile, type TsService } from "../tsService.js";
+import { findNodeAt, findSymbolCandidates, toRange } from "../symbols.js";
+import type { TypeScriptModule } from "../typescriptModule.js";
+import type {
+  GetDefinitionParams,
+  GetDefinitionResult,
+  DefinitionLocation,
+} from "../types.js";
+
+/**
+ * シンボルの宣言を探す
+ *
+ * Language Service の定義ジャンプで、import や export * / export { x } from の
+ * re-export をたどった元の宣言と、値の型の宣言を返す。Language Service が
+ * 別名（import * as ns など）のまま返した宣言は、型チェッカーで別名の
+ * 参照先をたどって置き換える。
+ *
+ * @param params 対象シンボルの指定
+ * @returns 宣言と型の宣言
+ */
+export function getDefinition(
+  params: GetDefinitionParams
+): GetDefinitionResult {
+  // 1. projectRoot・filePath を絶対パスに正規化
+  const absProjectRoot = path.resolve(params.projectRoot);
+  const absFilePath = path.resolve(absProjectRoot, params.filePath);
+
+  // 2. 対象ファイルを所有する tsconfig を解決し、キャッシュ済みの service を取得
+  let tsServices: TsService[];
+  let tsconfigPath: string;
+  try {
+    ({ tsServices, configPath: tsconfigPath } = getTsServicesForFile(
+      absProjectRoot,
+      absFilePath,
+      {
+        overlays: params.overlays,
+        tsconfigPath: params.tsconfigPath,
+        typescriptPath: params.typescriptPath,
+        disablePlugins: params.disablePlugins,
+      }
+    ));
+  } catch (error) {
+    return {
+      found: false,
+      reason:
+        error instanceof Error ? error.message : "Failed to create TS service",
+    };
+  }
+
+  // 3. ファイル内容を読み込み（オーバーレイ優先）、対象ファイルを含むプロジェクトを選ぶ
+  const { getFileText, typescriptVersion } = tsServices[0];
+  const fileText = getFileText(absFilePath);
+  if (fileText === undefined) {
+    return { found: false, reason: `File not found: ${absFilePath}` };
+  }
+  const sourceFile = ts.createSourceFile(
+    absFilePath,
+    fileText,
+    ts.ScriptTarget.Latest,
+    true
+  );
+  const owners = tsServices.filter(
+    ({ service }) =>
+      service.getProgram()?.getSourceFile(absFilePath) !== undefined
+  );
+  const primary = owners[0] ?? tsServices[0];
+
+  // 4. symbolName で宣言を探すか、line / character から位置を計算
+  let pos: number;
+  if (params.symbolName !== undefined) {
+    const candidates = findSymbolCandidates(
+      primary.service,
+      sourceFile,
+      params.symbolName,
+      params.containerName
+    );
+    if (candidates.length === 0) {
+      return {
+        found: false,
+        reason: `Symbol not found: ${params.symbolName} in ${absFilePath}`,
+      };
+    }
+    if (candidates.length > 1) {
+      return {
+        found: false,
+        reason: `Multiple symbols named ${params.symbolName} found in ${absFilePath}; specify containerName or line/character`,
+        candidates,
+      };
+    }
+    const { start } = candidates[0].range;
+    pos = ts.getPositionOfLineAndCharacter(
+      sourceFile,
+      start.line,
+      start.character
+    );
+  } else if (params.line !== undefined && params.character !== undefined) {
+    pos = ts.getPositionOfLineAndCharacter(
+      sourceFile,
+      params.line,
+      params.character
+    );
+  } else {
+    return {
+      found: false,
+      reason: "Either line and character, or symbolName is required",
+    };
+  }
+
+  // 5. 各プロジェクトで宣言・型の宣言を求め、重複を除く（宣言は別名をたどる）
+  const collect = (
+    getInfos: (
+      service: ts.LanguageService,
+      program: ts.Program,
+      tsModule: TypeScriptModule
+    ) => readonly ts.DefinitionInfo[]
+  ): DefinitionLocation[] => {
+    const seen = new Set<string>();
+    return (owners.length > 0 ? owners : [primary]).flatMap(
+      ({ service, tsModule }) => {
+        const program = service.getProgram();
+        if (!program) return [];
+
+        return getInfos(service, program, tsModule).flatMap((info) => {
+          const key = `${info.fileName}:${info.textSpan.start}:${info.textSpan.length}`;
+          if (seen.has(key)) return [];
+          seen.add(key);
+          const location = toDefinitionLocation(
+            tsModule,
+            absProjectRoot,
+            program,
+            info
+          );
+          return location ? [location] : [];
+        });
+      }
+    );
+  };
+  const definitions = collect((service, program, tsModule) =>
+    resolveAliases(
+      tsModule,
+      service,
+      program,
+      service.getDefinitionAndBoundSpan(absFilePath, pos)?.definitions ?? []
+    )
+  );
+  const typeDefinitions = collect(
+    (service) => service.getTypeDefinitionAtPosition(absFilePath, pos) ?? []
+  );
+
+  if (definitions.length === 0) {
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(pos);
+    return {
+      found: false,
+      reason: `No definition found at ${absFilePath}:${line + 1}:${character + 1}`,
+    };
+  }
+
+  return {
+    found: true,
+    definitions,
+    typeDefinitions,
+    tsconfigPath,
+    typescriptVersion,
+  };
+}
+
+/**
+ * 別名（alias）の宣言を、参照先の宣言に置き換える
+ *
+ * import * as ns の ns のように、定義ジャンプが import 文の別名で止まる
+ * 場合に使う。参照先がモジュールの場合はファイル全体を宣言として扱い、
+ * それ以外は参照先の宣言名の位置で定義ジャンプをやり直す。
+ *
+ * @param tsModule program を生成した TypeScript
+ * @param service 対象の Language Service
+ * @param program service のプログラム
+ * @param infos 定義ジャンプの結果
+ * @returns 別名を置き換えた結果（たどれない別名はそのまま）
+ */
+function resolveAliases(
+  tsModule: TypeScriptModule,
+  service: ts.LanguageService,
+  program: ts.Program,
+  infos: readonly ts.DefinitionInfo[]
+): ts.DefinitionInfo[] {
+  const checker = program.getTypeChecker();
+
+  return infos.flatMap((info) => {
+    if (info.kind !== ts.ScriptElementKind.alias) return [info];
+    const sourceFile = program.getSourceFile(info.fileName);
+    if (!sourceFile) return [info];
+
+    // 1. 別名の参照先のシンボルを求める
+    const symbol = checker.getSymbolAtLocation(
+      findNodeAt(sourceFile, info.textSpan.start, tsModule)
+    );
+    if (!symbol || !(symbol.flags & tsModule.SymbolFlags.Alias)) return [info];
+    const declarations = checker.getAliasedSymbol(symbol).declarations ?? [];
+    if (declarations.length === 0) return [info];
+
+    // 2. 参照先の宣言ごとに定義を求める
+    return declarations.flatMap((declaration): ts.DefinitionInfo[] => {
+      const declarationFile = declaration.getSourceFile();
+      if (tsModule.isSourceFile(declaration)) {
+        return [
+          {
+            fileName: declarationFile.fileName,
+            textSpan: { start: 0, length: 0 },
+            kind: ts.ScriptElementKind.moduleElement,
+            name: declarationFile.fileName,
+            containerKind: ts.ScriptElementKind.unknown,
+            containerName: "",
+          },
+        ];
+      }
+      const name = tsModule.getNameOfDeclaration(declaration) ?? declaration;
+      return (
+        service
+          .getDefinitionAndBoundSpan(
+            declarationFile.fileName,
+            name.getStart(declarationFile)
+          )
+          ?.definitions?.filter(
+            ({ kind }) => kind !== ts.ScriptElementKind.alias
+          ) ?? []
+      );
+    });
+  });
+}
+
+/**
+ * DefinitionInfo を DefinitionLocation に変換する
+ *
+ * @param tsModule program を生成した TypeScript
+ * @param absProjectRoot プロジェクトルート（絶対パス）
+ * @param program 宣言を含むプログラム
+ * @param info 定義ジャンプの結果
+ * @returns 宣言の位置（ファイルがプログラムに無い場合は undefined）
+ */
+function toDefinitionLocation(
+  tsModule: TypeScriptModule,
+  absProjectRoot: string,
+  program: ts.Program,
+  info: ts.DefinitionInfo
+): DefinitionLocation | undefined {
+  const sourceFile = program.getSourceFile(info.fileName);
+  if (!sourceFile) return undefined;
+
+  const isExternal =
+    program.isSourceFileDefaultLibrary(sourceFile) ||
+    program.isSourceFileFromExternalLibrary(sourceFile) ||
+    info.fileName.split(/[\\/]/).includes("node_modules");
+
+  return {
+    filePath: info.fileName,
+    range: toRange(sourceFile, info.textSpan),
+    ...(info.contextSpan
+      ? { declarationRange: toRange(sourceFile, info.contextSpan) }
+      : {}),
+    name: info.name,
+    kind: info.kind,
+    // モジュール直下の宣言では containerName がモジュール名（引用符付き）になる
+    ...(info.containerName && !info.containerName.startsWith('"')
+      ? { containerName: info.containerName }
+      : {}),
+    moduleName: getModuleName(
+      tsModule,
+      absProjectRoot,
+      sourceFile,
+      info.textSpan.start
+    ),
+    isExternal,
+  };
+}
+
+/**
+ * 宣言を含むモジュールの名前を求める
+ *
+ * @param tsModule sourceFile を生成した TypeScript
+ * @param absProjectRoot プロジェクトルート（絶対パス）
+ * @param sourceFile 宣言を含むファイル
+ * @param pos 宣言の位置
+ * @returns declare module "x" の中なら "x"、node_modules の中ならパッケージ名、
+ *   それ以外は projectRoot からの相対パス（区切りは /）
+ */
+function getModuleName(
+  tsModule: TypeScriptModule,
+  absProjectRoot: string,
+  sourceFile: ts.SourceFile,
+  pos: number
+): string {
+  // 1. declare module "x" { ... } の中の宣言
+  for (
+    let node: ts.Node | undefined = findNodeAt(sourceFile, pos, tsModule);
+    node;
+    node = node.parent
+  ) {
+    if (
+      tsModule.isModuleDeclaration(node) &&
+      tsModule.isStringLiteral(node.name)
+    ) {
+      return node.name.text;
+    }
+  }
+
+  // 2. node_modules の中のファイルはパッケージ名（@scope/name を含む）
+  const segments = sourceFile.fileName.split(/[\\/]/);
+  const index = segments.lastIndexOf("node_modules");
+  if (index !== -1 && index + 1 < segments.length) {
+    const packageName = segments[index + 1];
+    return packageName.startsWith("@") && index + 2 < segments.length
+      ? `${packageName}/${segments[index + 2]}`
+      : packageName;
+  }
+
+  // 3. それ以外は projectRoot からの相対パス
+  return path
+    .relative(absProjectRoot, sourceFile.fileName)
+    .split(path.sep)
+    .join("/");
+}
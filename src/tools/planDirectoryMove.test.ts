@@ -1,8 +1,10 @@
 import { describe, it, expect, beforeAll, afterAll } from "vitest";
 import { planDirectoryMove } from "./planDirectoryMove.js";
+import { applyTextEdits } from "../edits.js";
 import path from "node:path";
 import fs from "node:fs";
 import os from "node:os";
+import { execFileSync } from "node:child_process";
 
 describe("planDirectoryMove", () => {
   let tempDir: string;
@@ -323,6 +325,45 @@ export function useA() {
 export function largeSum() {
   return module1Func() + module2Func();
 }
+`
+    );
+
+    // ========================================
+    // 11. 移動するファイル同士と外部への import（階層が変わる移動用）
+    // ========================================
+    const layeredDir = path.join(projectRoot, "src", "layered");
+    fs.mkdirSync(layeredDir, { recursive: true });
+    fs.mkdirSync(path.join(projectRoot, "src", "shared"), { recursive: true });
+
+    fs.writeFileSync(
+      path.join(projectRoot, "src", "shared", "format.ts"),
+      `export function format(value: string) {
+  return value.trim();
+}
+`
+    );
+
+    fs.writeFileSync(
+      path.join(layeredDir, "a.ts"),
+      `import { b } from "./b.js";
+import { format } from "../shared/format.js";
+
+export const a = format(b);
+`
+    );
+
+    fs.writeFileSync(
+      path.join(layeredDir, "b.ts"),
+      `export const b = " b ";
+`
+    );
+
+    fs.writeFileSync(
+      path.join(projectRoot, "src", "layeredUser.ts"),
+      `import { a } from "./layered/a.js";
+import { b } from "./layered/b.js";
+
+export const ab = a + b;
 `
     );
   });
@@ -1053,6 +1094,52 @@ export function login() {
       });
     });
 
+    it("移動するファイル同士の import は変更せず、外部への import だけを1回更新する", () => {
+      const result = planDirectoryMove({
+        projectRoot,
+        oldDir: "src/layered",
+        newDir: "src/deep/nested/layered",
+      });
+
+      const aEdits = result.edits.find((edit) =>
+        edit.filePath.endsWith(path.join("layered", "a.ts"))
+      );
+      expect(aEdits?.textEdits).toHaveLength(1);
+      expect(aEdits?.textEdits[0].range.start.line).toBe(1);
+      expect(aEdits?.textEdits[0].newText).toContain("../../../shared/format");
+
+      // 外部からの import は位置順に並ぶ
+      const userEdits = result.edits.find((edit) =>
+        edit.filePath.endsWith("layeredUser.ts")
+      );
+      expect(userEdits?.textEdits.map((edit) => edit.range.start.line)).toEqual(
+        [0, 1]
+      );
+      expect(
+        userEdits?.textEdits.every((edit) =>
+          edit.newText.includes("deep/nested/layered")
+        )
+      ).toBe(true);
+    });
+
+    it("編集は重ならず、そのまま適用できる", () => {
+      const result = planDirectoryMove({
+        projectRoot,
+        oldDir: "src/feature/auth",
+        newDir: "src/features/auth",
+      });
+
+      for (const { filePath, textEdits } of result.edits) {
+        expect(() =>
+          applyTextEdits(
+            filePath,
+            fs.readFileSync(filePath, "utf-8"),
+            textEdits
+          )
+        ).not.toThrow();
+      }
+    });
+
     it("編集対象ファイルが実際に存在することを確認", () => {
       const result = planDirectoryMove({
         projectRoot,
@@ -1192,4 +1279,369 @@ export function login() {
       expect(path.isAbsolute(result.fsMoves[0].to)).toBe(true);
     });
   });
+
+  // ========================================
+  // オーバーレイ
+  // ========================================
+  describe("オーバーレイ", () => {
+    it("オーバーレイの内容に対して Range を計算する", () => {
+      const result = planDirectoryMove({
+        projectRoot,
+        oldDir: "src/feature/auth",
+        newDir: "src/features/auth",
+        overlays: {
+          "src/router.tsx": `// pending edit
+// another pending line
+import { useAuth } from "./feature/auth/hooks.js";
+
+export const auth = useAuth();
+`,
+        },
+      });
+
+      const routerEdits = result.edits.find((edit) =>
+        edit.filePath.endsWith("router.tsx")
+      );
+      expect(routerEdits?.textEdits).toHaveLength(1);
+      expect(routerEdits?.textEdits[0].range.start.line).toBe(2);
+      expect(routerEdits?.textEdits[0].newText).toContain("features/auth");
+    });
+  });
+
+  describe("outputFormat", () => {
+    it("unifiedDiff ではディレクトリ内の全ファイルの移動を diff に含める", () => {
+      const result = planDirectoryMove({
+        projectRoot,
+        oldDir: "src/many",
+        newDir: "src/lib/many",
+        outputFormat: "unifiedDiff",
+      });
+
+      for (const move of result.fsMoves) {
+        const from = path.relative(projectRoot, move.from);
+        const to = path.relative(projectRoot, move.to);
+        expect(result.diff).toContain(`rename from ${from}\nrename to ${to}\n`);
+      }
+      expect(result.fsMoves).toHaveLength(15);
+      expect(result.diff).toContain(`--- a/src/consumer.ts
++++ b/src/consumer.ts
+@@ -1,18 +1,18 @@
+-import { func1 } from "./many/file1.js";
+`);
+    });
+  });
+});
+
+describe("planDirectoryMove（TypeScript 以外のファイル）", () => {
+  let projectRoot: string;
+
+  beforeAll(() => {
+    projectRoot = fs.mkdtempSync(
+      path.join(os.tmpdir(), "planDirectoryMove-assets-test-")
+    );
+
+    fs.writeFileSync(
+      path.join(projectRoot, "tsconfig.json"),
+      JSON.stringify(
+        {
+          compilerOptions: {
+            target: "ES2020",
+            module: "ESNext",
+            moduleResolution: "bundler",
+            strict: true,
+            resolveJsonModule: true,
+            skipLibCheck: true,
+          },
+          include: ["src/**/*.ts"],
+        },
+        null,
+        2
+      )
+    );
+
+    const files: Record<string, string> = {
+      "src/assets.d.ts": `declare module "*.svg?url" {
+  const url: string;
+  export default url;
+}
+`,
+      "src/ui/button.ts": `import "./button.css";
+import labels from "./labels.json";
+import "../theme/global.css";
+
+export const button = labels.ok;
+`,
+      "src/ui/button.css": ".button {}\n",
+      "src/ui/labels.json": `{ "ok": "OK" }\n`,
+      "src/ui/icons/close.svg": "<svg />\n",
+      "src/ui/__snapshots__/button.test.ts.snap": "// snapshot\n",
+      "src/ui/README.md": "# ui\n",
+      "src/ui/debug.log": "ignored\n",
+      "src/ui/dist/button.js": "ignored\n",
+      "src/ui/.gitignore": "*.log\ndist/\n",
+      "src/theme/global.css": ":root {}\n",
+      "src/main.ts": `import "./ui/button.css";
+import close from "./ui/icons/close.svg?url";
+import { button } from "./ui/button";
+
+export const main = [close, button];
+`,
+    };
+    for (const [fileName, text] of Object.entries(files)) {
+      fs.mkdirSync(path.dirname(path.join(projectRoot, fileName)), {
+        recursive: true,
+      });
+      fs.writeFileSync(path.join(projectRoot, fileName), text);
+    }
+    execFileSync("git", ["init", "-q"], { cwd: projectRoot });
+  });
+
+  afterAll(() => {
+    if (projectRoot && fs.existsSync(projectRoot)) {
+      fs.rmSync(projectRoot, { recursive: true, force: true });
+    }
+  });
+
+  const srcPath = (fileName: string): string =>
+    path.join(projectRoot, "src", fileName);
+  const getNewTexts = (
+    result: ReturnType<typeof planDirectoryMove>,
+    fileName: string
+  ): string[] =>
+    result.edits
+      .find((edit) => edit.filePath === srcPath(fileName))
+      ?.textEdits.map((edit) => edit.newText) ?? [];
+
+  it("デフォルトでは TypeScript のファイルだけを移動し、残るファイルへの import を更新する", () => {
+    const result = planDirectoryMove({
+      projectRoot,
+      oldDir: "src/ui",
+      newDir: "src/lib/ui",
+    });
+
+    expect(result.fsMoves).toEqual([
+      { from: srcPath("ui/button.ts"), to: srcPath("lib/ui/button.ts") },
+    ]);
+    // 移動しない CSS・JSON は元の場所を指す
+    expect(getNewTexts(result, "ui/button.ts")).toEqual([
+      "../../ui/button.css",
+      "../../ui/labels.json",
+      "../../theme/global.css",
+    ]);
+    expect(getNewTexts(result, "main.ts")).toEqual(["./lib/ui/button"]);
+  });
+
+  it("includeAllFiles では .gitignore で無視されるもの以外のすべてのファイルを移動する", () => {
+    const result = planDirectoryMove({
+      projectRoot,
+      oldDir: "src/ui",
+      newDir: "src/lib/ui",
+      includeAllFiles: true,
+    });
+
+    expect(
+      result.fsMoves
+        .map((move) => path.relative(srcPath("ui"), move.from))
+        .sort()
+    ).toEqual(
+      [
+        ".gitignore",
+        "README.md",
+        "__snapshots__/button.test.ts.snap",
+        "button.css",
+        "button.ts",
+        "icons/close.svg",
+        "labels.json",
+      ].map((fileName) => path.normalize(fileName))
+    );
+    for (const move of result.fsMoves) {
+      expect(move.to).toBe(
+        path.join(srcPath("lib/ui"), path.relative(srcPath("ui"), move.from))
+      );
+    }
+  });
+
+  it("includeAllFiles では移動するファイルへの import をクエリを保って更新する", () => {
+    const result = planDirectoryMove({
+      projectRoot,
+      oldDir: "src/ui",
+      newDir: "src/lib/ui",
+      includeAllFiles: true,
+    });
+
+    // 一緒に移動するファイルへの import は変わらず、外部への import だけ更新する
+    expect(getNewTexts(result, "ui/button.ts")).toEqual([
+      "../../theme/global.css",
+    ]);
+    expect(getNewTexts(result, "main.ts")).toEqual([
+      "./lib/ui/button.css",
+      "./lib/ui/icons/close.svg?url",
+      "./lib/ui/button",
+    ]);
+  });
+});
+
+describe("planDirectoryMove（git の作業ツリー外）", () => {
+  let projectRoot: string;
+
+  beforeAll(() => {
+    projectRoot = fs.mkdtempSync(
+      path.join(os.tmpdir(), "planDirectoryMove-nogit-test-")
+    );
+
+    const files: Record<string, string> = {
+      "tsconfig.json": JSON.stringify({ include: ["src/**/*.ts"] }),
+      ".gitignore": "coverage/\n/src/ui/local.json\n",
+      "src/ui/button.ts": "export const button = 1;\n",
+      "src/ui/button.css": ".button {}\n",
+      "src/ui/local.json": "{}\n",
+      "src/ui/debug.log": "ignored\n",
+      "src/ui/keep.log": "kept\n",
+      "src/ui/dist/button.js": "ignored\n",
+      "src/ui/coverage/index.html": "ignored\n",
+      "src/ui/icons/.gitignore": "*.tmp\n",
+      "src/ui/icons/close.svg": "<svg />\n",
+      "src/ui/icons/close.svg.tmp": "ignored\n",
+      "src/ui/.gitignore": "*.log\n!keep.log\ndist/\n",
+      "src/ui/node_modules/pkg/index.js": "ignored\n",
+    };
+    for (const [fileName, text] of Object.entries(files)) {
+      fs.mkdirSync(path.dirname(path.join(projectRoot, fileName)), {
+        recursive: true,
+      });
+      fs.writeFileSync(path.join(projectRoot, fileName), text);
+    }
+  });
+
+  afterAll(() => {
+    if (projectRoot && fs.existsSync(projectRoot)) {
+      fs.rmSync(projectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it("includeAllFiles では親ディレクトリと配下の .gitignore で無視されるものを除く", () => {
+    const result = planDirectoryMove({
+      projectRoot,
+      oldDir: "src/ui",
+      newDir: "src/lib/ui",
+      includeAllFiles: true,
+    });
+
+    expect(
+      result.fsMoves
+        .map((move) =>
+          path.relative(path.join(projectRoot, "src/ui"), move.from)
+        )
+        .sort()
+    ).toEqual(
+      [
+        ".gitignore",
+        "button.css",
+        "button.ts",
+        "icons/.gitignore",
+        "icons/close.svg",
+        "keep.log",
+      ].map((fileName) => path.normalize(fileName))
+    );
+  });
+});
+
+describe("planDirectoryMove（organizeImports）", () => {
+  let projectRoot: string;
+
+  beforeAll(() => {
+    projectRoot = fs.mkdtempSync(
+      path.join(os.tmpdir(), "planDirectoryMove-organize-test-")
+    );
+
+    fs.writeFileSync(
+      path.join(projectRoot, "tsconfig.json"),
+      JSON.stringify(
+        {
+          compilerOptions: {
+            target: "ES2020",
+            module: "ESNext",
+            moduleResolution: "node",
+            strict: true,
+            skipLibCheck: true,
+          },
+          include: ["src/**/*.ts"],
+        },
+        null,
+        2
+      )
+    );
+
+    const files: Record<string, string> = {
+      "src/lib/x.ts": `import { m } from "../m";
+
+export const x = m;
+`,
+      "src/lib/y.ts": "export const y = 2;\n",
+      "src/m.ts": "export const m = 1;\n",
+      "src/main.ts": `import { x } from "./lib/x";
+import { m } from "./m";
+import { y } from "./lib/y";
+
+export const main = [x, m, y];
+`,
+    };
+    for (const [fileName, text] of Object.entries(files)) {
+      fs.mkdirSync(path.dirname(path.join(projectRoot, fileName)), {
+        recursive: true,
+      });
+      fs.writeFileSync(path.join(projectRoot, fileName), text);
+    }
+  });
+
+  afterAll(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  const applyEdits = (
+    result: ReturnType<typeof planDirectoryMove>,
+    fileName: string
+  ): string => {
+    const filePath = path.join(projectRoot, fileName);
+    const text = fs.readFileSync(filePath, "utf8");
+    const edit = result.edits.find((edit) => edit.filePath === filePath);
+    return edit ? applyTextEdits(filePath, text, edit.textEdits) : text;
+  };
+
+  it("移動後の指定子で import を並べ替える", () => {
+    const result = planDirectoryMove({
+      projectRoot,
+      oldDir: "src/lib",
+      newDir: "src/core",
+      organizeImports: true,
+    });
+
+    expect(applyEdits(result, "src/main.ts"))
+      .toBe(`import { x } from "./core/x";
+import { y } from "./core/y";
+import { m } from "./m";
+
+export const main = [x, m, y];
+`);
+    // 編集の無いファイルは整理しない
+    expect(result.edits.map(({ filePath }) => filePath)).toEqual([
+      path.join(projectRoot, "src/main.ts"),
+    ]);
+  });
+
+  it("organizeImports を指定しない場合は元の順序のまま", () => {
+    const result = planDirectoryMove({
+      projectRoot,
+      oldDir: "src/lib",
+      newDir: "src/core",
+    });
+
+    expect(applyEdits(result, "src/main.ts"))
+      .toBe(`import { x } from "./core/x";
+import { m } from "./m";
+import { y } from "./core/y";
+
+export const main = [x, m, y];
+`);
+  });
 });
@@ -1,9 +1,27 @@
 import path from "node:path";
+import fs from "node:fs";
+import { execFileSync } from "node:child_process";
 import ts from "typescript";
-import { createTsService } from "../tsService.js";
+import { getTsServices } from "../tsService.js";
+import {
+  mergeFileTextChanges,
+  normalizeTextEdits,
+  withOriginalText,
+} from "../edits.js";
+import { formatPlanOutput } from "../planOutput.js";
+import { findAssetImports } from "../assetImports.js";
+import { organizeImportsAfterMove } from "../organizeImports.js";
+import {
+  isGitignored,
+  readGitignore,
+  type GitignoreRule,
+} from "../gitignore.js";
 import type {
   FileTextEdits,
   FsMove,
+  LspWorkspaceEdit,
+  OutputFormat,
+  Range,
   TextEdit,
 } from "../types.js";
 
@@ -14,6 +32,13 @@ export type PlanDirectoryMoveParams = {
   projectRoot: string;
   oldDir: string;
   newDir: string;
+  includeAllFiles?: boolean; // true の場合、tsconfig に含まれないファイル（CSS・画像など）も移動する（デフォルト false）
+  organizeImports?: boolean; // true の場合、編集するファイルの import を移動後に整理する（並べ替えと統合のみ、デフォルト false）
+  outputFormat?: OutputFormat; // デフォルト "json"
+  overlays?: Record<string, string>; // ファイルパス → 未保存の内容（ディスクより優先）
+  tsconfigPath?: string; // 使用する tsconfig（省略時は projectRoot から上方向に探索）
+  typescriptPath?: string; // 使用する TypeScript（省略時は projectRoot から自動検出、"bundled" で同梱版）
+  disablePlugins?: boolean; // true の場合、tsconfig の Language Service プラグインを読み込まない
 };
 
 /**
@@ -22,6 +47,9 @@ export type PlanDirectoryMoveParams = {
 export type PlanDirectoryMoveResult = {
   edits: FileTextEdits[];
   fsMoves: FsMove[];
+  typescriptVersion: string; // 使用した TypeScript のバージョン
+  diff?: string; // outputFormat が "unifiedDiff" の場合の diff
+  workspaceEdit?: LspWorkspaceEdit; // outputFormat が "workspaceEdit" の場合の WorkspaceEdit
 };
 
 /**
@@ -29,14 +57,19 @@ export type PlanDirectoryMoveResult = {
  *
  * 処理フロー:
  * 1. projectRoot・oldDir・newDir を絶対パスに正規化
- * 2. createTsService(projectRoot) で service と parsedConfig を取得
- * 3. parsedConfig.fileNames から oldDir 配下のファイルだけを抽出
- * 4. 各 oldFile に対して newFile を計算（path.relative + path.join）
- * 5. 各ペアについて service.getEditsForFileRename() を呼び出し
+ * 2. getTsServices(projectRoot) で project references を含む全プロジェクトの service を取得
+ * 3. 各 parsedConfig.fileNames から oldDir 配下のファイルだけを抽出
+ *    - includeAllFiles の場合は oldDir 配下の他のファイルも加える（.gitignore を考慮）
+ * 4. 各 oldFile に対して newFile を計算（path.relative + path.join）し、fsMoves に列挙
+ * 5. 全プロジェクトの service.getEditsForFileRename(oldDir, newDir) でディレクトリ全体の
+ *    移動を1回で計算（移動するファイル同士の import は変更されない）
  * 6. 全ての FileTextChanges をマージして FileTextEdits[] に変換
  *    - 同じ fileName に対する TextChange は1つの FileTextEdits にまとめる
- * 7. fsMoves にすべての oldFile / newFile ペアを列挙
- * 8. 結果を返す
+ *    - CSS・JSON・画像などへの import は移動後の位置関係から指定子を求める
+ *    - 重複する編集を除き、位置順に並べる（範囲が重なる編集はエラー）
+ * 7. organizeImports の場合は移動後の内容で import を整理し、その編集を加える
+ * 8. 元の内容のハッシュと各範囲の元のテキストを付ける
+ * 9. 結果を返す（outputFormat に応じて diff / WorkspaceEdit も付ける）
  */
 export function planDirectoryMove(
   params: PlanDirectoryMoveParams
@@ -50,98 +83,241 @@ export function planDirectoryMove(
     ? path.resolve(params.newDir)
     : path.resolve(projectRootAbs, params.newDir);
 
-  // 2. TypeScript Language Service を取得
-  const { service, parsedConfig } = createTsService(projectRootAbs);
+  // 2. TypeScript Language Service を取得（project references を含む）
+  const tsServices = getTsServices(projectRootAbs, {
+    overlays: params.overlays,
+    tsconfigPath: params.tsconfigPath,
+    typescriptPath: params.typescriptPath,
+    disablePlugins: params.disablePlugins,
+  });
+  const { configPath, getFileText, typescriptVersion } = tsServices[0];
 
-  // 3. oldDir 配下のファイルだけを抽出
-  const targetFiles = parsedConfig.fileNames.filter((file) => {
+  // 3. oldDir 配下のファイルだけを抽出（複数プロジェクトに含まれるファイルは1回だけ）
+  const allFiles = new Set(
+    tsServices.flatMap(({ parsedConfig }) => parsedConfig.fileNames)
+  );
+  const targetFiles = Array.from(allFiles).filter((file) => {
     const normalizedFile = path.normalize(file);
     const normalizedOldDir = path.normalize(oldDirAbs);
     return normalizedFile.startsWith(normalizedOldDir + path.sep);
   });
 
-  // ファイルごとの編集をマージするためのマップ
-  const editsMap = new Map<string, TextEdit[]>();
-  const fsMoves: FsMove[] = [];
-
-  // 4-6. 各ファイルについて移動先を計算し、編集を取得
-  for (const oldFile of targetFiles) {
-    // 4. newFile を計算
-    const rel = path.relative(oldDirAbs, oldFile);
-    const newFile = path.join(newDirAbs, rel);
-
-    // 5. service.getEditsForFileRename() を呼び出し
-    const fileTextChanges = service.getEditsForFileRename(
-      oldFile,
-      newFile,
-      /* formatOptions */ {},
-      /* preferences */ {}
+  // 明示された tsconfig が oldDir 配下のファイルを1つも含まない場合はエラー
+  if (params.tsconfigPath !== undefined && targetFiles.length === 0) {
+    throw new Error(
+      `No files under ${oldDirAbs} are included in ${configPath}`
     );
+  }
+
+  // includeAllFiles の場合は tsconfig に含まれないファイルも移動する
+  const targetFileSet = new Set(targetFiles);
+  const otherFiles = params.includeAllFiles
+    ? listFiles(oldDirAbs, projectRootAbs).filter(
+        (file) => !targetFileSet.has(file)
+      )
+    : [];
 
-    // 6. FileTextChanges を TextEdit に変換してマージ
-    for (const change of fileTextChanges) {
-      const fileName = change.fileName;
-      const existingEdits = editsMap.get(fileName) ?? [];
-
-      for (const textChange of change.textChanges) {
-        // textChange.span を Range に変換
-        const fileText = ts.sys.readFile(fileName);
-        if (!fileText) continue;
-
-        const sourceFile = ts.createSourceFile(
-          fileName,
-          fileText,
-          ts.ScriptTarget.Latest,
-          true
-        );
-
-        const start = ts.getLineAndCharacterOfPosition(
-          sourceFile,
-          textChange.span.start
-        );
-        const end = ts.getLineAndCharacterOfPosition(
-          sourceFile,
-          textChange.span.start + textChange.span.length
-        );
-
-        const textEdit: TextEdit = {
+  // 4. 各ファイルの移動先を計算
+  const fsMoves: FsMove[] = [...targetFiles, ...otherFiles].map((oldFile) => ({
+    from: oldFile,
+    to: path.join(newDirAbs, path.relative(oldDirAbs, oldFile)),
+  }));
+
+  // 5. ディレクトリ全体の移動を1回の getEditsForFileRename で計算する
+  //    （ファイルごとに呼ぶと、移動するファイル同士の import に移動前のパスを
+  //    前提とした編集が重複して返る）
+  const fileTextChanges =
+    targetFiles.length > 0
+      ? mergeFileTextChanges(
+          tsServices.flatMap(({ service }) =>
+            service.getEditsForFileRename(
+              oldDirAbs,
+              newDirAbs,
+              /* formatOptions */ {},
+              /* preferences */ {}
+            )
+          )
+        )
+      : [];
+
+  // 6. FileTextChanges を TextEdit に変換し、ファイルごとにまとめる
+  const editsMap = new Map<string, TextEdit[]>();
+  for (const change of fileTextChanges) {
+    const fileText = getFileText(change.fileName);
+    if (fileText === undefined) continue;
+
+    const sourceFile = ts.createSourceFile(
+      change.fileName,
+      fileText,
+      ts.ScriptTarget.Latest
+    );
+    editsMap.set(change.fileName, [
+      ...(editsMap.get(change.fileName) ?? []),
+      ...change.textChanges.map(
+        (textChange): TextEdit => ({
           range: {
-            start: {
-              line: start.line,
-              character: start.character,
-            },
-            end: {
-              line: end.line,
-              character: end.character,
-            },
+            start: ts.getLineAndCharacterOfPosition(
+              sourceFile,
+              textChange.span.start
+            ),
+            end: ts.getLineAndCharacterOfPosition(
+              sourceFile,
+              textChange.span.start + textChange.span.length
+            ),
           },
           newText: textChange.newText,
-        };
-
-        existingEdits.push(textEdit);
-      }
+        })
+      ),
+    ]);
+  }
 
-      editsMap.set(fileName, existingEdits);
+  // 6-2. CSS・JSON・画像などへの import は移動後の位置関係から指定子を求め、
+  //      Language Service の編集より優先する
+  const moves = new Map(fsMoves.map(({ from, to }) => [from, to]));
+  for (const assetImport of findAssetImports(
+    allFiles,
+    moves,
+    getFileText,
+    (fileName) => allFiles.has(fileName)
+  )) {
+    const { fileName, range, specifier, newSpecifier } = assetImport;
+    const textEdits = (editsMap.get(fileName) ?? []).filter(
+      (edit) => !isSameRange(edit.range, range)
+    );
+    if (newSpecifier !== specifier) {
+      textEdits.push({ range, newText: newSpecifier });
     }
-
-    // 7. fsMoves にペアを追加
-    fsMoves.push({
-      from: oldFile,
-      to: newFile,
-    });
+    editsMap.set(fileName, textEdits);
   }
 
-  // editsMap を FileTextEdits[] に変換
-  const edits: FileTextEdits[] = Array.from(editsMap.entries()).map(
-    ([filePath, textEdits]) => ({
+  // 6-3. ファイルごとに重複を除いて位置順に並べる（範囲が重なる編集はエラー）
+  const fileTextEdits: FileTextEdits[] = Array.from(editsMap.entries())
+    .filter(([, textEdits]) => textEdits.length > 0)
+    .map(([filePath, textEdits]) => ({
       filePath,
-      textEdits,
-    })
-  );
+      textEdits: normalizeTextEdits(filePath, textEdits),
+    }));
 
-  // 8. 結果を返す
+  // 7. 移動後の内容で import を整理する
+  const organizedEdits = params.organizeImports
+    ? organizeImportsAfterMove(
+        projectRootAbs,
+        fileTextEdits,
+        fsMoves,
+        {
+          overlays: params.overlays,
+          tsconfigPath: configPath,
+          typescriptPath: params.typescriptPath,
+          disablePlugins: params.disablePlugins,
+        },
+        getFileText
+      )
+    : fileTextEdits;
+
+  // 8. 元の内容のハッシュを付ける
+  const edits = withOriginalText(organizedEdits, getFileText);
+
+  // 9. 結果を返す
   return {
     edits,
     fsMoves,
+    typescriptVersion,
+    ...formatPlanOutput(
+      params.outputFormat,
+      projectRootAbs,
+      edits,
+      fsMoves,
+      getFileText
+    ),
   };
 }
+
+/**
+ * 2つの範囲が同じか
+ *
+ * @param a 範囲
+ * @param b 範囲
+ * @returns 開始位置と終了位置が同じ場合は true
+ */
+function isSameRange(a: Range, b: Range): boolean {
+  return (
+    a.start.line === b.start.line &&
+    a.start.character === b.start.character &&
+    a.end.line === b.end.line &&
+    a.end.character === b.end.character
+  );
+}
+
+/**
+ * ディレクトリ配下のすべてのファイルを列挙する
+ *
+ * git の作業ツリー内では git ls-files で追跡中と未追跡のファイルを列挙し、
+ * .gitignore で無視されるファイルを除く。git が使えない場合は
+ * node_modules と .git を除いてディレクトリをたどり、projectRoot から
+ * dir までと、たどる途中で見つけた .gitignore で無視されるものを除く。
+ *
+ * @param dir 対象ディレクトリ（絶対パス）
+ * @param projectRoot プロジェクトルート（絶対パス）
+ * @returns ファイルの絶対パス（存在しない場合は空配列）
+ */
+function listFiles(dir: string, projectRoot: string): string[] {
+  if (!fs.existsSync(dir)) return [];
+
+  try {
+    const output = execFileSync(
+      "git",
+      ["ls-files", "-z", "--cached", "--others", "--exclude-standard", "."],
+      { cwd: dir, encoding: "utf8", stdio: ["ignore", "pipe", "ignore"] }
+    );
+    return output
+      .split("\0")
+      .filter((file) => file !== "")
+      .map((file) => path.join(dir, file))
+      .filter((file) => fs.existsSync(file) && fs.statSync(file).isFile());
+  } catch {
+    // projectRoot から dir の親までの .gitignore を親から順に読む
+    const relativeDir = path.relative(projectRoot, dir);
+    const segments =
+      relativeDir === "" ||
+      relativeDir.startsWith("..") ||
+      path.isAbsolute(relativeDir)
+        ? []
+        : relativeDir.split(path.sep);
+    const rules = segments.flatMap((_, i) =>
+      readGitignore(
+        path.join(projectRoot, ...segments.slice(0, i), ".gitignore")
+      )
+    );
+    return walkFiles(dir, rules);
+  }
+}
+
+/**
+ * git を使わずにディレクトリをたどり、.gitignore で無視されないファイルを列挙する
+ *
+ * @param dir 対象ディレクトリ（絶対パス）
+ * @param parentRules 親ディレクトリまでの .gitignore の規則
+ * @returns ファイルの絶対パス
+ */
+function walkFiles(
+  dir: string,
+  parentRules: readonly GitignoreRule[]
+): string[] {
+  const rules = [
+    ...parentRules,
+    ...readGitignore(path.join(dir, ".gitignore")),
+  ];
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const fileName = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return entry.name === "node_modules" ||
+        entry.name === ".git" ||
+        isGitignored(rules, fileName, true)
+        ? []
+        : walkFiles(fileName, rules);
+    }
+    return entry.isFile() && !isGitignored(rules, fileName, false)
+      ? [fileName]
+      : [];
+  });
+}
@@ -4,9 +4,17 @@
 
 import { describe, it, expect, beforeAll, afterAll } from "vitest";
 import { planFileMove } from "./planFileMove.js";
+import { applyTextEdits, createOffsetResolver, hashText } from "../edits.js";
 import fs from "node:fs";
 import path from "node:path";
 import os from "node:os";
+import { pathToFileURL } from "node:url";
+import { createRequire } from "node:module";
+
+const require = createRequire(import.meta.url);
+// 同梱版より古い TypeScript（4.9 は OrganizeImportsMode のある最初のバージョン）
+const typescript49Path = require.resolve("typescript-4.9");
+const typescript48Path = require.resolve("typescript-4.8");
 
 describe("planFileMove", () => {
   let testProjectDir: string;
@@ -1128,4 +1136,438 @@ console.log(value1, value2);
       });
     });
   });
+
+  describe("オーバーレイ", () => {
+    it("オーバーレイの内容に対して Range を計算する", () => {
+      const result = planFileMove({
+        projectRoot: testProjectDir,
+        oldPath: "src/utils/helper.ts",
+        newPath: "src/lib/helper.ts",
+        overlays: {
+          "src/main.ts": `// pending edit
+import { capitalize } from "./utils/helper.js";
+
+export const shout = (s: string) => capitalize(s);
+`,
+        },
+      });
+
+      const mainEdit = result.edits.find((edit) =>
+        edit.filePath.endsWith("main.ts")
+      );
+      expect(mainEdit).toBeDefined();
+      expect(mainEdit?.textEdits).toHaveLength(1);
+      expect(mainEdit?.textEdits[0].range.start.line).toBe(1);
+      expect(mainEdit?.textEdits[0].newText).toContain("lib/helper");
+    });
+
+    it("ディスクに存在しないオーバーレイファイルのインポートも更新する", () => {
+      const result = planFileMove({
+        projectRoot: testProjectDir,
+        oldPath: "src/utils/helper.ts",
+        newPath: "src/lib/helper.ts",
+        overlays: {
+          "src/unsaved.ts": `import { lowercase } from "./utils/helper.js";
+export const quiet = lowercase("X");
+`,
+        },
+      });
+
+      const unsavedEdit = result.edits.find((edit) =>
+        edit.filePath.endsWith("unsaved.ts")
+      );
+      expect(unsavedEdit).toBeDefined();
+      expect(unsavedEdit?.textEdits[0].newText).toContain("lib/helper");
+    });
+  });
+
+  describe("tsconfigPath", () => {
+    beforeAll(() => {
+      fs.writeFileSync(
+        path.join(testProjectDir, "tsconfig.build.json"),
+        JSON.stringify(
+          {
+            compilerOptions: { target: "ES2020", moduleResolution: "node" },
+            include: ["src/main.ts", "src/utils/**/*.ts"],
+          },
+          null,
+          2
+        )
+      );
+    });
+
+    it("指定した tsconfig の対象ファイルだけが編集される", () => {
+      const result = planFileMove({
+        projectRoot: testProjectDir,
+        tsconfigPath: "tsconfig.build.json",
+        oldPath: "src/utils/helper.ts",
+        newPath: "src/lib/helper.ts",
+      });
+
+      expect(
+        result.edits.some((edit) => edit.filePath.endsWith("main.ts"))
+      ).toBe(true);
+      expect(
+        result.edits.some((edit) => edit.filePath.endsWith("app.ts"))
+      ).toBe(false);
+    });
+
+    it("指定した tsconfig が移動元ファイルを含まない場合はエラーを投げる", () => {
+      expect(() =>
+        planFileMove({
+          projectRoot: testProjectDir,
+          tsconfigPath: "tsconfig.build.json",
+          oldPath: "src/app.ts",
+          newPath: "src/application.ts",
+        })
+      ).toThrow(/File is not included in .*tsconfig\.build\.json/);
+    });
+  });
+
+  describe("project references", () => {
+    let solutionDir: string;
+
+    beforeAll(() => {
+      solutionDir = fs.mkdtempSync(
+        path.join(os.tmpdir(), "plan-file-move-solution-")
+      );
+
+      // ルートは "files": [] + references の solution 形式
+      fs.writeFileSync(
+        path.join(solutionDir, "tsconfig.json"),
+        JSON.stringify(
+          {
+            files: [],
+            references: [{ path: "./packages/a" }, { path: "./packages/b" }],
+          },
+          null,
+          2
+        )
+      );
+
+      for (const name of ["a", "b"]) {
+        fs.mkdirSync(path.join(solutionDir, "packages", name, "src"), {
+          recursive: true,
+        });
+        fs.writeFileSync(
+          path.join(solutionDir, "packages", name, "tsconfig.json"),
+          JSON.stringify(
+            {
+              compilerOptions: {
+                composite: true,
+                target: "ES2020",
+                module: "ESNext",
+                moduleResolution: "node",
+                rootDir: "src",
+                outDir: "dist",
+              },
+              include: ["src"],
+              references: name === "b" ? [{ path: "../a" }] : undefined,
+            },
+            null,
+            2
+          )
+        );
+      }
+
+      fs.writeFileSync(
+        path.join(solutionDir, "packages", "a", "src", "index.ts"),
+        `export function greet(name: string) {
+  return name;
+}
+`
+      );
+      fs.writeFileSync(
+        path.join(solutionDir, "packages", "b", "src", "main.ts"),
+        `import { greet } from "../../a/src/index.js";
+
+export const message = greet("b");
+`
+      );
+    });
+
+    afterAll(() => {
+      if (solutionDir && fs.existsSync(solutionDir)) {
+        fs.rmSync(solutionDir, { recursive: true, force: true });
+      }
+    });
+
+    it("参照元プロジェクトのインポートも1回だけ更新される", () => {
+      const result = planFileMove({
+        projectRoot: solutionDir,
+        oldPath: "packages/a/src/index.ts",
+        newPath: "packages/a/src/greet.ts",
+      });
+
+      const mainEdit = result.edits.find((edit) =>
+        edit.filePath.endsWith(path.join("b", "src", "main.ts"))
+      );
+      expect(mainEdit?.textEdits).toHaveLength(1);
+      expect(mainEdit?.textEdits[0].newText).toBe("../../a/src/greet.js");
+    });
+  });
+
+  describe("tsconfig の自動選択", () => {
+    it("移動元ファイルを所有する tsconfig を結果に含める", () => {
+      const result = planFileMove({
+        projectRoot: testProjectDir,
+        oldPath: "src/utils/helper.ts",
+        newPath: "src/lib/helper.ts",
+      });
+
+      expect(result.tsconfigPath).toBe(
+        path.join(testProjectDir, "tsconfig.json")
+      );
+    });
+  });
+
+  describe("outputFormat", () => {
+    it("unifiedDiff では移動を rename ヘッダーで表した diff も返す", () => {
+      const result = planFileMove({
+        projectRoot: testProjectDir,
+        oldPath: "src/utils/helper.ts",
+        newPath: "src/lib/helper.ts",
+        outputFormat: "unifiedDiff",
+      });
+
+      expect(result.edits.length).toBeGreaterThan(0);
+      expect(result.diff).toContain(
+        `diff --git a/src/utils/helper.ts b/src/lib/helper.ts
+similarity index 100%
+rename from src/utils/helper.ts
+rename to src/lib/helper.ts
+`
+      );
+      expect(result.diff).toContain(`--- a/src/main.ts
++++ b/src/main.ts
+@@ -1,4 +1,4 @@
+-import { capitalize, lowercase } from "./utils/helper.js";
++import { capitalize, lowercase } from "./lib/helper.js";
+`);
+    });
+
+    it("workspaceEdit では RenameFile と TextDocumentEdit を返す", () => {
+      const result = planFileMove({
+        projectRoot: testProjectDir,
+        oldPath: "src/utils/helper.ts",
+        newPath: "src/lib/helper.ts",
+        outputFormat: "workspaceEdit",
+      });
+
+      const toUri = (fileName: string): string =>
+        pathToFileURL(path.join(testProjectDir, fileName)).href;
+      const documentChanges = result.workspaceEdit?.documentChanges ?? [];
+      expect(documentChanges[0]).toEqual({
+        kind: "rename",
+        oldUri: toUri("src/utils/helper.ts"),
+        newUri: toUri("src/lib/helper.ts"),
+      });
+      expect(documentChanges).toContainEqual({
+        textDocument: { uri: toUri("src/main.ts"), version: null },
+        edits: result.edits
+          .find(
+            (edit) => edit.filePath === path.join(testProjectDir, "src/main.ts")
+          )
+          ?.textEdits.map(({ range, newText }) => ({ range, newText })),
+      });
+      expect(result.diff).toBeUndefined();
+    });
+
+    it("デフォルトでは diff も workspaceEdit も返さない", () => {
+      const result = planFileMove({
+        projectRoot: testProjectDir,
+        oldPath: "src/utils/helper.ts",
+        newPath: "src/lib/helper.ts",
+      });
+
+      expect(result.diff).toBeUndefined();
+      expect(result.workspaceEdit).toBeUndefined();
+    });
+  });
+});
+
+describe("planFileMove（大文字を含むパス）", () => {
+  let projectRoot: string;
+
+  beforeAll(() => {
+    projectRoot = fs.mkdtempSync(
+      path.join(os.tmpdir(), "plan-file-move-MixedCase-")
+    );
+    fs.writeFileSync(
+      path.join(projectRoot, "tsconfig.json"),
+      JSON.stringify({ include: ["src/**/*.ts"] })
+    );
+    fs.mkdirSync(path.join(projectRoot, "src"));
+    fs.writeFileSync(
+      path.join(projectRoot, "src/z.ts"),
+      "export const z = 1;\n"
+    );
+    fs.writeFileSync(
+      path.join(projectRoot, "src/main.ts"),
+      `import { z } from "./z";\n\nexport const all = [z];\n`
+    );
+  });
+
+  afterAll(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it("同梱版より古い TypeScript でも import を最短の相対パスで更新する", () => {
+    const result = planFileMove({
+      projectRoot,
+      oldPath: "src/z.ts",
+      newPath: "src/util/z.ts",
+      typescriptPath: typescript49Path,
+    });
+
+    expect(
+      result.edits.flatMap(({ textEdits }) =>
+        textEdits.map(({ newText }) => newText)
+      )
+    ).toEqual(["./util/z"]);
+  });
+});
+
+describe("planFileMove（organizeImports）", () => {
+  let projectRoot: string;
+
+  beforeAll(() => {
+    projectRoot = fs.mkdtempSync(
+      path.join(os.tmpdir(), "plan-file-move-organize-test-")
+    );
+
+    fs.writeFileSync(
+      path.join(projectRoot, "tsconfig.json"),
+      JSON.stringify(
+        {
+          compilerOptions: {
+            target: "ES2020",
+            module: "ESNext",
+            moduleResolution: "node",
+            strict: true,
+            skipLibCheck: true,
+          },
+          include: ["src/**/*.ts"],
+        },
+        null,
+        2
+      )
+    );
+
+    const files: Record<string, string> = {
+      "src/z.ts": `import { b } from "./b";
+import { a } from "./a";
+
+export const z = a + b;
+export const zz = 2;
+`,
+      "src/a.ts": "export const a = 1;\nexport const unused = 0;\n",
+      "src/b.ts": "export const b = 1;\n",
+      "src/main.ts": `import { z } from "./z";
+import { a } from "./a";
+import { zz } from "./z";
+import { unused } from "./a";
+
+export const all = [z, a, zz];
+`,
+    };
+    for (const [fileName, text] of Object.entries(files)) {
+      fs.mkdirSync(path.dirname(path.join(projectRoot, fileName)), {
+        recursive: true,
+      });
+      fs.writeFileSync(path.join(projectRoot, fileName), text);
+    }
+  });
+
+  afterAll(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  const applyEdits = (
+    result: ReturnType<typeof planFileMove>,
+    fileName: string
+  ): string => {
+    const filePath = path.join(projectRoot, fileName);
+    const text = fs.readFileSync(filePath, "utf8");
+    const edit = result.edits.find((edit) => edit.filePath === filePath);
+    return edit ? applyTextEdits(filePath, text, edit.textEdits) : text;
+  };
+
+  it("同じモジュールからの import をまとめて並べ替え、使われていない import は残す", () => {
+    const result = planFileMove({
+      projectRoot,
+      oldPath: "src/z.ts",
+      newPath: "src/util/z.ts",
+      organizeImports: true,
+    });
+
+    expect(applyEdits(result, "src/main.ts"))
+      .toBe(`import { a, unused } from "./a";
+import { z, zz } from "./util/z";
+
+export const all = [z, a, zz];
+`);
+    // 移動するファイル自身の import も移動後の指定子で整理する
+    expect(applyEdits(result, "src/z.ts")).toBe(`import { a } from "../a";
+import { b } from "../b";
+
+export const z = a + b;
+export const zz = 2;
+`);
+  });
+
+  it("整理した編集にも移動前の内容のハッシュと元のテキストを付ける", () => {
+    const result = planFileMove({
+      projectRoot,
+      oldPath: "src/z.ts",
+      newPath: "src/util/z.ts",
+      organizeImports: true,
+      outputFormat: "unifiedDiff",
+    });
+
+    const mainPath = path.join(projectRoot, "src/main.ts");
+    const mainText = fs.readFileSync(mainPath, "utf8");
+    const mainEdits = result.edits.find((edit) => edit.filePath === mainPath);
+    expect(mainEdits?.contentHash).toBe(hashText(mainText));
+    const toOffset = createOffsetResolver(mainPath, mainText);
+    for (const { range, oldText } of mainEdits?.textEdits ?? []) {
+      expect(oldText).toBe(
+        mainText.slice(toOffset(range.start), toOffset(range.end))
+      );
+    }
+    expect(result.diff).toContain(`+import { z, zz } from "./util/z";`);
+  });
+
+  it("ワークスペースの TypeScript の並べ替えと統合のモードを使う", () => {
+    const result = planFileMove({
+      projectRoot,
+      oldPath: "src/z.ts",
+      newPath: "src/util/z.ts",
+      organizeImports: true,
+      typescriptPath: typescript49Path,
+    });
+
+    expect(applyEdits(result, "src/main.ts"))
+      .toBe(`import { a, unused } from "./a";
+import { z, zz } from "./util/z";
+
+export const all = [z, a, zz];
+`);
+  });
+
+  it("モードの無い TypeScript では import を整理せず、使われていない import も消さない", () => {
+    const options = {
+      projectRoot,
+      oldPath: "src/z.ts",
+      newPath: "src/util/z.ts",
+      typescriptPath: typescript48Path,
+    };
+
+    const result = planFileMove({ ...options, organizeImports: true });
+
+    expect(result.edits).toEqual(planFileMove(options).edits);
+    expect(applyEdits(result, "src/main.ts")).toContain(
+      `import { unused } from "./a";`
+    );
+  });
 });
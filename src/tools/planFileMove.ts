@@ -5,7 +5,10 @@
 
 import ts from "typescript";
 import path from "node:path";
-import { createTsService } from "../tsService.js";
+import { getTsServicesForFile } from "../tsService.js";
+import { mergeFileTextChanges, withOriginalText } from "../edits.js";
+import { formatPlanOutput } from "../planOutput.js";
+import { organizeImportsAfterMove } from "../organizeImports.js";
 import type {
   PlanFileMoveParams,
   PlanFileMoveResult,
@@ -32,21 +35,35 @@ export function planFileMove(params: PlanFileMoveParams): PlanFileMoveResult {
     ? params.newPath
     : path.resolve(absProjectRoot, params.newPath);
 
-  // 3. createTsService から service を取得
-  const { service } = createTsService(absProjectRoot);
-
-  // 4. service.getEditsForFileRename を呼び出し
-  const fileTextChanges = service.getEditsForFileRename(
+  // 3. 移動元ファイルを所有する tsconfig を解決し、キャッシュ済みの service を取得
+  const { tsServices, configPath } = getTsServicesForFile(
+    absProjectRoot,
     oldAbs,
-    newAbs,
-    /* formatOptions */ {},
-    /* preferences */ {}
+    {
+      overlays: params.overlays,
+      tsconfigPath: params.tsconfigPath,
+      typescriptPath: params.typescriptPath,
+      disablePlugins: params.disablePlugins,
+    }
+  );
+  const { getFileText, typescriptVersion } = tsServices[0];
+
+  // 4. 各プロジェクトで service.getEditsForFileRename を呼び出し、重複を除いてマージ
+  const fileTextChanges = mergeFileTextChanges(
+    tsServices.flatMap(({ service }) =>
+      service.getEditsForFileRename(
+        oldAbs,
+        newAbs,
+        /* formatOptions */ {},
+        /* preferences */ {}
+      )
+    )
   );
 
   // 5. FileTextChanges[] を FileTextEdits[] に変換
-  const edits: FileTextEdits[] = fileTextChanges.map((change) => {
+  const fileTextEdits = fileTextChanges.map((change): FileTextEdits => {
     const fileName = change.fileName;
-    const fileText = ts.sys.readFile(fileName);
+    const fileText = getFileText(fileName);
 
     const textEdits: TextEdit[] = change.textChanges.map((textChange) => {
       // ファイルテキストがない場合はデフォルトの位置を使用
@@ -109,9 +126,37 @@ export function planFileMove(params: PlanFileMoveParams): PlanFileMoveResult {
     },
   ];
 
-  // 7. 結果を返す
+  // 7. organizeImports の場合は移動後の内容で import を整理する
+  const organizedEdits = params.organizeImports
+    ? organizeImportsAfterMove(
+        absProjectRoot,
+        fileTextEdits,
+        fsMoves,
+        {
+          overlays: params.overlays,
+          tsconfigPath: tsServices[0].configPath,
+          typescriptPath: params.typescriptPath,
+          disablePlugins: params.disablePlugins,
+        },
+        getFileText
+      )
+    : fileTextEdits;
+
+  // 8. 元の内容のハッシュを付ける
+  const edits = withOriginalText(organizedEdits, getFileText);
+
+  // 9. 結果を返す（outputFormat に応じて diff / WorkspaceEdit も付ける）
   return {
     edits,
     fsMoves,
+    tsconfigPath: configPath,
+    typescriptVersion,
+    ...formatPlanOutput(
+      params.outputFormat,
+      absProjectRoot,
+      edits,
+      fsMoves,
+      getFileText
+    ),
   };
 }
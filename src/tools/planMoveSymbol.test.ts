@@ -0,0 +1,243 @@
+/**
+ * planMoveSymbol のテスト
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { planMoveSymbol } from "./planMoveSymbol.js";
+import { applyPlan } from "./applyPlan.js";
+import { verifyPlan } from "./verifyPlan.js";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import type { FileTextEdits } from "../types.js";
+
+describe("planMoveSymbol", () => {
+  let testProjectDir: string;
+
+  beforeEach(() => {
+    // 編集を書き込むテストがあるため、テストごとにプロジェクトを作る
+    testProjectDir = fs.mkdtempSync(
+      path.join(os.tmpdir(), "plan-move-symbol-test-")
+    );
+
+    fs.writeFileSync(
+      path.join(testProjectDir, "tsconfig.json"),
+      JSON.stringify(
+        {
+          compilerOptions: {
+            target: "ES2020",
+            module: "ESNext",
+            moduleResolution: "node",
+            strict: true,
+            skipLibCheck: true,
+          },
+          include: ["src/**/*.ts"],
+        },
+        null,
+        2
+      )
+    );
+
+    fs.mkdirSync(path.join(testProjectDir, "src"));
+    fs.writeFileSync(
+      path.join(testProjectDir, "src", "format.ts"),
+      `export function format(s: string) {
+  return s.trim();
+}
+`
+    );
+    fs.writeFileSync(
+      path.join(testProjectDir, "src", "user.ts"),
+      `import { format } from "./format";
+
+export type User = { id: string };
+
+export function getUser(id: string): User {
+  return { id: format(id) };
+}
+
+export function other() {
+  return getUser("x");
+}
+`
+    );
+    fs.writeFileSync(
+      path.join(testProjectDir, "src", "api.ts"),
+      `export const api = 1;
+`
+    );
+    fs.writeFileSync(
+      path.join(testProjectDir, "src", "main.ts"),
+      `import { getUser, type User } from "./user";
+
+export const u: User = getUser("a");
+`
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(testProjectDir, { recursive: true, force: true });
+  });
+
+  const readFile = (fileName: string): string =>
+    fs.readFileSync(path.join(testProjectDir, fileName), "utf8");
+  const filePaths = (edits: FileTextEdits[]): string[] =>
+    edits.map(({ filePath }) => path.relative(testProjectDir, filePath)).sort();
+
+  it("既存のファイルへ移動し、移動元・移動先・import しているファイルを編集する", () => {
+    const result = planMoveSymbol({
+      projectRoot: testProjectDir,
+      filePath: "src/user.ts",
+      symbolName: "getUser",
+      targetPath: "src/api.ts",
+    });
+
+    expect(result.canMove).toBe(true);
+    if (!result.canMove) return;
+    expect(filePaths(result.edits)).toEqual([
+      "src/api.ts",
+      "src/main.ts",
+      "src/user.ts",
+    ]);
+    expect(result.edits.every(({ isNewFile }) => !isNewFile)).toBe(true);
+    expect(result.tsconfigPath).toBe(
+      path.join(testProjectDir, "tsconfig.json")
+    );
+
+    applyPlan({ projectRoot: testProjectDir, edits: result.edits });
+    expect(readFile("src/api.ts")).toContain(
+      `export function getUser(id: string): User {
+  return { id: format(id) };
+}`
+    );
+    expect(readFile("src/user.ts")).not.toContain("function getUser");
+    expect(readFile("src/user.ts")).toContain(`from "./api"`);
+    expect(readFile("src/main.ts")).toContain(
+      `import { getUser } from "./api";`
+    );
+  });
+
+  it("存在しないファイルへの移動では isNewFile の編集を返し、適用でファイルを作る", () => {
+    const result = planMoveSymbol({
+      projectRoot: testProjectDir,
+      filePath: "src/user.ts",
+      line: 4,
+      character: 16,
+      targetPath: "src/lib/user-api.ts",
+    });
+
+    expect(result.canMove).toBe(true);
+    if (!result.canMove) return;
+    const created = result.edits.find(({ isNewFile }) => isNewFile);
+    expect(created?.filePath).toBe(
+      path.join(testProjectDir, "src/lib/user-api.ts")
+    );
+    expect(created?.contentHash).toBeUndefined();
+
+    expect(
+      verifyPlan({ projectRoot: testProjectDir, edits: result.edits })
+    ).toMatchObject({ ok: true, newDiagnostics: [] });
+
+    const applied = applyPlan({
+      projectRoot: testProjectDir,
+      edits: result.edits,
+    });
+    expect(applied.writtenFiles).toContain(
+      path.join(testProjectDir, "src/lib/user-api.ts")
+    );
+    expect(readFile("src/lib/user-api.ts")).toContain(
+      `import { format } from "../format";`
+    );
+    expect(readFile("src/lib/user-api.ts")).toContain(
+      `export function getUser(id: string): User {
+  return { id: format(id) };
+}`
+    );
+    expect(readFile("src/main.ts")).toContain(
+      `import { getUser } from "./lib/user-api";`
+    );
+  });
+
+  it("outputFormat に応じて新規作成を含む diff / WorkspaceEdit を返す", () => {
+    const diffResult = planMoveSymbol({
+      projectRoot: testProjectDir,
+      filePath: "src/user.ts",
+      symbolName: "getUser",
+      targetPath: "src/lib/user-api.ts",
+      outputFormat: "unifiedDiff",
+    });
+    expect(diffResult.canMove && diffResult.diff).toContain(
+      `diff --git a/src/lib/user-api.ts b/src/lib/user-api.ts
+new file mode 100644
+--- /dev/null
++++ b/src/lib/user-api.ts`
+    );
+
+    const workspaceEditResult = planMoveSymbol({
+      projectRoot: testProjectDir,
+      filePath: "src/user.ts",
+      symbolName: "getUser",
+      targetPath: "src/lib/user-api.ts",
+      outputFormat: "workspaceEdit",
+    });
+    expect(
+      workspaceEditResult.canMove &&
+        workspaceEditResult.workspaceEdit?.documentChanges[0]
+    ).toMatchObject({
+      kind: "create",
+      uri: expect.stringMatching(/\/src\/lib\/user-api\.ts$/),
+    });
+  });
+
+  it("ファイル直下の宣言以外は移動できない", () => {
+    // import 文の位置
+    expect(
+      planMoveSymbol({
+        projectRoot: testProjectDir,
+        filePath: "src/user.ts",
+        line: 0,
+        character: 10,
+        targetPath: "src/api.ts",
+      })
+    ).toMatchObject({ canMove: false });
+    // 名前が見つからない
+    expect(
+      planMoveSymbol({
+        projectRoot: testProjectDir,
+        filePath: "src/user.ts",
+        symbolName: "missing",
+        targetPath: "src/api.ts",
+      })
+    ).toMatchObject({
+      canMove: false,
+      reason: expect.stringContaining("Top-level symbol not found"),
+    });
+  });
+
+  it("移動先が移動元と同じ場合は移動できない", () => {
+    expect(
+      planMoveSymbol({
+        projectRoot: testProjectDir,
+        filePath: "src/user.ts",
+        symbolName: "getUser",
+        targetPath: "src/user.ts",
+      })
+    ).toMatchObject({
+      canMove: false,
+      reason: expect.stringContaining("same as the source file"),
+    });
+  });
+
+  it("位置も名前も指定しない場合は移動できない", () => {
+    expect(
+      planMoveSymbol({
+        projectRoot: testProjectDir,
+        filePath: "src/user.ts",
+        targetPath: "src/api.ts",
+      })
+    ).toMatchObject({
+      canMove: false,
+      reason: "Either line and character, or symbolName is required",
+    });
+  });
+});
@@ -0,0 +1,301 @@
+/**
+ * planMoveSymbol ツールの実装
+ * ファイル直下の宣言を別のファイルに移動する編集プランを返す
+ */
+
+import ts from "typescript";
+import path from "node:path";
+import { getTsServicesForFile, type TsService } from "../tsService.js";
+import { normalizeTextEdits, withOriginalText } from "../edits.js";
+import { formatPlanOutput } from "../planOutput.js";
+import { findSymbolCandidates } from "../symbols.js";
+import type {
+  PlanMoveSymbolParams,
+  PlanMoveSymbolResult,
+  FileTextEdits,
+  TextEdit,
+} from "../types.js";
+
+/**
+ * TypeScript の "Move to file" リファクタリングの名前（refactorName / actionName 共通）
+ */
+const MOVE_TO_FILE = "Move to file";
+
+/**
+ * シンボルを別のファイルに移動するプランを作成する
+ *
+ * TypeScript の "Move to file" リファクタリングで、位置（または名前）で
+ * 指定したシンボルを含むファイル直下の文を targetPath に移動し、移動元・
+ * 移動先・シンボルを import しているファイルの編集を返す。targetPath が
+ * 存在しない場合は、そのファイルを新規作成する編集（isNewFile）を返す。
+ * リファクタリングは対象ファイルを所有するプロジェクトでだけ計算する。
+ *
+ * @param params 移動パラメータ
+ * @returns 移動可否と編集プラン
+ */
+export function planMoveSymbol(
+  params: PlanMoveSymbolParams
+): PlanMoveSymbolResult {
+  // 1. projectRoot・filePath・targetPath を絶対パスに正規化
+  const absProjectRoot = path.resolve(params.projectRoot);
+  const absFilePath = path.resolve(absProjectRoot, params.filePath);
+  const absTargetPath = path.resolve(absProjectRoot, params.targetPath);
+  if (absTargetPath === absFilePath) {
+    return {
+      canMove: false,
+      reason: `Target is the same as the source file: ${absTargetPath}`,
+    };
+  }
+
+  // 2. 対象ファイルを所有する tsconfig を解決し、キャッシュ済みの service を取得
+  let tsServices: TsService[];
+  let tsconfigPath: string;
+  try {
+    ({ tsServices, configPath: tsconfigPath } = getTsServicesForFile(
+      absProjectRoot,
+      absFilePath,
+      {
+        overlays: params.overlays,
+        tsconfigPath: params.tsconfigPath,
+        typescriptPath: params.typescriptPath,
+        disablePlugins: params.disablePlugins,
+      }
+    ));
+  } catch (error) {
+    return {
+      canMove: false,
+      reason:
+        error instanceof Error ? error.message : "Failed to create TS service",
+    };
+  }
+
+  // 3. ファイル内容を読み込み（オーバーレイ優先）、対象ファイルを含むプロジェクトを選ぶ
+  const { getFileText, typescriptVersion } = tsServices[0];
+  const fileText = getFileText(absFilePath);
+  if (fileText === undefined) {
+    return { canMove: false, reason: `File not found: ${absFilePath}` };
+  }
+  const sourceFile = ts.createSourceFile(
+    absFilePath,
+    fileText,
+    ts.ScriptTarget.Latest,
+    true
+  );
+  const primary =
+    tsServices.find(
+      ({ service }) =>
+        service.getProgram()?.getSourceFile(absFilePath) !== undefined
+    ) ?? tsServices[0];
+
+  // 4. symbolName でファイル直下の宣言を探すか、line / character から位置を計算
+  let pos: number;
+  if (params.symbolName !== undefined) {
+    const candidates = findSymbolCandidates(
+      primary.service,
+      sourceFile,
+      params.symbolName
+    ).filter(({ containerName }) => containerName === undefined);
+    if (candidates.length === 0) {
+      return {
+        canMove: false,
+        reason: `Top-level symbol not found: ${params.symbolName} in ${absFilePath}`,
+      };
+    }
+    if (candidates.length > 1) {
+      return {
+        canMove: false,
+        reason: `Multiple symbols named ${params.symbolName} found in ${absFilePath}; specify line/character`,
+        candidates,
+      };
+    }
+    const { start } = candidates[0].range;
+    pos = ts.getPositionOfLineAndCharacter(
+      sourceFile,
+      start.line,
+      start.character
+    );
+  } else if (params.line !== undefined && params.character !== undefined) {
+    pos = ts.getPositionOfLineAndCharacter(
+      sourceFile,
+      params.line,
+      params.character
+    );
+  } else {
+    return {
+      canMove: false,
+      reason: "Either line and character, or symbolName is required",
+    };
+  }
+
+  // 5. 位置を含むファイル直下の宣言を選ぶ
+  const statement = sourceFile.statements.find(
+    (node) => node.getStart(sourceFile) <= pos && pos < node.end
+  );
+  if (!statement || !isMovableStatement(statement)) {
+    return {
+      canMove: false,
+      reason: `No top-level declaration at ${absFilePath}:${sourceFile.getLineAndCharacterOfPosition(pos).line + 1}`,
+    };
+  }
+
+  // 6. "Move to file" リファクタリングの編集を計算（インデントは移動元に合わせる）
+  let refactorEdits: ts.RefactorEditInfo | undefined;
+  try {
+    refactorEdits = primary.service.getEditsForRefactor(
+      absFilePath,
+      getFormatSettings(fileText),
+      { pos: statement.getStart(sourceFile), end: statement.end },
+      MOVE_TO_FILE,
+      MOVE_TO_FILE,
+      /* preferences */ {},
+      { targetFile: absTargetPath }
+    );
+  } catch (error) {
+    return {
+      canMove: false,
+      reason: `Cannot move this declaration to ${absTargetPath} with TypeScript ${typescriptVersion}: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    };
+  }
+  if (!refactorEdits || refactorEdits.edits.length === 0) {
+    return {
+      canMove: false,
+      reason: `Cannot move this declaration to ${absTargetPath}`,
+    };
+  }
+
+  // 7. FileTextChanges[] を FileTextEdits[] に変換（元の内容のハッシュを付け、
+  //    outputFormat に応じて diff / WorkspaceEdit も付ける）
+  let edits: FileTextEdits[];
+  try {
+    edits = withOriginalText(
+      refactorEdits.edits.map((change) =>
+        toFileTextEdits(
+          change,
+          change.isNewFile ? "" : getFileText(change.fileName)
+        )
+      ),
+      getFileText
+    );
+  } catch (error) {
+    return {
+      canMove: false,
+      reason: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  return {
+    canMove: true,
+    edits,
+    tsconfigPath,
+    typescriptVersion,
+    ...formatPlanOutput(
+      params.outputFormat,
+      absProjectRoot,
+      edits,
+      [],
+      getFileText
+    ),
+  };
+}
+
+/**
+ * "Move to file" で移動できるファイル直下の宣言か
+ *
+ * @param statement ファイル直下の文
+ * @returns 移動できる宣言の場合は true
+ */
+function isMovableStatement(statement: ts.Statement): boolean {
+  return (
+    ts.isFunctionDeclaration(statement) ||
+    ts.isClassDeclaration(statement) ||
+    ts.isInterfaceDeclaration(statement) ||
+    ts.isTypeAliasDeclaration(statement) ||
+    ts.isEnumDeclaration(statement) ||
+    ts.isModuleDeclaration(statement) ||
+    ts.isVariableStatement(statement)
+  );
+}
+
+/**
+ * 移動元のインデント・改行コードに合わせた整形設定を作る
+ *
+ * 移動先に書き出す宣言は整形し直されるため、移動元と同じインデントにする。
+ * インデントのある行が無い場合は TypeScript の既定値（4 スペース）を使う。
+ *
+ * @param text 移動元のファイル内容
+ * @returns 整形設定
+ */
+function getFormatSettings(text: string): ts.FormatCodeSettings {
+  const settings = ts.getDefaultFormatCodeSettings(
+    text.includes("\r\n") ? "\r\n" : "\n"
+  );
+
+  // JSDoc の " * " の行を除き、最も浅いインデントを 1 段とみなす
+  const indents = text
+    .split("\n")
+    .map((line) => /^([ \t]+)[^\s*]/.exec(line)?.[1])
+    .filter((indent) => indent !== undefined);
+  if (indents.some((indent) => indent.startsWith("\t"))) {
+    return { ...settings, convertTabsToSpaces: false };
+  }
+  if (indents.length > 0) {
+    const indentSize = Math.min(...indents.map((indent) => indent.length));
+    return { ...settings, indentSize, tabSize: indentSize };
+  }
+  return settings;
+}
+
+/**
+ * FileTextChanges を FileTextEdits に変換する
+ *
+ * "Move to file" は同じ位置への挿入と削除（import の追加と宣言の削除など）を
+ * 返すことがあるため、同じ位置から始まる編集は返された順に newText をつなげて
+ * 1つの編集にまとめる。
+ *
+ * @param change 1ファイル分の変更
+ * @param fileText 変更前の内容（新規作成するファイルは空文字列）
+ * @returns 位置順に並べた編集
+ * @throws 範囲が重なる編集がある場合
+ */
+function toFileTextEdits(
+  change: ts.FileTextChanges,
+  fileText: string | undefined
+): FileTextEdits {
+  const text = fileText ?? "";
+  const sourceFile = ts.createSourceFile(
+    change.fileName,
+    text,
+    ts.ScriptTarget.Latest,
+    true
+  );
+
+  // 1. 同じ位置から始まる編集を返された順にまとめる（削除・置換は1つまで）
+  const spans: { start: number; end: number; newText: string }[] = [];
+  for (const { span, newText } of change.textChanges) {
+    const end = span.start + span.length;
+    const sameStart = spans.find(({ start }) => start === span.start);
+    if (sameStart && (sameStart.start === sameStart.end || span.length === 0)) {
+      sameStart.end = Math.max(sameStart.end, end);
+      sameStart.newText += newText;
+    } else {
+      spans.push({ start: span.start, end, newText });
+    }
+  }
+
+  // 2. Range に変換し、重なりを確かめる
+  const textEdits: TextEdit[] = spans.map(({ start, end, newText }) => ({
+    range: {
+      start: ts.getLineAndCharacterOfPosition(sourceFile, start),
+      end: ts.getLineAndCharacterOfPosition(sourceFile, end),
+    },
+    newText,
+  }));
+
+  return {
+    filePath: change.fileName,
+    ...(change.isNewFile ? { isNewFile: true } : {}),
+    textEdits: normalizeTextEdits(change.fileName, textEdits),
+  };
+}
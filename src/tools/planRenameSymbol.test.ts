@@ -4,9 +4,16 @@
 
 import { describe, it, expect, beforeAll, afterAll } from "vitest";
 import { planRenameSymbol } from "./planRenameSymbol.js";
+import { hashText } from "../edits.js";
 import fs from "node:fs";
 import path from "node:path";
 import os from "node:os";
+import { createRequire } from "node:module";
+
+// 同梱版と SyntaxKind などの値が異なる TypeScript
+const typescript49Path = createRequire(import.meta.url).resolve(
+  "typescript-4.9"
+);
 
 describe("planRenameSymbol", () => {
   let testProjectDir: string;
@@ -1140,4 +1147,1106 @@ console.log(myVar);
       }
     });
   });
+
+  describe("オーバーレイ", () => {
+    it("should compute ranges against overlay text instead of disk", () => {
+      const overlayText = `// pending edit
+// another pending line
+import { getUserData } from "./foo.js";
+
+export function processUser() {
+  return getUserData();
+}
+`;
+
+      const result = planRenameSymbol({
+        projectRoot: testProjectDir,
+        filePath: "src/foo.ts",
+        line: 0,
+        character: 16,
+        newName: "fetchUserData",
+        overlays: { "src/bar.ts": overlayText },
+      });
+
+      expect(result.canRename).toBe(true);
+      if (result.canRename) {
+        const barEdit = result.edits.find((edit) =>
+          edit.filePath.endsWith("bar.ts")
+        );
+        expect(barEdit?.textEdits.map((e) => e.range.start.line)).toEqual([
+          2, 5,
+        ]);
+      }
+    });
+
+    it("should rename symbols declared only in an overlay", () => {
+      const result = planRenameSymbol({
+        projectRoot: testProjectDir,
+        filePath: "src/unsaved.ts",
+        line: 0,
+        character: 13,
+        newName: "renamedValue",
+        overlays: {
+          [path.join(testProjectDir, "src", "unsaved.ts")]:
+            "export const pendingValue = 1;\nexport const doubled = pendingValue * 2;\n",
+        },
+      });
+
+      expect(result.canRename).toBe(true);
+      if (result.canRename) {
+        expect(result.edits).toHaveLength(1);
+        expect(result.edits[0].textEdits).toHaveLength(2);
+        expect(result.edits[0].textEdits[1].range.start).toEqual({
+          line: 1,
+          character: 23,
+        });
+      }
+    });
+
+    it("should not keep overlays between calls", () => {
+      planRenameSymbol({
+        projectRoot: testProjectDir,
+        filePath: "src/foo.ts",
+        line: 0,
+        character: 16,
+        newName: "fetchUserData",
+        overlays: { "src/foo.ts": "export function other() {}\n" },
+      });
+
+      const result = planRenameSymbol({
+        projectRoot: testProjectDir,
+        filePath: "src/foo.ts",
+        line: 0,
+        character: 16,
+        newName: "fetchUserData",
+      });
+
+      expect(result.canRename).toBe(true);
+      if (result.canRename) {
+        expect(
+          result.edits.some((edit) => edit.filePath.endsWith("bar.ts"))
+        ).toBe(true);
+      }
+    });
+  });
+
+  describe("tsconfigPath", () => {
+    beforeAll(() => {
+      fs.mkdirSync(path.join(testProjectDir, "app"), { recursive: true });
+      fs.writeFileSync(
+        path.join(testProjectDir, "app", "main.ts"),
+        `export const appName = "app";
+export const title = appName.toUpperCase();
+`
+      );
+      fs.writeFileSync(
+        path.join(testProjectDir, "tsconfig.app.json"),
+        JSON.stringify(
+          {
+            compilerOptions: { target: "ES2020", strict: true },
+            include: ["app/**/*.ts"],
+          },
+          null,
+          2
+        )
+      );
+    });
+
+    it("should use the given tsconfig", () => {
+      const result = planRenameSymbol({
+        projectRoot: testProjectDir,
+        tsconfigPath: "tsconfig.app.json",
+        filePath: "app/main.ts",
+        line: 0,
+        character: 13,
+        newName: "applicationName",
+      });
+
+      expect(result.canRename).toBe(true);
+      if (result.canRename) {
+        expect(result.edits).toHaveLength(1);
+        expect(result.edits[0].textEdits).toHaveLength(2);
+      }
+    });
+
+    it("should return canRename: false when the tsconfig does not include the file", () => {
+      const result = planRenameSymbol({
+        projectRoot: testProjectDir,
+        tsconfigPath: "tsconfig.app.json",
+        filePath: "src/foo.ts",
+        line: 0,
+        character: 16,
+        newName: "fetchUserData",
+      });
+
+      expect(result.canRename).toBe(false);
+      if (!result.canRename) {
+        expect(result.reason).toContain("File is not included in");
+        expect(result.reason).toContain("tsconfig.app.json");
+      }
+    });
+
+    it("should return canRename: false when the tsconfig does not exist", () => {
+      const result = planRenameSymbol({
+        projectRoot: testProjectDir,
+        tsconfigPath: "tsconfig.missing.json",
+        filePath: "src/foo.ts",
+        line: 0,
+        character: 16,
+        newName: "fetchUserData",
+      });
+
+      expect(result.canRename).toBe(false);
+      if (!result.canRename) {
+        expect(result.reason).toContain("tsconfig not found");
+      }
+    });
+  });
+
+  describe("project references", () => {
+    let solutionDir: string;
+
+    beforeAll(() => {
+      solutionDir = fs.mkdtempSync(
+        path.join(os.tmpdir(), "ts-rename-solution-")
+      );
+
+      // ルートは "files": [] + references の solution 形式
+      fs.writeFileSync(
+        path.join(solutionDir, "tsconfig.json"),
+        JSON.stringify(
+          {
+            files: [],
+            references: [{ path: "./packages/a" }, { path: "./packages/b" }],
+          },
+          null,
+          2
+        )
+      );
+
+      for (const name of ["a", "b"]) {
+        fs.mkdirSync(path.join(solutionDir, "packages", name, "src"), {
+          recursive: true,
+        });
+        fs.writeFileSync(
+          path.join(solutionDir, "packages", name, "tsconfig.json"),
+          JSON.stringify(
+            {
+              compilerOptions: {
+                composite: true,
+                target: "ES2020",
+                module: "ESNext",
+                moduleResolution: "node",
+                rootDir: "src",
+                outDir: "dist",
+              },
+              include: ["src"],
+              references: name === "b" ? [{ path: "../a" }] : undefined,
+            },
+            null,
+            2
+          )
+        );
+      }
+
+      fs.writeFileSync(
+        path.join(solutionDir, "packages", "a", "src", "index.ts"),
+        `export function greet(name: string) {
+  return name;
+}
+`
+      );
+      fs.writeFileSync(
+        path.join(solutionDir, "packages", "b", "src", "main.ts"),
+        `import { greet } from "../../a/src/index.js";
+
+export const message = greet("b");
+`
+      );
+    });
+
+    afterAll(() => {
+      fs.rmSync(solutionDir, { recursive: true, force: true });
+    });
+
+    it("should merge rename locations across referenced projects", () => {
+      const result = planRenameSymbol({
+        projectRoot: solutionDir,
+        filePath: "packages/a/src/index.ts",
+        line: 0,
+        character: 16,
+        newName: "sayHello",
+      });
+
+      expect(result.canRename).toBe(true);
+      if (result.canRename) {
+        const aEdit = result.edits.find((edit) =>
+          edit.filePath.endsWith(path.join("a", "src", "index.ts"))
+        );
+        const bEdit = result.edits.find((edit) =>
+          edit.filePath.endsWith(path.join("b", "src", "main.ts"))
+        );
+        // 同じ箇所が重複しないこと
+        expect(aEdit?.textEdits).toHaveLength(1);
+        expect(bEdit?.textEdits).toHaveLength(2);
+      }
+    });
+  });
+
+  describe("tsconfig の自動選択", () => {
+    beforeAll(() => {
+      fs.mkdirSync(path.join(testProjectDir, "tests"), { recursive: true });
+      fs.writeFileSync(
+        path.join(testProjectDir, "tests", "tsconfig.json"),
+        JSON.stringify(
+          {
+            compilerOptions: { target: "ES2020", strict: true },
+            include: ["*.ts"],
+          },
+          null,
+          2
+        )
+      );
+      fs.writeFileSync(
+        path.join(testProjectDir, "tests", "fixture.ts"),
+        `export const fixture = 1;
+export const copy = fixture;
+`
+      );
+    });
+
+    it("should report the project root tsconfig for files it owns", () => {
+      const result = planRenameSymbol({
+        projectRoot: testProjectDir,
+        filePath: "src/foo.ts",
+        line: 0,
+        character: 16,
+        newName: "fetchUserData",
+      });
+
+      expect(result.canRename).toBe(true);
+      if (result.canRename) {
+        expect(result.tsconfigPath).toBe(
+          path.join(testProjectDir, "tsconfig.json")
+        );
+      }
+    });
+
+    it("should use the nearest tsconfig that includes the file", () => {
+      const result = planRenameSymbol({
+        projectRoot: testProjectDir,
+        filePath: "tests/fixture.ts",
+        line: 0,
+        character: 13,
+        newName: "sample",
+      });
+
+      expect(result.canRename).toBe(true);
+      if (result.canRename) {
+        expect(result.tsconfigPath).toBe(
+          path.join(testProjectDir, "tests", "tsconfig.json")
+        );
+        expect(result.edits[0].textEdits).toHaveLength(2);
+      }
+    });
+  });
+
+  describe("symbolName による指定", () => {
+    beforeAll(() => {
+      fs.mkdirSync(path.join(testProjectDir, "named"), { recursive: true });
+      fs.writeFileSync(
+        path.join(testProjectDir, "named", "api.ts"),
+        `export function fetchUser(id: string): string;
+export function fetchUser(id: number): string;
+export function fetchUser(id: string | number): string {
+  return String(id);
+}
+
+export class UserService {
+  load() {
+    return fetchUser(1);
+  }
+}
+
+export class AdminService {
+  load() {
+    return fetchUser("admin");
+  }
+}
+`
+      );
+      fs.writeFileSync(
+        path.join(testProjectDir, "named", "usage.ts"),
+        `import { fetchUser, UserService } from "./api.js";
+
+fetchUser(2);
+new UserService().load();
+`
+      );
+    });
+
+    it("line/character 無しで宣言名からリネームできる", () => {
+      const result = planRenameSymbol({
+        projectRoot: testProjectDir,
+        filePath: "named/api.ts",
+        symbolName: "fetchUser",
+        newName: "loadUser",
+      });
+
+      expect(result.canRename).toBe(true);
+      if (result.canRename) {
+        const apiEdit = result.edits.find((edit) =>
+          edit.filePath.endsWith(path.join("named", "api.ts"))
+        );
+        const usageEdit = result.edits.find((edit) =>
+          edit.filePath.endsWith(path.join("named", "usage.ts"))
+        );
+        // オーバーロード 3 つと呼び出し 2 つ
+        expect(apiEdit?.textEdits).toHaveLength(5);
+        expect(usageEdit?.textEdits).toHaveLength(2);
+      }
+    });
+
+    it("同名の宣言が複数ある場合は候補を返す", () => {
+      const result = planRenameSymbol({
+        projectRoot: testProjectDir,
+        filePath: "named/api.ts",
+        symbolName: "load",
+        newName: "reload",
+      });
+
+      expect(result.canRename).toBe(false);
+      if (!result.canRename) {
+        expect(result.reason).toMatch(/Multiple symbols named load/);
+        expect(result.candidates).toEqual([
+          {
+            name: "load",
+            kind: "method",
+            containerName: "UserService",
+            range: {
+              start: { line: 7, character: 2 },
+              end: { line: 7, character: 6 },
+            },
+          },
+          {
+            name: "load",
+            kind: "method",
+            containerName: "AdminService",
+            range: {
+              start: { line: 13, character: 2 },
+              end: { line: 13, character: 6 },
+            },
+          },
+        ]);
+      }
+    });
+
+    it("containerName で候補を絞り込める", () => {
+      const result = planRenameSymbol({
+        projectRoot: testProjectDir,
+        filePath: "named/api.ts",
+        symbolName: "load",
+        containerName: "UserService",
+        newName: "reload",
+      });
+
+      expect(result.canRename).toBe(true);
+      if (result.canRename) {
+        const usageEdit = result.edits.find((edit) =>
+          edit.filePath.endsWith(path.join("named", "usage.ts"))
+        );
+        expect(usageEdit?.textEdits[0].range.start).toEqual({
+          line: 3,
+          character: 18,
+        });
+        const apiEdit = result.edits.find((edit) =>
+          edit.filePath.endsWith(path.join("named", "api.ts"))
+        );
+        expect(apiEdit?.textEdits.map((e) => e.range.start.line)).toEqual([7]);
+      }
+    });
+
+    it("ドット区切りの symbolName でコンテナを指定できる", () => {
+      const result = planRenameSymbol({
+        projectRoot: testProjectDir,
+        filePath: "named/api.ts",
+        symbolName: "AdminService.load",
+        newName: "reload",
+      });
+
+      expect(result.canRename).toBe(true);
+      if (result.canRename) {
+        expect(result.edits).toHaveLength(1);
+        expect(result.edits[0].textEdits[0].range.start).toEqual({
+          line: 13,
+          character: 2,
+        });
+      }
+    });
+
+    it("見つからない場合はエラーを返す", () => {
+      const result = planRenameSymbol({
+        projectRoot: testProjectDir,
+        filePath: "named/api.ts",
+        symbolName: "missing",
+        newName: "renamed",
+      });
+
+      expect(result.canRename).toBe(false);
+      if (!result.canRename) {
+        expect(result.reason).toMatch(/Symbol not found: missing/);
+        expect(result.candidates).toBeUndefined();
+      }
+    });
+
+    it("line/character も symbolName も無い場合はエラーを返す", () => {
+      const result = planRenameSymbol({
+        projectRoot: testProjectDir,
+        filePath: "named/api.ts",
+        newName: "renamed",
+      });
+
+      expect(result).toEqual({
+        canRename: false,
+        reason: "Either line and character, or symbolName is required",
+      });
+    });
+  });
+
+  describe("名前の衝突", () => {
+    beforeAll(() => {
+      fs.mkdirSync(path.join(testProjectDir, "collision"), {
+        recursive: true,
+      });
+      fs.writeFileSync(
+        path.join(testProjectDir, "collision", "scope.ts"),
+        `const limit = 10;
+const total = 5;
+
+export function compute(count: number) {
+  const factor = 2;
+  return count * factor + limit;
+}
+
+export function outer(value: number) {
+  function inner() {
+    const offset = 1;
+    return value + offset;
+  }
+  return inner();
+}
+`
+      );
+      fs.writeFileSync(
+        path.join(testProjectDir, "collision", "members.ts"),
+        `export class Counter {
+  count = 0;
+  step = 1;
+
+  increment() {
+    this.count += this.step;
+  }
+}
+
+export const first = 1;
+export const second = 2;
+`
+      );
+      fs.writeFileSync(
+        path.join(testProjectDir, "collision", "api.ts"),
+        `export function fetchUser() {}
+export function helper(value: number) {
+  return value;
+}
+export type T = string;
+`
+      );
+      fs.writeFileSync(
+        path.join(testProjectDir, "collision", "imports.ts"),
+        `import { fetchUser, helper } from "./api";
+import type { T } from "./api";
+
+export const data = fetchUser();
+export type z = number;
+export const label: T = "label";
+
+export function run(a: number) {
+  const c = 1;
+  return helper(a) + c;
+}
+`
+      );
+    });
+
+    it("同じスコープに newName がある場合はリネームしない", () => {
+      // total → limit
+      const result = planRenameSymbol({
+        projectRoot: testProjectDir,
+        filePath: "collision/scope.ts",
+        line: 1,
+        character: 6,
+        newName: "limit",
+      });
+
+      expect(result.canRename).toBe(false);
+      if (!result.canRename) {
+        expect(result.reason).toBe(
+          "limit conflicts with existing declarations"
+        );
+        expect(result.collisions).toEqual([
+          {
+            kind: "duplicate",
+            filePath: path.join(testProjectDir, "collision", "scope.ts"),
+            range: {
+              start: { line: 0, character: 6 },
+              end: { line: 0, character: 11 },
+            },
+            message: "limit is already declared in the same scope",
+          },
+        ]);
+      }
+    });
+
+    it("外側の変数への参照が捕捉される場合はリネームしない", () => {
+      // factor → limit（関数内の limit 参照が factor を指すようになる）
+      const result = planRenameSymbol({
+        projectRoot: testProjectDir,
+        filePath: "collision/scope.ts",
+        line: 4,
+        character: 8,
+        newName: "limit",
+      });
+
+      expect(result.canRename).toBe(false);
+      if (!result.canRename) {
+        expect(result.collisions).toMatchObject([
+          {
+            kind: "capture",
+            range: {
+              start: { line: 5, character: 26 },
+              end: { line: 5, character: 31 },
+            },
+          },
+        ]);
+      }
+    });
+
+    it("参照が内側の宣言に解決される場合はリネームしない", () => {
+      // value → offset（inner 内の value 参照が offset を指すようになる）
+      const result = planRenameSymbol({
+        projectRoot: testProjectDir,
+        filePath: "collision/scope.ts",
+        line: 8,
+        character: 22,
+        newName: "offset",
+      });
+
+      expect(result.canRename).toBe(false);
+      if (!result.canRename) {
+        expect(result.collisions).toMatchObject([
+          {
+            kind: "capture",
+            range: {
+              start: { line: 10, character: 10 },
+              end: { line: 10, character: 16 },
+            },
+          },
+        ]);
+      }
+    });
+
+    it("参照の変わらないシャドーイングは警告として返す", () => {
+      // offset → total（外側の total は inner 内で使われていない）
+      const result = planRenameSymbol({
+        projectRoot: testProjectDir,
+        filePath: "collision/scope.ts",
+        line: 10,
+        character: 10,
+        newName: "total",
+      });
+
+      expect(result.canRename).toBe(true);
+      if (result.canRename) {
+        expect(result.warnings).toEqual([
+          {
+            kind: "shadow",
+            filePath: path.join(testProjectDir, "collision", "scope.ts"),
+            range: {
+              start: { line: 1, character: 6 },
+              end: { line: 1, character: 11 },
+            },
+            message: "The renamed symbol would shadow this total",
+          },
+        ]);
+      }
+    });
+
+    it("import した名前と重複する場合はリネームしない", () => {
+      // data → fetchUser（値の import）
+      const value = planRenameSymbol({
+        projectRoot: testProjectDir,
+        filePath: "collision/imports.ts",
+        line: 3,
+        character: 13,
+        newName: "fetchUser",
+      });
+
+      expect(value.canRename).toBe(false);
+      if (!value.canRename) {
+        expect(value.collisions).toEqual([
+          {
+            kind: "duplicate",
+            filePath: path.join(testProjectDir, "collision", "imports.ts"),
+            range: {
+              start: { line: 0, character: 9 },
+              end: { line: 0, character: 18 },
+            },
+            message: "fetchUser is already declared in the same scope",
+          },
+        ]);
+      }
+
+      // z → T（型の import）
+      const type = planRenameSymbol({
+        projectRoot: testProjectDir,
+        filePath: "collision/imports.ts",
+        line: 4,
+        character: 12,
+        newName: "T",
+      });
+
+      expect(type.canRename).toBe(false);
+      if (!type.canRename) {
+        expect(type.collisions).toMatchObject([
+          {
+            kind: "duplicate",
+            range: {
+              start: { line: 1, character: 14 },
+              end: { line: 1, character: 15 },
+            },
+          },
+        ]);
+      }
+    });
+
+    it("import した名前への参照が内側の宣言に捕捉される場合はリネームしない", () => {
+      // c → helper（helper(a) の呼び出しが c を指すようになる）
+      const result = planRenameSymbol({
+        projectRoot: testProjectDir,
+        filePath: "collision/imports.ts",
+        line: 8,
+        character: 8,
+        newName: "helper",
+      });
+
+      expect(result.canRename).toBe(false);
+      if (!result.canRename) {
+        expect(result.collisions).toMatchObject([
+          {
+            kind: "capture",
+            range: {
+              start: { line: 9, character: 9 },
+              end: { line: 9, character: 15 },
+            },
+          },
+        ]);
+      }
+    });
+
+    it("同じ型に同名のメンバーがある場合はリネームしない", () => {
+      // step → count
+      const result = planRenameSymbol({
+        projectRoot: testProjectDir,
+        filePath: "collision/members.ts",
+        line: 2,
+        character: 2,
+        newName: "count",
+      });
+
+      expect(result.canRename).toBe(false);
+      if (!result.canRename) {
+        expect(result.collisions).toMatchObject([
+          {
+            kind: "member",
+            range: {
+              start: { line: 1, character: 2 },
+              end: { line: 1, character: 7 },
+            },
+          },
+        ]);
+      }
+    });
+
+    it("エクスポート名が重複する場合はリネームしない", () => {
+      // second → first
+      const result = planRenameSymbol({
+        projectRoot: testProjectDir,
+        filePath: "collision/members.ts",
+        line: 10,
+        character: 13,
+        newName: "first",
+      });
+
+      expect(result.canRename).toBe(false);
+      if (!result.canRename) {
+        expect(result.collisions?.map((c) => c.range.start)).toEqual([
+          { line: 9, character: 13 },
+        ]);
+      }
+    });
+
+    it("allowCollisions: true の場合は衝突を警告にして編集を返す", () => {
+      const result = planRenameSymbol({
+        projectRoot: testProjectDir,
+        filePath: "collision/scope.ts",
+        line: 1,
+        character: 6,
+        newName: "limit",
+        allowCollisions: true,
+      });
+
+      expect(result.canRename).toBe(true);
+      if (result.canRename) {
+        expect(result.edits).toHaveLength(1);
+        expect(result.warnings?.map((w) => w.kind)).toEqual(["duplicate"]);
+      }
+    });
+
+    it("同梱版と異なるバージョンの TypeScript でも衝突を検出する", () => {
+      // second → first（同じスコープの宣言との重複）
+      const exported = planRenameSymbol({
+        projectRoot: testProjectDir,
+        filePath: "collision/members.ts",
+        line: 10,
+        character: 13,
+        newName: "first",
+        typescriptPath: typescript49Path,
+      });
+      expect(exported).toMatchObject({
+        canRename: false,
+        collisions: [{ range: { start: { line: 9, character: 13 } } }],
+      });
+
+      // factor → limit（外側の変数への参照の捕捉）
+      const captured = planRenameSymbol({
+        projectRoot: testProjectDir,
+        filePath: "collision/scope.ts",
+        line: 4,
+        character: 8,
+        newName: "limit",
+        typescriptPath: typescript49Path,
+      });
+      expect(captured).toMatchObject({
+        canRename: false,
+        collisions: [{ kind: "capture" }],
+      });
+    });
+
+    it("衝突が無い場合は warnings を含まない", () => {
+      const result = planRenameSymbol({
+        projectRoot: testProjectDir,
+        filePath: "collision/scope.ts",
+        line: 1,
+        character: 6,
+        newName: "sum",
+      });
+
+      expect(result.canRename).toBe(true);
+      if (result.canRename) {
+        expect(result.warnings).toBeUndefined();
+      }
+    });
+  });
+
+  describe("newName の検証", () => {
+    beforeAll(() => {
+      fs.mkdirSync(path.join(testProjectDir, "naming"), { recursive: true });
+      fs.writeFileSync(
+        path.join(testProjectDir, "naming", "names.ts"),
+        `export function fetchData() {
+  return 1;
+}
+
+export class Widget {
+  #secret = 1;
+  label = "a";
+
+  reveal() {
+    return this.#secret;
+  }
+}
+
+export const config = {
+  mode: "dev",
+};
+
+const settings: { theme: string } = { theme: "dark" };
+export const theme = settings["theme"];
+`
+      );
+    });
+
+    const rename = (line: number, character: number, newName: string) =>
+      planRenameSymbol({
+        projectRoot: testProjectDir,
+        filePath: "naming/names.ts",
+        line,
+        character,
+        newName,
+      });
+
+    it.each([
+      ["my-func", "invalidIdentifier"],
+      ["123abc", "invalidIdentifier"],
+      ["", "empty"],
+      ["class", "reservedWord"],
+      ["let", "strictModeReservedWord"],
+      ["arguments", "strictModeReservedWord"],
+      ['"fetch"', "quotedNameNotAllowed"],
+      ["#fetch", "privateNameNotAllowed"],
+    ])("関数名に %j は使えない（%s）", (newName, code) => {
+      const result = rename(0, 16, newName);
+
+      expect(result.canRename).toBe(false);
+      if (!result.canRename) {
+        expect(result.nameError?.code).toBe(code);
+        expect(result.reason).toBe(result.nameError?.message);
+      }
+    });
+
+    it("文脈キーワードは関数名に使える", () => {
+      expect(rename(0, 16, "type").canRename).toBe(true);
+    });
+
+    it("組み込みの型名はクラス名に使えない", () => {
+      const result = rename(4, 13, "string");
+
+      expect(result.canRename).toBe(false);
+      if (!result.canRename) {
+        expect(result.nameError?.code).toBe("reservedTypeName");
+      }
+    });
+
+    it("予約語はプロパティ名に使える", () => {
+      const result = rename(6, 2, "default");
+
+      expect(result.canRename).toBe(true);
+    });
+
+    it("private フィールドは # 付きの名前が必要", () => {
+      const invalid = rename(5, 2, "hidden");
+      expect(invalid.canRename).toBe(false);
+      if (!invalid.canRename) {
+        expect(invalid.nameError?.code).toBe("privateNameRequired");
+      }
+
+      const valid = rename(5, 2, "#hidden");
+      expect(valid.canRename).toBe(true);
+      if (valid.canRename) {
+        expect(valid.edits[0].textEdits.map((edit) => edit.newText)).toEqual([
+          "#hidden",
+          "#hidden",
+        ]);
+      }
+    });
+
+    it("識別子でないプロパティ名は引用符付きで指定する", () => {
+      const unquoted = rename(14, 2, "build-mode");
+      expect(unquoted.canRename).toBe(false);
+      if (!unquoted.canRename) {
+        expect(unquoted.nameError?.code).toBe("invalidIdentifier");
+      }
+
+      const quoted = rename(14, 2, '"build-mode"');
+      expect(quoted.canRename).toBe(true);
+      if (quoted.canRename) {
+        expect(quoted.edits[0].textEdits).toEqual([
+          {
+            range: {
+              start: { line: 14, character: 2 },
+              end: { line: 14, character: 6 },
+            },
+            newText: '"build-mode"',
+            oldText: "mode",
+          },
+        ]);
+      }
+    });
+
+    it("文字列リテラル内の参照は引用符の中身で置き換える", () => {
+      const result = rename(17, 18, '"color-theme"');
+
+      expect(result.canRename).toBe(true);
+      if (result.canRename) {
+        expect(result.edits[0].textEdits.map((edit) => edit.newText)).toEqual([
+          '"color-theme"',
+          '"color-theme"',
+          "color-theme",
+        ]);
+      }
+    });
+
+    it("ドット記法で参照されるプロパティは引用符付きの名前にできない", () => {
+      const result = rename(6, 2, '"display-label"');
+
+      expect(result.canRename).toBe(true);
+
+      fs.writeFileSync(
+        path.join(testProjectDir, "naming", "usage.ts"),
+        `import { Widget } from "./names.js";
+
+export const label = new Widget().label;
+`
+      );
+      const blocked = rename(6, 2, '"display-label"');
+      fs.rmSync(path.join(testProjectDir, "naming", "usage.ts"));
+
+      expect(blocked.canRename).toBe(false);
+      if (!blocked.canRename) {
+        expect(blocked.nameError?.code).toBe("quotedNameNotAllowed");
+      }
+    });
+  });
+
+  describe("prefixText / suffixText", () => {
+    beforeAll(() => {
+      fs.mkdirSync(path.join(testProjectDir, "prefix"), { recursive: true });
+      fs.writeFileSync(
+        path.join(testProjectDir, "prefix", "user.ts"),
+        `const user = { id: 1 };
+
+export const payload = { user };
+export { user };
+`
+      );
+      fs.writeFileSync(
+        path.join(testProjectDir, "prefix", "main.ts"),
+        `import { user } from "./user.js";
+
+export const id = user.id;
+`
+      );
+    });
+
+    const userPath = (): string =>
+      path.join(testProjectDir, "prefix", "user.ts");
+    const mainPath = (): string =>
+      path.join(testProjectDir, "prefix", "main.ts");
+
+    it("短縮プロパティと export の外部向けの名前を保つ", () => {
+      const result = planRenameSymbol({
+        projectRoot: testProjectDir,
+        filePath: "prefix/user.ts",
+        line: 0,
+        character: 6,
+        newName: "account",
+        usePrefixAndSuffixText: true,
+      });
+
+      expect(result.canRename).toBe(true);
+      if (result.canRename) {
+        expect(result.edits).toEqual([
+          {
+            filePath: userPath(),
+            contentHash: hashText(fs.readFileSync(userPath(), "utf8")),
+            textEdits: [
+              {
+                range: {
+                  start: { line: 0, character: 6 },
+                  end: { line: 0, character: 10 },
+                },
+                newText: "account",
+                oldText: "user",
+              },
+              {
+                range: {
+                  start: { line: 2, character: 25 },
+                  end: { line: 2, character: 29 },
+                },
+                newText: "user: account",
+                oldText: "user",
+              },
+              {
+                range: {
+                  start: { line: 3, character: 9 },
+                  end: { line: 3, character: 13 },
+                },
+                newText: "account as user",
+                oldText: "user",
+              },
+            ],
+          },
+        ]);
+      }
+    });
+
+    it("import 側では別名の import にする", () => {
+      const result = planRenameSymbol({
+        projectRoot: testProjectDir,
+        filePath: "prefix/main.ts",
+        line: 0,
+        character: 9,
+        newName: "member",
+        usePrefixAndSuffixText: true,
+      });
+
+      expect(result.canRename).toBe(true);
+      if (result.canRename) {
+        expect(result.edits).toHaveLength(1);
+        expect(result.edits[0].filePath).toBe(mainPath());
+        expect(result.edits[0].textEdits.map((edit) => edit.newText)).toEqual([
+          "user as member",
+          "member",
+        ]);
+      }
+    });
+
+    it("デフォルトでは外部向けの名前も含めてリネームする", () => {
+      const result = planRenameSymbol({
+        projectRoot: testProjectDir,
+        filePath: "prefix/user.ts",
+        line: 0,
+        character: 6,
+        newName: "account",
+      });
+
+      expect(result.canRename).toBe(true);
+      if (result.canRename) {
+        const filePaths = result.edits.map((edit) => edit.filePath);
+        expect(filePaths).toContain(mainPath());
+        expect(
+          result.edits
+            .flatMap((edit) => edit.textEdits)
+            .every((edit) => edit.newText === "account")
+        ).toBe(true);
+      }
+    });
+  });
+
+  describe("outputFormat", () => {
+    it("unifiedDiff では編集を diff にしたものも返す", () => {
+      const result = planRenameSymbol({
+        projectRoot: testProjectDir,
+        filePath: "src/foo.ts",
+        line: 0,
+        character: 16,
+        newName: "fetchUserData",
+        outputFormat: "unifiedDiff",
+      });
+
+      expect(result.canRename).toBe(true);
+      if (result.canRename) {
+        expect(result.diff).toContain(`diff --git a/src/foo.ts b/src/foo.ts
+--- a/src/foo.ts
++++ b/src/foo.ts
+@@ -1,3 +1,3 @@
+-export function getUserData() {
++export function fetchUserData() {
+   return { name: "test" };
+ }
+`);
+        expect(result.diff).toContain("+++ b/src/bar.ts");
+      }
+    });
+  });
 });
@@ -5,14 +5,23 @@
 
 import ts from "typescript";
 import path from "node:path";
-import fs from "node:fs";
-import { createTsService } from "../tsService.js";
+import { getTsServicesForFile, type TsService } from "../tsService.js";
+import { dedupeRenameLocations, withOriginalText } from "../edits.js";
+import { formatPlanOutput } from "../planOutput.js";
+import { findSymbolCandidates } from "../symbols.js";
+import { findNameCollisions } from "../renameCollisions.js";
+import {
+  validateNewName,
+  parseQuotedName,
+  getQuotedNameText,
+} from "../newName.js";
 import type {
   PlanRenameSymbolParams,
   PlanRenameSymbolResult,
-  FileTextEdits,
   TextEdit,
   Range,
+  NameCollision,
+  NewNameError,
 } from "../types.js";
 
 /**
@@ -27,11 +36,25 @@ export function planRenameSymbol(
   // 1. projectRoot を絶対パスに正規化
   const absProjectRoot = path.resolve(params.projectRoot);
 
-  // 2. createTsService で service を取得
-  let service: ts.LanguageService;
+  // 2. filePath を絶対パスに正規化
+  const absFilePath = path.isAbsolute(params.filePath)
+    ? params.filePath
+    : path.resolve(absProjectRoot, params.filePath);
+
+  // 3. 対象ファイルを所有する tsconfig を解決し、キャッシュ済みの service を取得
+  let tsServices: TsService[];
+  let tsconfigPath: string;
   try {
-    const tsServiceResult = createTsService(absProjectRoot);
-    service = tsServiceResult.service;
+    ({ tsServices, configPath: tsconfigPath } = getTsServicesForFile(
+      absProjectRoot,
+      absFilePath,
+      {
+        overlays: params.overlays,
+        tsconfigPath: params.tsconfigPath,
+        typescriptPath: params.typescriptPath,
+        disablePlugins: params.disablePlugins,
+      }
+    ));
   } catch (error) {
     return {
       canRename: false,
@@ -40,20 +63,16 @@ export function planRenameSymbol(
     };
   }
 
-  // 3. filePath を絶対パスに正規化
-  const absFilePath = path.isAbsolute(params.filePath)
-    ? params.filePath
-    : path.resolve(absProjectRoot, params.filePath);
-
-  // 4. ファイル内容を読み込み
-  if (!fs.existsSync(absFilePath)) {
+  // 4. ファイル内容を読み込み（オーバーレイ優先）
+  const { getFileText, typescriptVersion } = tsServices[0];
+  const fileText = getFileText(absFilePath);
+  if (fileText === undefined) {
     return {
       canRename: false,
       reason: `File not found: ${absFilePath}`,
     };
   }
 
-  const fileText = fs.readFileSync(absFilePath, "utf8");
   const sourceFile = ts.createSourceFile(
     absFilePath,
     fileText,
@@ -61,15 +80,56 @@ export function planRenameSymbol(
     true
   );
 
-  // 5. ts.getPositionOfLineAndCharacter で位置を計算
-  const pos = ts.getPositionOfLineAndCharacter(
-    sourceFile,
-    params.line,
-    params.character
+  // 5. 対象ファイルを含むプロジェクトを選ぶ
+  const owners = tsServices.filter(
+    ({ service }) =>
+      service.getProgram()?.getSourceFile(absFilePath) !== undefined
   );
+  const primary = owners[0] ?? tsServices[0];
 
-  // 6. service.getRenameInfo() でリネーム可否を確認
-  const renameInfo = service.getRenameInfo(absFilePath, pos);
+  // 6. symbolName で宣言を探すか、ts.getPositionOfLineAndCharacter で位置を計算
+  let pos: number;
+  if (params.symbolName !== undefined) {
+    const candidates = findSymbolCandidates(
+      primary.service,
+      sourceFile,
+      params.symbolName,
+      params.containerName
+    );
+    if (candidates.length === 0) {
+      return {
+        canRename: false,
+        reason: `Symbol not found: ${params.symbolName} in ${absFilePath}`,
+      };
+    }
+    if (candidates.length > 1) {
+      return {
+        canRename: false,
+        reason: `Multiple symbols named ${params.symbolName} found in ${absFilePath}; specify containerName or line/character`,
+        candidates,
+      };
+    }
+    const { start } = candidates[0].range;
+    pos = ts.getPositionOfLineAndCharacter(
+      sourceFile,
+      start.line,
+      start.character
+    );
+  } else if (params.line !== undefined && params.character !== undefined) {
+    pos = ts.getPositionOfLineAndCharacter(
+      sourceFile,
+      params.line,
+      params.character
+    );
+  } else {
+    return {
+      canRename: false,
+      reason: "Either line and character, or symbolName is required",
+    };
+  }
+
+  // 7. getRenameInfo() でリネーム可否と、newName がシンボルの名前として使えるかを確認
+  const renameInfo = primary.service.getRenameInfo(absFilePath, pos);
 
   if (!renameInfo.canRename) {
     return {
@@ -79,28 +139,72 @@ export function planRenameSymbol(
     };
   }
 
-  // 7. service.findRenameLocations() でリネーム箇所を取得
-  const locations =
-    service.findRenameLocations(
-      absFilePath,
-      pos,
-      params.findInStrings ?? false,
-      params.findInComments ?? false,
-      false // providePrefixAndSuffixTextForRename
-    ) ?? [];
+  const nameError = validateNewName(
+    renameInfo.kind,
+    renameInfo.displayName,
+    params.newName
+  );
+  if (nameError) {
+    return { canRename: false, reason: nameError.message, nameError };
+  }
+  // プロパティを "my-key" のような引用符付きの名前にする場合の中身
+  const quotedName = parseQuotedName(params.newName);
 
-  // 8. 各 location を TextEdit に変換し、fileName ごとにまとめる
+  // 8. 各プロジェクトで findRenameLocations() を呼び、リネーム箇所をマージ
+  const locations = dedupeRenameLocations(
+    (owners.length > 0 ? owners : [primary]).flatMap(
+      ({ service }) =>
+        service.findRenameLocations(
+          absFilePath,
+          pos,
+          params.findInStrings ?? false,
+          params.findInComments ?? false,
+          params.usePrefixAndSuffixText ?? false
+        ) ?? []
+    )
+  );
+
+  // 9. newName が各リネーム箇所のスコープ・型・モジュールの既存の宣言と衝突しないか確認
+  const collisionKeys = new Set<string>();
+  const collisions: NameCollision[] = [];
+  for (const { service, tsModule } of owners.length > 0 ? owners : [primary]) {
+    const program = service.getProgram();
+    if (!program) continue;
+
+    for (const collision of findNameCollisions(
+      tsModule,
+      program,
+      locations,
+      quotedName ?? params.newName
+    )) {
+      const key = `${collision.filePath}:${collision.range.start.line}:${collision.range.start.character}`;
+      if (collisionKeys.has(key)) continue;
+      collisionKeys.add(key);
+      collisions.push(collision);
+    }
+  }
+
+  const blocking = collisions.filter(({ kind }) => kind !== "shadow");
+  if (blocking.length > 0 && !params.allowCollisions) {
+    return {
+      canRename: false,
+      reason: `${params.newName} conflicts with existing declarations`,
+      collisions,
+    };
+  }
+
+  // 10. 各 location を TextEdit に変換し、fileName ごとにまとめる
   const editsByFile = new Map<string, TextEdit[]>();
 
   for (const location of locations) {
     const fileName = location.fileName;
 
-    // ファイルのテキストを読み込む
-    if (!fs.existsSync(fileName)) {
+    // ファイルのテキストを読み込む（オーバーレイ優先）
+    const locationFileText = getFileText(fileName);
+    if (locationFileText === undefined) {
       continue;
     }
 
-    const locationFileText = fs.readFileSync(fileName, "utf8");
     const locationSourceFile = ts.createSourceFile(
       fileName,
       locationFileText,
@@ -129,10 +233,28 @@ export function planRenameSymbol(
       },
     };
 
-    // TextEdit を構築
+    // 引用符付きの名前は、宣言では引用符付き・文字列内では中身で置き換える
+    const nameText =
+      quotedName === undefined
+        ? params.newName
+        : getQuotedNameText(
+            locationSourceFile,
+            location.textSpan.start,
+            params.newName
+          );
+    if (nameText === undefined) {
+      const error: NewNameError = {
+        code: "quotedNameNotAllowed",
+        message: `${params.newName} cannot be written at ${fileName}:${start.line + 1}:${start.character + 1} (dot access or shorthand property)`,
+      };
+      return { canRename: false, reason: error.message, nameError: error };
+    }
+
+    // TextEdit を構築（{ user: account } や export { account as user } の
+    // ように外部向けの名前を保つ場合は prefixText / suffixText を付ける）
     const textEdit: TextEdit = {
       range,
-      newText: params.newName,
+      newText: `${location.prefixText ?? ""}${nameText}${location.suffixText ?? ""}`,
     };
 
     // fileName ごとにまとめる
@@ -141,16 +263,28 @@ export function planRenameSymbol(
     editsByFile.set(fileName, edits);
   }
 
-  // 9. FileTextEdits[] を構築
-  const fileTextEdits: FileTextEdits[] = Array.from(editsByFile.entries()).map(
-    ([filePath, textEdits]) => ({
+  // 11. FileTextEdits[] を構築（元の内容のハッシュを付け、outputFormat に応じて
+  //     diff / WorkspaceEdit も付ける）
+  const fileTextEdits = withOriginalText(
+    Array.from(editsByFile.entries()).map(([filePath, textEdits]) => ({
       filePath,
       textEdits,
-    })
+    })),
+    getFileText
   );
 
   return {
     canRename: true,
     edits: fileTextEdits,
+    tsconfigPath,
+    typescriptVersion,
+    ...(collisions.length > 0 ? { warnings: collisions } : {}),
+    ...formatPlanOutput(
+      params.outputFormat,
+      absProjectRoot,
+      fileTextEdits,
+      [],
+      getFileText
+    ),
   };
 }
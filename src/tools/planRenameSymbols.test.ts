@@ -0,0 +1,289 @@
+/**
+ * planRenameSymbols のテスト
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { planRenameSymbols } from "./planRenameSymbols.js";
+import type { FileTextEdits } from "../types.js";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+
+/**
+ * 編集を元のテキストに適用する
+ */
+function applyEdits(
+  text: string,
+  fileEdits: FileTextEdits | undefined
+): string {
+  const lines = text.split("\n");
+  const toOffset = (line: number, character: number): number =>
+    lines.slice(0, line).reduce((sum, l) => sum + l.length + 1, 0) + character;
+
+  return [...(fileEdits?.textEdits ?? [])]
+    .map((edit) => ({
+      start: toOffset(edit.range.start.line, edit.range.start.character),
+      end: toOffset(edit.range.end.line, edit.range.end.character),
+      newText: edit.newText,
+    }))
+    .sort((a, b) => b.start - a.start)
+    .reduce(
+      (result, edit) =>
+        result.slice(0, edit.start) + edit.newText + result.slice(edit.end),
+      text
+    );
+}
+
+describe("planRenameSymbols", () => {
+  let testProjectDir: string;
+  let userText: string;
+  let mainText: string;
+
+  beforeAll(() => {
+    testProjectDir = fs.mkdtempSync(
+      path.join(os.tmpdir(), "ts-rename-symbols-test-")
+    );
+
+    fs.writeFileSync(
+      path.join(testProjectDir, "tsconfig.json"),
+      JSON.stringify(
+        {
+          compilerOptions: {
+            target: "ES2020",
+            module: "ESNext",
+            strict: true,
+            skipLibCheck: true,
+          },
+          include: ["src/**/*.ts"],
+        },
+        null,
+        2
+      )
+    );
+
+    fs.mkdirSync(path.join(testProjectDir, "src"));
+    userText = `export function get_user(user_id: string) {
+  return { id: user_id };
+}
+
+export function get_users(ids: string[]) {
+  return ids.map((id) => get_user(id));
+}
+`;
+    fs.writeFileSync(path.join(testProjectDir, "src", "user.ts"), userText);
+
+    mainText = `import { get_user, get_users } from "./user";
+
+const a = get_user("a"); const b = get_users(["b"]);
+`;
+    fs.writeFileSync(path.join(testProjectDir, "src", "main.ts"), mainText);
+  });
+
+  afterAll(() => {
+    if (testProjectDir && fs.existsSync(testProjectDir)) {
+      fs.rmSync(testProjectDir, { recursive: true, force: true });
+    }
+  });
+
+  const userPath = (): string => path.join(testProjectDir, "src", "user.ts");
+  const mainPath = (): string => path.join(testProjectDir, "src", "main.ts");
+
+  it("複数のリネームを元のテキスト上の1つの編集プランにまとめる", () => {
+    const result = planRenameSymbols({
+      projectRoot: testProjectDir,
+      renames: [
+        { filePath: "src/user.ts", line: 0, character: 16, newName: "getUser" },
+        { filePath: "src/user.ts", line: 0, character: 25, newName: "userId" },
+        {
+          filePath: "src/user.ts",
+          line: 4,
+          character: 16,
+          newName: "getUsers",
+        },
+      ],
+    });
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.results.map((r) => r.applied)).toEqual([true, true, true]);
+    expect(result.typescriptVersion).toBeDefined();
+
+    const userEdits = result.edits.find((e) => e.filePath === userPath());
+    const mainEdits = result.edits.find((e) => e.filePath === mainPath());
+
+    const expectedUserText = `export function getUser(userId: string) {
+  return { id: userId };
+}
+
+export function getUsers(ids: string[]) {
+  return ids.map((id) => getUser(id));
+}
+`;
+    const expectedMainText = `import { getUser, getUsers } from "./user";
+
+const a = getUser("a"); const b = getUsers(["b"]);
+`;
+    expect(applyEdits(userText, userEdits)).toBe(expectedUserText);
+    expect(applyEdits(mainText, mainEdits)).toBe(expectedMainText);
+  });
+
+  it("位置は前のリネームで長さが変わった行でも元のテキスト基準で解釈する", () => {
+    const result = planRenameSymbols({
+      projectRoot: testProjectDir,
+      renames: [
+        { filePath: "src/main.ts", line: 2, character: 10, newName: "x" },
+        // 同じ行の後ろにある get_users（元のテキスト上の位置）
+        { filePath: "src/main.ts", line: 2, character: 35, newName: "list" },
+      ],
+    });
+
+    expect(result.conflicts).toEqual([]);
+    const mainEdits = result.edits.find((e) => e.filePath === mainPath());
+    const expectedMainText = `import { x, list } from "./user";
+
+const a = x("a"); const b = list(["b"]);
+`;
+    expect(applyEdits(mainText, mainEdits)).toBe(expectedMainText);
+  });
+
+  it("symbolName で指定したリネームも順に適用する", () => {
+    const result = planRenameSymbols({
+      projectRoot: testProjectDir,
+      renames: [
+        { filePath: "src/user.ts", symbolName: "get_user", newName: "getUser" },
+        {
+          filePath: "src/user.ts",
+          symbolName: "get_users",
+          newName: "getUsers",
+        },
+      ],
+    });
+
+    expect(result.results.map((r) => r.applied)).toEqual([true, true]);
+    const userEdits = result.edits.find((e) => e.filePath === userPath());
+    expect(userEdits?.textEdits).toHaveLength(3);
+  });
+
+  it("同じシンボルへの矛盾するリネームを衝突として報告する", () => {
+    const result = planRenameSymbols({
+      projectRoot: testProjectDir,
+      renames: [
+        { filePath: "src/user.ts", line: 0, character: 16, newName: "getUser" },
+        // main.ts 側の参照から同じシンボルを別名にリネーム
+        {
+          filePath: "src/main.ts",
+          line: 2,
+          character: 10,
+          newName: "fetchUser",
+        },
+      ],
+    });
+
+    expect(result.results[0]).toMatchObject({ index: 0, applied: true });
+    expect(result.results[1]).toEqual({
+      index: 1,
+      applied: false,
+      reason: "Target was already renamed by renames[0]",
+    });
+    expect(result.conflicts).toEqual([
+      {
+        index: 1,
+        conflictsWith: 0,
+        filePath: mainPath(),
+        range: {
+          start: { line: 2, character: 10 },
+          end: { line: 2, character: 18 },
+        },
+        newText: "fetchUser",
+        existingText: "getUser",
+      },
+    ]);
+
+    // 衝突したリネームの編集は含まない
+    const mainEdits = result.edits.find((e) => e.filePath === mainPath());
+    expect(mainEdits?.textEdits.every((e) => e.newText === "getUser")).toBe(
+      true
+    );
+  });
+
+  it("前のリネームで生じた名前の衝突を検出する", () => {
+    const result = planRenameSymbols({
+      projectRoot: testProjectDir,
+      renames: [
+        { filePath: "src/user.ts", symbolName: "get_user", newName: "load" },
+        { filePath: "src/user.ts", symbolName: "get_users", newName: "load" },
+      ],
+    });
+
+    expect(result.results[0]).toMatchObject({ index: 0, applied: true });
+    expect(result.results[1]).toMatchObject({
+      index: 1,
+      applied: false,
+      reason: "load conflicts with existing declarations",
+    });
+    // 衝突の範囲は元のテキスト上の位置（get_user の宣言と import）
+    const failed = result.results[1];
+    expect(!failed.applied && failed.collisions).toEqual([
+      {
+        kind: "duplicate",
+        filePath: userPath(),
+        range: {
+          start: { line: 0, character: 16 },
+          end: { line: 0, character: 24 },
+        },
+        message: "load is already declared in the same scope",
+      },
+      {
+        kind: "duplicate",
+        filePath: mainPath(),
+        range: {
+          start: { line: 0, character: 9 },
+          end: { line: 0, character: 17 },
+        },
+        message: "load is already declared in the same scope",
+      },
+    ]);
+  });
+
+  it("リネームできないものがあっても残りは適用する", () => {
+    const result = planRenameSymbols({
+      projectRoot: testProjectDir,
+      renames: [
+        { filePath: "src/user.ts", symbolName: "missing", newName: "other" },
+        { filePath: "src/user.ts", symbolName: "get_user", newName: "getUser" },
+      ],
+    });
+
+    expect(result.results[0]).toMatchObject({
+      index: 0,
+      applied: false,
+      reason: expect.stringMatching(/Symbol not found: missing/),
+    });
+    expect(result.results[1]).toMatchObject({
+      index: 1,
+      applied: true,
+      editCount: 4,
+    });
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it("存在しないファイルはエラーとして報告する", () => {
+    const result = planRenameSymbols({
+      projectRoot: testProjectDir,
+      renames: [
+        { filePath: "src/missing.ts", line: 0, character: 0, newName: "x" },
+      ],
+    });
+
+    expect(result).toEqual({
+      edits: [],
+      results: [
+        {
+          index: 0,
+          applied: false,
+          reason: `File not found: ${path.join(testProjectDir, "src", "missing.ts")}`,
+        },
+      ],
+      conflicts: [],
+    });
+  });
+});
@@ -0,0 +1,446 @@
+/**
+ * planRenameSymbols ツールの実装
+ * 複数シンボルのリネームを順に計算し、1つの編集プランにまとめて返す
+ */
+
+import ts from "typescript";
+import path from "node:path";
+import { planRenameSymbol } from "./planRenameSymbol.js";
+import { hashText } from "../edits.js";
+import type {
+  PlanRenameSymbolsParams,
+  PlanRenameSymbolsResult,
+  RenameRequestResult,
+  RenameConflict,
+  FileTextEdits,
+  NameCollision,
+  Range,
+} from "../types.js";
+
+/**
+ * 適用済みの編集（元のテキスト上のオフセット）
+ */
+type AppliedEdit = {
+  start: number;
+  end: number;
+  newText: string;
+  index: number; // 編集を追加したリネームの位置
+};
+
+/**
+ * リネームを順に適用していくファイルの状態
+ */
+type FileState = {
+  original: string; // 元のテキスト（オーバーレイ優先）
+  current: string; // 適用済みのリネームを反映したテキスト
+  applied: AppliedEdit[]; // start 順
+};
+
+/**
+ * 複数シンボルのリネームプランを作成する
+ *
+ * 各リネームは、それより前のリネームを反映したテキストをオーバーレイとして
+ * 計算する。既に編集された範囲と重なる編集を含むリネームは適用せず、
+ * 衝突として報告する。返す編集の範囲はすべて元のテキスト上の位置。
+ *
+ * @param params リネームパラメータ
+ * @returns まとめた編集プランと、各リネームの結果・衝突
+ */
+export function planRenameSymbols(
+  params: PlanRenameSymbolsParams
+): PlanRenameSymbolsResult {
+  // 1. projectRoot を絶対パスに正規化し、オーバーレイのキーを絶対パスにする
+  const absProjectRoot = path.resolve(params.projectRoot);
+  const overlays = new Map(
+    Object.entries(params.overlays ?? {}).map(([filePath, text]) => [
+      path.resolve(absProjectRoot, filePath),
+      text,
+    ])
+  );
+
+  // 2. 編集対象ファイルの状態（必要になった時点で読み込む）
+  const files = new Map<string, FileState>();
+  const getFileState = (fileName: string): FileState | undefined => {
+    let state = files.get(fileName);
+    if (!state) {
+      const text = overlays.get(fileName) ?? ts.sys.readFile(fileName);
+      if (text === undefined) return undefined;
+      state = { original: text, current: text, applied: [] };
+      files.set(fileName, state);
+    }
+    return state;
+  };
+
+  const results: RenameRequestResult[] = [];
+  const conflicts: RenameConflict[] = [];
+  let typescriptVersion: string | undefined;
+
+  // 3. リネームを先頭から順に計算・適用
+  for (const [index, rename] of params.renames.entries()) {
+    const absFilePath = path.resolve(absProjectRoot, rename.filePath);
+    const targetState = getFileState(absFilePath);
+    if (!targetState) {
+      results.push({
+        index,
+        applied: false,
+        reason: `File not found: ${absFilePath}`,
+      });
+      continue;
+    }
+
+    // 3-1. 元のテキスト上の位置を、適用済みのリネームを反映した位置に変換
+    let line = rename.line;
+    let character = rename.character;
+    if (
+      rename.symbolName === undefined &&
+      line !== undefined &&
+      character !== undefined
+    ) {
+      const originalPos = ts.getPositionOfLineAndCharacter(
+        ts.createSourceFile(
+          absFilePath,
+          targetState.original,
+          ts.ScriptTarget.Latest
+        ),
+        line,
+        character
+      );
+      const mapped = toCurrentOffset(targetState.applied, originalPos);
+      if (typeof mapped !== "number") {
+        conflicts.push(
+          toConflict(index, rename.newName, absFilePath, targetState, mapped)
+        );
+        results.push({
+          index,
+          applied: false,
+          reason: `Target was already renamed by renames[${mapped.index}]`,
+        });
+        continue;
+      }
+      ({ line, character } = ts.getLineAndCharacterOfPosition(
+        ts.createSourceFile(
+          absFilePath,
+          targetState.current,
+          ts.ScriptTarget.Latest
+        ),
+        mapped
+      ));
+    }
+
+    // 3-2. 適用済みのリネームをオーバーレイにして 1 件分を計算
+    const result = planRenameSymbol({
+      projectRoot: absProjectRoot,
+      filePath: absFilePath,
+      line,
+      character,
+      symbolName: rename.symbolName,
+      containerName: rename.containerName,
+      newName: rename.newName,
+      findInStrings: rename.findInStrings,
+      findInComments: rename.findInComments,
+      usePrefixAndSuffixText: rename.usePrefixAndSuffixText,
+      allowCollisions: rename.allowCollisions,
+      overlays: {
+        ...Object.fromEntries(overlays),
+        ...Object.fromEntries(
+          Array.from(files.entries()).map(([fileName, state]) => [
+            fileName,
+            state.current,
+          ])
+        ),
+      },
+      tsconfigPath: params.tsconfigPath,
+      typescriptPath: params.typescriptPath,
+      disablePlugins: params.disablePlugins,
+    });
+
+    if (!result.canRename) {
+      results.push({
+        index,
+        applied: false,
+        reason: result.reason,
+        ...(result.candidates ? { candidates: result.candidates } : {}),
+        ...(result.nameError ? { nameError: result.nameError } : {}),
+        ...(result.collisions
+          ? {
+              collisions: result.collisions.map((collision) =>
+                toOriginalCollision(collision, files.get(collision.filePath))
+              ),
+            }
+          : {}),
+      });
+      continue;
+    }
+    typescriptVersion ??= result.typescriptVersion;
+
+    // 3-3. 編集を元のテキスト上の位置に変換し、衝突を検出
+    const pending: { fileName: string; edit: AppliedEdit; current: number }[] =
+      [];
+    const renameConflicts: RenameConflict[] = [];
+    for (const { filePath, textEdits } of result.edits) {
+      const state = getFileState(filePath);
+      if (!state) continue;
+
+      const currentFile = ts.createSourceFile(
+        filePath,
+        state.current,
+        ts.ScriptTarget.Latest
+      );
+      for (const textEdit of textEdits) {
+        const currentStart = ts.getPositionOfLineAndCharacter(
+          currentFile,
+          textEdit.range.start.line,
+          textEdit.range.start.character
+        );
+        const currentEnd = ts.getPositionOfLineAndCharacter(
+          currentFile,
+          textEdit.range.end.line,
+          textEdit.range.end.character
+        );
+
+        const mapped = toOriginalSpan(state.applied, currentStart, currentEnd);
+        if ("conflict" in mapped) {
+          renameConflicts.push(
+            toConflict(
+              index,
+              textEdit.newText,
+              filePath,
+              state,
+              mapped.conflict
+            )
+          );
+          continue;
+        }
+
+        pending.push({
+          fileName: filePath,
+          edit: { ...mapped, newText: textEdit.newText, index },
+          current: currentStart,
+        });
+      }
+    }
+
+    if (renameConflicts.length > 0) {
+      conflicts.push(...renameConflicts);
+      results.push({
+        index,
+        applied: false,
+        reason: `Conflicts with ${Array.from(
+          new Set(renameConflicts.map(({ conflictsWith }) => conflictsWith))
+        )
+          .map((conflictsWith) => `renames[${conflictsWith}]`)
+          .join(", ")}`,
+      });
+      continue;
+    }
+
+    // 3-4. 編集を適用し、次のリネームのためにテキストを更新
+    for (const [fileName, state] of files) {
+      const fileEdits = pending.filter((p) => p.fileName === fileName);
+      if (fileEdits.length === 0) continue;
+
+      // 後ろから適用して位置のずれを防ぐ
+      for (const { edit, current } of [...fileEdits].sort(
+        (a, b) => b.current - a.current
+      )) {
+        state.current =
+          state.current.slice(0, current) +
+          edit.newText +
+          state.current.slice(current + (edit.end - edit.start));
+      }
+      state.applied.push(...fileEdits.map(({ edit }) => edit));
+      state.applied.sort((a, b) => a.start - b.start);
+    }
+
+    results.push({
+      index,
+      applied: true,
+      editCount: pending.length,
+      tsconfigPath: result.tsconfigPath,
+      ...(result.warnings
+        ? {
+            warnings: result.warnings.map((collision) =>
+              toOriginalCollision(collision, files.get(collision.filePath))
+            ),
+          }
+        : {}),
+    });
+  }
+
+  // 4. 適用済みの編集を元のテキスト上の Range に変換（元の内容のハッシュも付ける）
+  const edits: FileTextEdits[] = [];
+  for (const [filePath, state] of files) {
+    if (state.applied.length === 0) continue;
+
+    const originalFile = ts.createSourceFile(
+      filePath,
+      state.original,
+      ts.ScriptTarget.Latest
+    );
+    edits.push({
+      filePath,
+      contentHash: hashText(state.original),
+      textEdits: state.applied.map((edit) => ({
+        range: toRange(originalFile, edit.start, edit.end),
+        newText: edit.newText,
+        oldText: state.original.slice(edit.start, edit.end),
+      })),
+    });
+  }
+
+  return {
+    edits,
+    results,
+    conflicts,
+    ...(typescriptVersion !== undefined ? { typescriptVersion } : {}),
+  };
+}
+
+/**
+ * 元のテキスト上のオフセットを、適用済みの編集を反映したテキスト上の
+ * オフセットに変換する
+ *
+ * @param applied 適用済みの編集（start 順）
+ * @param offset 元のテキスト上のオフセット
+ * @returns 変換後のオフセット（編集済みの範囲内なら、その編集）
+ */
+function toCurrentOffset(
+  applied: AppliedEdit[],
+  offset: number
+): number | AppliedEdit {
+  let delta = 0;
+  for (const edit of applied) {
+    if (offset >= edit.end) {
+      delta += edit.newText.length - (edit.end - edit.start);
+    } else if (offset >= edit.start) {
+      return edit;
+    } else {
+      break;
+    }
+  }
+  return offset + delta;
+}
+
+/**
+ * 適用済みの編集を反映したテキスト上の範囲を、元のテキスト上の範囲に変換する
+ *
+ * @param applied 適用済みの編集（start 順）
+ * @param start 範囲の開始オフセット
+ * @param end 範囲の終了オフセット
+ * @returns 変換後の範囲（編集済みの範囲と重なる場合は、その編集）
+ */
+function toOriginalSpan(
+  applied: AppliedEdit[],
+  start: number,
+  end: number
+): { start: number; end: number } | { conflict: AppliedEdit } {
+  let delta = 0;
+  for (const edit of applied) {
+    const editStart = edit.start + delta;
+    const editEnd = editStart + edit.newText.length;
+    if (end <= editStart) break;
+    if (start < editEnd) {
+      return { conflict: edit };
+    }
+    delta += edit.newText.length - (edit.end - edit.start);
+  }
+  return { start: start - delta, end: end - delta };
+}
+
+/**
+ * 適用済みのリネームを反映したテキスト上で検出した名前の衝突を、
+ * 元のテキスト上の範囲に変換する
+ *
+ * @param collision 検出した衝突
+ * @param state 衝突があるファイルの状態（未編集なら undefined）
+ * @returns 元のテキスト上の範囲を持つ衝突
+ */
+function toOriginalCollision(
+  collision: NameCollision,
+  state: FileState | undefined
+): NameCollision {
+  if (!state || state.applied.length === 0) return collision;
+
+  const currentFile = ts.createSourceFile(
+    collision.filePath,
+    state.current,
+    ts.ScriptTarget.Latest
+  );
+  const mapped = toOriginalSpan(
+    state.applied,
+    ts.getPositionOfLineAndCharacter(
+      currentFile,
+      collision.range.start.line,
+      collision.range.start.character
+    ),
+    ts.getPositionOfLineAndCharacter(
+      currentFile,
+      collision.range.end.line,
+      collision.range.end.character
+    )
+  );
+  // 先に適用したリネームの編集箇所と重なる場合は、その編集の範囲を使う
+  const { start, end } = "conflict" in mapped ? mapped.conflict : mapped;
+
+  return {
+    ...collision,
+    range: toRange(
+      ts.createSourceFile(
+        collision.filePath,
+        state.original,
+        ts.ScriptTarget.Latest
+      ),
+      start,
+      end
+    ),
+  };
+}
+
+/**
+ * 衝突情報を構築する
+ *
+ * @param index 適用できなかったリネームの位置
+ * @param newText 適用できなかったリネームの新しいテキスト
+ * @param filePath 衝突したファイル（絶対パス）
+ * @param state 衝突したファイルの状態
+ * @param existing 先に適用された編集
+ * @returns 衝突情報
+ */
+function toConflict(
+  index: number,
+  newText: string,
+  filePath: string,
+  state: FileState,
+  existing: AppliedEdit
+): RenameConflict {
+  return {
+    index,
+    conflictsWith: existing.index,
+    filePath,
+    range: toRange(
+      ts.createSourceFile(filePath, state.original, ts.ScriptTarget.Latest),
+      existing.start,
+      existing.end
+    ),
+    newText,
+    existingText: existing.newText,
+  };
+}
+
+/**
+ * オフセットの範囲を Range に変換する
+ *
+ * @param sourceFile 対象のファイル
+ * @param start 開始オフセット
+ * @param end 終了オフセット
+ * @returns Range
+ */
+function toRange(sourceFile: ts.SourceFile, start: number, end: number): Range {
+  const startPos = ts.getLineAndCharacterOfPosition(sourceFile, start);
+  const endPos = ts.getLineAndCharacterOfPosition(sourceFile, end);
+
+  return {
+    start: { line: startPos.line, character: startPos.character },
+    end: { line: endPos.line, character: endPos.character },
+  };
+}
@@ -0,0 +1,194 @@
+/**
+ * searchSymbols のテスト
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { searchSymbols } from "./searchSymbols.js";
+import { planRenameSymbol } from "./planRenameSymbol.js";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { createRequire } from "node:module";
+
+// 同梱版と SyntaxKind などの値が異なる TypeScript
+const typescript49Path = createRequire(import.meta.url).resolve(
+  "typescript-4.9"
+);
+
+describe("searchSymbols", () => {
+  let testProjectDir: string;
+
+  beforeAll(() => {
+    testProjectDir = fs.mkdtempSync(
+      path.join(os.tmpdir(), "search-symbols-test-")
+    );
+
+    fs.writeFileSync(
+      path.join(testProjectDir, "tsconfig.json"),
+      JSON.stringify(
+        {
+          compilerOptions: {
+            target: "ES2020",
+            module: "ESNext",
+            moduleResolution: "node",
+            strict: true,
+            skipLibCheck: true,
+          },
+          include: ["src/**/*.ts"],
+        },
+        null,
+        2
+      )
+    );
+
+    const files: Record<string, string> = {
+      "src/services/user.ts": `/**
+ * ユーザーを扱うサービス
+ */
+export class UserService {
+  fetchUser(id: string) {
+    return { id };
+  }
+}
+`,
+      "src/services/admin.ts": `export class AdminUserService {}
+export function createUserService() {}
+`,
+      "src/main.ts": `import { UserService } from "./services/user";
+
+export const service = new UserService();
+service.fetchUser("a");
+`,
+    };
+    for (const [fileName, text] of Object.entries(files)) {
+      fs.mkdirSync(path.dirname(path.join(testProjectDir, fileName)), {
+        recursive: true,
+      });
+      fs.writeFileSync(path.join(testProjectDir, fileName), text);
+    }
+  });
+
+  afterAll(() => {
+    fs.rmSync(testProjectDir, { recursive: true, force: true });
+  });
+
+  it("一致の強い順に、宣言名の範囲とコンテナ名を返す", () => {
+    const result = searchSymbols({
+      projectRoot: testProjectDir,
+      query: "UserService",
+    });
+
+    expect(result.truncated).toBe(false);
+    expect(
+      result.symbols.map(({ name, matchKind }) => [name, matchKind])
+    ).toEqual([
+      ["UserService", "exact"],
+      ["AdminUserService", "substring"],
+      ["createUserService", "substring"],
+    ]);
+    expect(result.symbols[0]).toEqual({
+      name: "UserService",
+      kind: "class",
+      filePath: path.join(testProjectDir, "src/services/user.ts"),
+      range: {
+        start: { line: 3, character: 13 },
+        end: { line: 3, character: 24 },
+      },
+      declarationRange: {
+        start: { line: 3, character: 0 },
+        end: { line: 7, character: 1 },
+      },
+      matchKind: "exact",
+    });
+  });
+
+  it("メンバーはコンテナ名を付け、結果の位置をそのまま planRenameSymbol に渡せる", () => {
+    const [match] = searchSymbols({
+      projectRoot: testProjectDir,
+      query: "fetchUser",
+    }).symbols;
+
+    expect(match).toMatchObject({
+      name: "fetchUser",
+      kind: "method",
+      containerName: "UserService",
+    });
+
+    const result = planRenameSymbol({
+      projectRoot: testProjectDir,
+      filePath: match.filePath,
+      line: match.range.start.line,
+      character: match.range.start.character,
+      newName: "loadUser",
+    });
+    expect(result.canRename).toBe(true);
+    if (!result.canRename) return;
+    expect(result.edits).toHaveLength(2);
+  });
+
+  it("同梱版と異なるバージョンの TypeScript でも宣言名の範囲を返す", () => {
+    const [method] = searchSymbols({
+      projectRoot: testProjectDir,
+      query: "fetchUser",
+      typescriptPath: typescript49Path,
+    }).symbols;
+    expect(method).toMatchObject({
+      name: "fetchUser",
+      range: {
+        start: { line: 4, character: 2 },
+        end: { line: 4, character: 11 },
+      },
+    });
+
+    const [variable] = searchSymbols({
+      projectRoot: testProjectDir,
+      query: "service",
+      kinds: ["const"],
+      typescriptPath: typescript49Path,
+    }).symbols;
+    expect(variable).toMatchObject({
+      name: "service",
+      range: {
+        start: { line: 2, character: 13 },
+        end: { line: 2, character: 20 },
+      },
+    });
+  });
+
+  it("kinds と maxResults で絞り込む", () => {
+    const byKind = searchSymbols({
+      projectRoot: testProjectDir,
+      query: "UserService",
+      kinds: ["function"],
+    });
+    expect(byKind.symbols.map(({ name }) => name)).toEqual([
+      "createUserService",
+    ]);
+
+    const limited = searchSymbols({
+      projectRoot: testProjectDir,
+      query: "UserService",
+      maxResults: 1,
+    });
+    expect(limited.symbols.map(({ name }) => name)).toEqual(["UserService"]);
+    expect(limited.truncated).toBe(true);
+  });
+
+  it("既定では TypeScript の lib の宣言を含めない", () => {
+    expect(
+      searchSymbols({ projectRoot: testProjectDir, query: "Promise" }).symbols
+    ).toEqual([]);
+
+    const external = searchSymbols({
+      projectRoot: testProjectDir,
+      query: "Promise",
+      kinds: ["interface"],
+      includeExternal: true,
+    });
+    expect(external.symbols.length).toBeGreaterThan(0);
+    expect(external.symbols[0]).toMatchObject({
+      name: "Promise",
+      matchKind: "exact",
+    });
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * searchSymbols ツールの実装
+ * プロジェクト全体からシンボルを名前で検索する
+ */
+
+import ts from "typescript";
+import path from "node:path";
+import { getTsServices } from "../tsService.js";
+import { findNodeAt, toRange } from "../symbols.js";
+import type { TypeScriptModule } from "../typescriptModule.js";
+import type {
+  SearchSymbolsParams,
+  SearchSymbolsResult,
+  SymbolMatch,
+} from "../types.js";
+
+/**
+ * maxResults を省略した場合の最大件数
+ */
+const DEFAULT_MAX_RESULTS = 50;
+
+/**
+ * 一致の強さの順
+ */
+const MATCH_KIND_ORDER: readonly SymbolMatch["matchKind"][] = [
+  "exact",
+  "prefix",
+  "substring",
+  "camelCase",
+];
+
+/**
+ * プロジェクト全体からシンボルを検索する
+ *
+ * 全プロジェクトの getNavigateToItems() の結果を重複を除いてまとめ、
+ * 一致の強さ（大文字・小文字まで一致するものを先）・ファイル・位置の順に
+ * 並べる。既定では node_modules と TypeScript の lib の宣言は除く。
+ *
+ * @param params 検索パラメータ
+ * @returns 見つかったシンボル
+ */
+export function searchSymbols(
+  params: SearchSymbolsParams
+): SearchSymbolsResult {
+  // 1. projectRoot を絶対パスに正規化し、全プロジェクトの service を取得
+  const absProjectRoot = path.resolve(params.projectRoot);
+  const tsServices = getTsServices(absProjectRoot, {
+    overlays: params.overlays,
+    tsconfigPath: params.tsconfigPath,
+    typescriptPath: params.typescriptPath,
+    disablePlugins: params.disablePlugins,
+  });
+  const { typescriptVersion } = tsServices[0];
+  const maxResults = params.maxResults ?? DEFAULT_MAX_RESULTS;
+
+  // 2. 各プロジェクトで検索し、種類・外部ライブラリで絞り込んで重複を除く
+  const seen = new Set<string>();
+  const matches: (SymbolMatch & { isCaseSensitive: boolean })[] = [];
+  for (const { service, tsModule } of tsServices) {
+    const program = service.getProgram();
+    if (!program) continue;
+
+    for (const item of service.getNavigateToItems(params.query)) {
+      if (params.kinds && !params.kinds.includes(item.kind)) continue;
+      const sourceFile = program.getSourceFile(item.fileName);
+      if (!sourceFile) continue;
+      if (
+        !params.includeExternal &&
+        (program.isSourceFileDefaultLibrary(sourceFile) ||
+          program.isSourceFileFromExternalLibrary(sourceFile) ||
+          item.fileName.split(/[\\/]/).includes("node_modules"))
+      ) {
+        continue;
+      }
+
+      const key = `${item.fileName}:${item.textSpan.start}:${item.textSpan.length}:${item.name}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      matches.push({
+        name: item.name,
+        kind: item.kind,
+        ...(item.containerName ? { containerName: item.containerName } : {}),
+        filePath: item.fileName,
+        range: toRange(
+          sourceFile,
+          getNameSpan(tsModule, sourceFile, item.textSpan)
+        ),
+        declarationRange: toRange(sourceFile, item.textSpan),
+        matchKind: item.matchKind as SymbolMatch["matchKind"],
+        isCaseSensitive: item.isCaseSensitive,
+      });
+    }
+  }
+
+  // 3. 一致の強さ・ファイル・位置の順に並べ、maxResults 件に切り詰める
+  matches.sort(
+    (a, b) =>
+      MATCH_KIND_ORDER.indexOf(a.matchKind) -
+        MATCH_KIND_ORDER.indexOf(b.matchKind) ||
+      Number(b.isCaseSensitive) - Number(a.isCaseSensitive) ||
+      a.filePath.localeCompare(b.filePath) ||
+      a.range.start.line - b.range.start.line ||
+      a.range.start.character - b.range.start.character
+  );
+
+  return {
+    symbols: matches
+      .slice(0, maxResults)
+      .map(({ isCaseSensitive: _, ...match }) => match),
+    truncated: matches.length > maxResults,
+    typescriptVersion,
+  };
+}
+
+/**
+ * 宣言の範囲から宣言名の範囲を求める
+ *
+ * getNavigateToItems() の textSpan は宣言全体を指すため、同じ範囲の
+ * 宣言ノードを探して名前の位置を返す。
+ *
+ * @param tsModule Program を生成した TypeScript
+ * @param sourceFile 宣言を含むファイル
+ * @param span 宣言全体の範囲
+ * @returns 宣言名の範囲（名前が無い場合は宣言全体）
+ */
+function getNameSpan(
+  tsModule: TypeScriptModule,
+  sourceFile: ts.SourceFile,
+  span: ts.TextSpan
+): ts.TextSpan {
+  const end = span.start + span.length;
+  for (
+    let node: ts.Node | undefined = findNodeAt(
+      sourceFile,
+      span.start,
+      tsModule
+    );
+    node;
+    node = node.parent
+  ) {
+    if (node.getStart(sourceFile) !== span.start || node.end !== end) {
+      continue;
+    }
+    const name = tsModule.getNameOfDeclaration(node as ts.Declaration);
+    if (name) {
+      const start = name.getStart(sourceFile);
+      return { start, length: name.end - start };
+    }
+  }
+  return span;
+}
@@ -0,0 +1,279 @@
+/**
+ * verifyPlan のテスト
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { verifyPlan } from "./verifyPlan.js";
+import { planRenameSymbol } from "./planRenameSymbol.js";
+import { planFileMove } from "./planFileMove.js";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+
+describe("verifyPlan", () => {
+  let testProjectDir: string;
+
+  beforeAll(() => {
+    testProjectDir = fs.mkdtempSync(
+      path.join(os.tmpdir(), "ts-verify-plan-test-")
+    );
+
+    fs.writeFileSync(
+      path.join(testProjectDir, "tsconfig.json"),
+      JSON.stringify(
+        {
+          compilerOptions: {
+            target: "ES2020",
+            module: "ESNext",
+            moduleResolution: "bundler",
+            strict: true,
+            skipLibCheck: true,
+          },
+          include: ["src/**/*.ts"],
+        },
+        null,
+        2
+      )
+    );
+
+    fs.mkdirSync(path.join(testProjectDir, "src"));
+    fs.writeFileSync(
+      path.join(testProjectDir, "src", "user.ts"),
+      `export function getUser(id: string) {
+  return { id };
+}
+`
+    );
+    fs.writeFileSync(
+      path.join(testProjectDir, "src", "main.ts"),
+      `import { getUser } from "./user";
+
+export const user = getUser("a");
+`
+    );
+    // 適用前から存在するエラー
+    fs.writeFileSync(
+      path.join(testProjectDir, "src", "broken.ts"),
+      `export const count: number = "1";
+`
+    );
+  });
+
+  afterAll(() => {
+    if (testProjectDir && fs.existsSync(testProjectDir)) {
+      fs.rmSync(testProjectDir, { recursive: true, force: true });
+    }
+  });
+
+  const srcPath = (fileName: string): string =>
+    path.join(testProjectDir, "src", fileName);
+
+  it("planRenameSymbol のプランは新しいエラーを生まない", () => {
+    const plan = planRenameSymbol({
+      projectRoot: testProjectDir,
+      filePath: "src/user.ts",
+      symbolName: "getUser",
+      newName: "fetchUser",
+    });
+    expect(plan.canRename).toBe(true);
+    if (!plan.canRename) return;
+
+    const result = verifyPlan({
+      projectRoot: testProjectDir,
+      edits: plan.edits,
+    });
+
+    expect(result.ok).toBe(true);
+    expect(result.newDiagnostics).toEqual([]);
+    expect(result.removedDiagnostics).toEqual([]);
+    expect(result.typescriptVersion).toBeDefined();
+  });
+
+  it("参照を更新しない編集は新しいエラーとして報告する", () => {
+    const result = verifyPlan({
+      projectRoot: testProjectDir,
+      edits: [
+        {
+          filePath: "src/user.ts",
+          textEdits: [
+            {
+              range: {
+                start: { line: 0, character: 16 },
+                end: { line: 0, character: 23 },
+              },
+              newText: "fetchUser",
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(result.ok).toBe(false);
+    expect(result.newDiagnostics).toEqual([
+      {
+        filePath: srcPath("main.ts"),
+        range: {
+          start: { line: 0, character: 9 },
+          end: { line: 0, character: 16 },
+        },
+        code: 2305,
+        category: "error",
+        message: `Module '"./user"' has no exported member 'getUser'.`,
+      },
+    ]);
+    // 適用前から存在するエラーは報告しない
+    expect(
+      result.newDiagnostics.some(
+        (diagnostic) => diagnostic.filePath === srcPath("broken.ts")
+      )
+    ).toBe(false);
+  });
+
+  it("import を更新しないファイル移動は解決できない import として報告する", () => {
+    const result = verifyPlan({
+      projectRoot: testProjectDir,
+      edits: [],
+      fsMoves: [{ from: srcPath("user.ts"), to: srcPath("lib/user.ts") }],
+    });
+
+    expect(result.ok).toBe(false);
+    expect(result.newDiagnostics).toMatchObject([
+      { filePath: srcPath("main.ts"), code: 2307, category: "error" },
+    ]);
+
+    // ディスク上のファイルは移動しない
+    expect(fs.existsSync(srcPath("user.ts"))).toBe(true);
+    expect(fs.existsSync(srcPath("lib/user.ts"))).toBe(false);
+  });
+
+  it("planFileMove のプランは移動後も型チェックが通る", () => {
+    const plan = planFileMove({
+      projectRoot: testProjectDir,
+      oldPath: "src/main.ts",
+      newPath: "src/app/main.ts",
+    });
+
+    const result = verifyPlan({
+      projectRoot: testProjectDir,
+      edits: plan.edits,
+      fsMoves: plan.fsMoves,
+    });
+
+    expect(result.ok).toBe(true);
+    expect(result.newDiagnostics).toEqual([]);
+    expect(result.removedDiagnostics).toEqual([]);
+  });
+
+  it("解消されるエラーを removedDiagnostics として報告する", () => {
+    const result = verifyPlan({
+      projectRoot: testProjectDir,
+      edits: [
+        {
+          filePath: "src/broken.ts",
+          textEdits: [
+            {
+              range: {
+                start: { line: 0, character: 29 },
+                end: { line: 0, character: 32 },
+              },
+              newText: "1",
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(result.ok).toBe(true);
+    expect(result.newDiagnostics).toEqual([]);
+    expect(result.removedDiagnostics).toMatchObject([
+      { filePath: srcPath("broken.ts"), code: 2322, category: "error" },
+    ]);
+  });
+
+  it("重なる編集はエラーを投げる", () => {
+    const edit = {
+      range: {
+        start: { line: 0, character: 16 },
+        end: { line: 0, character: 23 },
+      },
+      newText: "fetchUser",
+    };
+
+    expect(() =>
+      verifyPlan({
+        projectRoot: testProjectDir,
+        edits: [{ filePath: "src/user.ts", textEdits: [edit, edit] }],
+      })
+    ).toThrow(/Overlapping edits/);
+  });
+
+  it("移動先に別のファイルがある場合はエラーを投げる", () => {
+    expect(() =>
+      verifyPlan({
+        projectRoot: testProjectDir,
+        edits: [],
+        fsMoves: [{ from: srcPath("user.ts"), to: srcPath("main.ts") }],
+      })
+    ).toThrow(/Destination already exists/);
+  });
+
+  it("プラン作成後に変更されたファイルは staleFiles として報告する", () => {
+    const plan = planRenameSymbol({
+      projectRoot: testProjectDir,
+      filePath: "src/user.ts",
+      symbolName: "getUser",
+      newName: "fetchUser",
+    });
+    expect(plan.canRename).toBe(true);
+    if (!plan.canRename) return;
+
+    const result = verifyPlan({
+      projectRoot: testProjectDir,
+      edits: plan.edits,
+      overlays: {
+        "src/main.ts": `// moved down a line
+import { getUser } from "./user";
+
+export const user = getUser("a");
+`,
+      },
+    });
+
+    expect(result.ok).toBe(false);
+    expect(result.staleFiles).toEqual([
+      {
+        kind: "contentHash",
+        filePath: srcPath("main.ts"),
+        message: expect.stringContaining("File has changed"),
+      },
+    ]);
+    expect(result.newDiagnostics).toEqual([]);
+  });
+
+  it("contentHash が無くても oldText が一致しない編集を報告する", () => {
+    const range = {
+      start: { line: 0, character: 16 },
+      end: { line: 0, character: 23 },
+    };
+
+    const result = verifyPlan({
+      projectRoot: testProjectDir,
+      edits: [
+        {
+          filePath: "src/user.ts",
+          textEdits: [{ range, newText: "fetchUser", oldText: "loadUser" }],
+        },
+      ],
+    });
+
+    expect(result.ok).toBe(false);
+    expect(result.staleFiles).toEqual([
+      {
+        kind: "oldText",
+        filePath: srcPath("user.ts"),
+        range,
+        message: expect.stringContaining(`found "getUser"`),
+      },
+    ]);
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * verifyPlan ツールの実装
+ * 編集プランをメモリ上で適用し、型チェックの結果を適用前と比較する
+ */
+
+import ts from "typescript";
+import path from "node:path";
+import { getTsServices, type TsService } from "../tsService.js";
+import { applyTextEdits } from "../edits.js";
+import { findStaleFiles, resolvePlan } from "../plan.js";
+import type {
+  VerifyPlanParams,
+  VerifyPlanResult,
+  Diagnostic,
+} from "../types.js";
+
+/**
+ * 編集プランを適用した場合に増える・減る診断を調べる
+ *
+ * ディスクには書き込まず、編集後の内容をオーバーレイ、移動元のファイルを
+ * 存在しないものとして Language Service に渡して型チェックする。診断は
+ * ファイル（移動したファイルは移動先）・コード・メッセージが同じものを
+ * 同一とみなして、適用前の診断と突き合わせる。
+ * プランの contentHash / oldText が現在の内容と一致しないファイルがある場合は
+ * 型チェックせず、staleFiles に入れて ok: false を返す。
+ *
+ * @param params 検証する編集・移動
+ * @returns 新しく発生する診断と解消される診断
+ * @throws 編集・移動の対象ファイルが無い、範囲が不正、または移動先が既に存在する場合
+ */
+export function verifyPlan(params: VerifyPlanParams): VerifyPlanResult {
+  // 1. projectRoot・オーバーレイのパスを絶対パスに正規化
+  const absProjectRoot = path.resolve(params.projectRoot);
+  const overlays = Object.fromEntries(
+    Object.entries(params.overlays ?? {}).map(([filePath, text]) => [
+      path.resolve(absProjectRoot, filePath),
+      text,
+    ])
+  );
+  const options = {
+    tsconfigPath: params.tsconfigPath,
+    typescriptPath: params.typescriptPath,
+    disablePlugins: params.disablePlugins,
+  };
+
+  // 2. 適用前の Language Service を取得
+  const baseline = getTsServices(absProjectRoot, { ...options, overlays });
+  const { getFileText, typescriptVersion } = baseline[0];
+
+  // 3. 移動・編集の対象を解決し、編集を移動前のファイルごとにまとめる
+  const plan = resolvePlan(
+    absProjectRoot,
+    params.edits,
+    params.fsMoves ?? [],
+    (fileName) => getFileText(fileName) !== undefined
+  );
+  const { moves, edits, createdFiles, removedFiles } = plan;
+  const movedFrom = new Map(
+    Array.from(moves.entries()).map(([from, to]) => [to, from])
+  );
+
+  // 4. プラン作成後に変更されたファイルがあれば、型チェックせずに返す
+  const staleFiles = findStaleFiles(plan, (fileName) => getFileText(fileName)!);
+  if (staleFiles.length > 0) {
+    return {
+      ok: false,
+      newDiagnostics: [],
+      removedDiagnostics: [],
+      staleFiles,
+      typescriptVersion,
+    };
+  }
+
+  // 5. 適用前の診断を集める（同じ Language Service を使い回すため先に変換しておく）
+  const baselineDiagnostics = collectDiagnostics(
+    baseline,
+    (fileName) => fileName
+  );
+
+  // 6. 編集・移動後の内容をオーバーレイにし、移動元を存在しないものとして扱う
+  //    （新規作成するファイルは空の内容に編集を適用する）
+  const afterOverlays = { ...overlays };
+  for (const [from, to] of moves) {
+    afterOverlays[to] = getFileText(from)!;
+  }
+  for (const [fileName, textEdits] of edits) {
+    afterOverlays[moves.get(fileName) ?? fileName] = applyTextEdits(
+      fileName,
+      createdFiles.has(fileName) ? "" : getFileText(fileName)!,
+      textEdits
+    );
+  }
+
+  // 7. 適用後の診断を集める（移動先のファイルは移動元を所有していたプロジェクトで調べる）
+  const after = getTsServices(absProjectRoot, {
+    ...options,
+    overlays: afterOverlays,
+    removedFiles,
+  });
+  const afterDiagnostics = collectDiagnostics(
+    after,
+    (fileName) => movedFrom.get(fileName) ?? fileName
+  );
+
+  // 8. 適用前の診断のファイルパスを移動先に読み替えて突き合わせる
+  const getKey = (diagnostic: Diagnostic, filePath: string): string =>
+    `${filePath}:${diagnostic.code}:${diagnostic.message}`;
+  const unmatched = new Map<string, Diagnostic[]>();
+  for (const diagnostic of baselineDiagnostics) {
+    const key = getKey(
+      diagnostic,
+      moves.get(diagnostic.filePath) ?? diagnostic.filePath
+    );
+    unmatched.set(key, [...(unmatched.get(key) ?? []), diagnostic]);
+  }
+
+  const newDiagnostics: Diagnostic[] = [];
+  for (const diagnostic of afterDiagnostics) {
+    const matches = unmatched.get(getKey(diagnostic, diagnostic.filePath));
+    if (matches && matches.length > 0) {
+      matches.shift();
+    } else {
+      newDiagnostics.push(diagnostic);
+    }
+  }
+  const removedDiagnostics = Array.from(unmatched.values()).flat();
+
+  // 9. 新しいエラーが無ければ ok
+  return {
+    ok: !newDiagnostics.some((diagnostic) => diagnostic.category === "error"),
+    newDiagnostics,
+    removedDiagnostics,
+    typescriptVersion,
+  };
+}
+
+/**
+ * 全プロジェクトのルートファイルの構文・意味診断を集める
+ *
+ * project references で複数のプロジェクトに含まれるファイルは、tsconfig の
+ * ファイル一覧に含む最初のプロジェクト（どこにも含まれなければ起点の
+ * プロジェクト）でだけ調べる。
+ *
+ * @param tsServices 対象の Language Service（先頭が起点の tsconfig）
+ * @param getConfigFileName 所有するプロジェクトを決めるときに使うファイルパス
+ * @returns 診断（ファイルごとに出現順）
+ */
+function collectDiagnostics(
+  tsServices: TsService[],
+  getConfigFileName: (fileName: string) => string
+): Diagnostic[] {
+  const getOwnerIndex = (fileName: string): number => {
+    const configFileName = getConfigFileName(fileName);
+    const index = tsServices.findIndex(({ parsedConfig }) =>
+      parsedConfig.fileNames.includes(configFileName)
+    );
+    return index === -1 ? 0 : index;
+  };
+
+  return tsServices.flatMap(({ service }, index) => {
+    const program = service.getProgram();
+    if (!program) return [];
+
+    return program
+      .getRootFileNames()
+      .filter(
+        (fileName) =>
+          getOwnerIndex(fileName) === index &&
+          program.getSourceFile(fileName) !== undefined
+      )
+      .flatMap((fileName) => [
+        ...service.getSyntacticDiagnostics(fileName),
+        ...service.getSemanticDiagnostics(fileName),
+      ])
+      .flatMap((diagnostic) => {
+        const converted = toDiagnostic(diagnostic);
+        return converted ? [converted] : [];
+      });
+  });
+}
+
+/**
+ * ts.Diagnostic を Diagnostic に変換する
+ *
+ * @param diagnostic 変換する診断
+ * @returns 変換した診断（ファイルに紐づかない診断は undefined）
+ */
+function toDiagnostic(diagnostic: ts.Diagnostic): Diagnostic | undefined {
+  const { file, start, length } = diagnostic;
+  if (!file || start === undefined) return undefined;
+
+  const startPos = file.getLineAndCharacterOfPosition(start);
+  const endPos = file.getLineAndCharacterOfPosition(start + (length ?? 0));
+  const categories: Record<ts.DiagnosticCategory, Diagnostic["category"]> = {
+    [ts.DiagnosticCategory.Error]: "error",
+    [ts.DiagnosticCategory.Warning]: "warning",
+    [ts.DiagnosticCategory.Suggestion]: "suggestion",
+    [ts.DiagnosticCategory.Message]: "message",
+  };
+
+  return {
+    filePath: file.fileName,
+    range: {
+      start: { line: startPos.line, character: startPos.character },
+      end: { line: endPos.line, character: endPos.character },
+    },
+    code: diagnostic.code,
+    category: categories[diagnostic.category],
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"),
+  };
+}
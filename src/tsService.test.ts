@@ -2,11 +2,20 @@
  * tsService のテスト
  */
 
-import { describe, it, expect, beforeAll, afterAll } from "vitest";
-import { createTsService } from "./tsService.js";
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import ts from "typescript";
+import {
+  createTsService,
+  getTsService,
+  getTsServices,
+  getTsServicesForFile,
+  clearTsServiceCache,
+  assertFileInConfig,
+} from "./tsService.js";
 import fs from "node:fs";
 import path from "node:path";
 import os from "node:os";
+import { createRequire } from "node:module";
 
 describe("createTsService", () => {
   let testProjectDir: string;
@@ -766,3 +775,586 @@ describe("createTsService - パス処理", () => {
     });
   });
 });
+
+describe("getTsService - キャッシュ", () => {
+  let cacheProjectDir: string;
+
+  beforeAll(() => {
+    cacheProjectDir = fs.mkdtempSync(
+      path.join(os.tmpdir(), "ts-service-cache-")
+    );
+
+    const tsconfigContent = {
+      compilerOptions: {
+        target: "ES2020",
+        strict: true,
+      },
+      include: ["src/**/*.ts"],
+    };
+
+    fs.writeFileSync(
+      path.join(cacheProjectDir, "tsconfig.json"),
+      JSON.stringify(tsconfigContent, null, 2)
+    );
+
+    fs.mkdirSync(path.join(cacheProjectDir, "src"));
+    fs.writeFileSync(
+      path.join(cacheProjectDir, "src", "a.ts"),
+      `export const a = 1;\n`
+    );
+  });
+
+  afterAll(() => {
+    clearTsServiceCache();
+    if (cacheProjectDir && fs.existsSync(cacheProjectDir)) {
+      fs.rmSync(cacheProjectDir, { recursive: true, force: true });
+    }
+  });
+
+  it("変更がなければ同じ Language Service を再利用する", () => {
+    const first = getTsService(cacheProjectDir);
+    const second = getTsService(cacheProjectDir);
+
+    expect(second.service).toBe(first.service);
+    expect(second.configPath).toBe(
+      path.join(cacheProjectDir, "tsconfig.json")
+    );
+  });
+
+  it("ファイルが追加されると同じ Language Service のファイル一覧に反映される", () => {
+    const before = getTsService(cacheProjectDir);
+
+    fs.writeFileSync(
+      path.join(cacheProjectDir, "src", "b.ts"),
+      `export const b = 2;\n`
+    );
+
+    const after = getTsService(cacheProjectDir);
+    expect(after.service).toBe(before.service);
+    expect(
+      after.parsedConfig.fileNames.some((file) => file.endsWith("b.ts"))
+    ).toBe(true);
+    expect(
+      after.service.getProgram()?.getSourceFile(
+        path.join(cacheProjectDir, "src", "b.ts")
+      )
+    ).toBeDefined();
+  });
+
+  it("ファイルが編集されると次の呼び出しで新しい内容を解析する", () => {
+    const filePath = path.join(cacheProjectDir, "src", "a.ts");
+    const before = getTsService(cacheProjectDir);
+    const beforeVersion = before.service
+      .getProgram()
+      ?.getSourceFile(filePath)?.version;
+
+    fs.writeFileSync(filePath, `export const renamed = "changed";\n`);
+
+    const after = getTsService(cacheProjectDir);
+    const sourceFile = after.service.getProgram()?.getSourceFile(filePath);
+    expect(sourceFile?.text).toContain("renamed");
+    expect(sourceFile?.version).not.toBe(beforeVersion);
+  });
+
+  it("変更されていないファイルは再解析しない", () => {
+    const filePath = path.join(cacheProjectDir, "src", "b.ts");
+    const before = getTsService(cacheProjectDir)
+      .service.getProgram()
+      ?.getSourceFile(filePath);
+
+    fs.writeFileSync(
+      path.join(cacheProjectDir, "src", "a.ts"),
+      `export const a = 3;\n`
+    );
+
+    const after = getTsService(cacheProjectDir)
+      .service.getProgram()
+      ?.getSourceFile(filePath);
+    expect(after).toBe(before);
+  });
+
+  it("mtime とサイズが同じでもファイル監視の通知で再解析する", async () => {
+    const filePath = path.join(cacheProjectDir, "src", "b.ts");
+    const fixedTime = new Date("2020-01-01T00:00:00Z");
+    fs.utimesSync(filePath, fixedTime, fixedTime);
+    getTsService(cacheProjectDir).service.getProgram();
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    // 同じサイズの内容に書き換え、mtime を元に戻す
+    fs.writeFileSync(filePath, `export const c = 2;\n`);
+    fs.utimesSync(filePath, fixedTime, fixedTime);
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    const sourceFile = getTsService(cacheProjectDir)
+      .service.getProgram()
+      ?.getSourceFile(filePath);
+    expect(sourceFile?.text).toContain("const c");
+  });
+
+  it("tsconfig.json が変更されると新しい設定が使われる", () => {
+    fs.writeFileSync(
+      path.join(cacheProjectDir, "tsconfig.json"),
+      JSON.stringify(
+        {
+          compilerOptions: { target: "ES2022", strict: true },
+          include: ["src/**/*.ts"],
+        },
+        null,
+        2
+      )
+    );
+
+    const after = getTsService(cacheProjectDir);
+    expect(after.parsedConfig.options.target).toBe(9 /* ES2022 */);
+    expect(after.service.getProgram()?.getCompilerOptions().target).toBe(
+      9 /* ES2022 */
+    );
+  });
+
+  it("removedFiles のファイルはその呼び出しの間だけ存在しないものとして扱う", () => {
+    const filePath = path.join(cacheProjectDir, "src", "b.ts");
+
+    const removed = getTsService(cacheProjectDir, {
+      removedFiles: ["src/b.ts"],
+    });
+    expect(removed.service.getProgram()?.getSourceFile(filePath)).toBe(
+      undefined
+    );
+    expect(removed.getFileText(filePath)).toBe(undefined);
+
+    const restored = getTsService(cacheProjectDir);
+    expect(
+      restored.service.getProgram()?.getSourceFile(filePath)
+    ).toBeDefined();
+  });
+
+  it("clearTsServiceCache でキャッシュを破棄できる", () => {
+    const before = getTsService(cacheProjectDir);
+    clearTsServiceCache();
+    const after = getTsService(cacheProjectDir);
+
+    expect(after.service).not.toBe(before.service);
+  });
+});
+
+describe("createTsService - tsconfigPath", () => {
+  let configProjectDir: string;
+
+  beforeAll(() => {
+    configProjectDir = fs.mkdtempSync(
+      path.join(os.tmpdir(), "ts-service-config-path-")
+    );
+
+    fs.writeFileSync(
+      path.join(configProjectDir, "tsconfig.json"),
+      JSON.stringify({ include: ["src/**/*.ts"] }, null, 2)
+    );
+    fs.writeFileSync(
+      path.join(configProjectDir, "tsconfig.app.json"),
+      JSON.stringify({ include: ["app/**/*.ts"] }, null, 2)
+    );
+    fs.writeFileSync(
+      path.join(configProjectDir, "jsconfig.json"),
+      JSON.stringify({ include: ["js/**/*"] }, null, 2)
+    );
+
+    fs.mkdirSync(path.join(configProjectDir, "src"));
+    fs.mkdirSync(path.join(configProjectDir, "app"));
+    fs.mkdirSync(path.join(configProjectDir, "js"));
+    fs.writeFileSync(
+      path.join(configProjectDir, "src", "lib.ts"),
+      `export const lib = 1;`
+    );
+    fs.writeFileSync(
+      path.join(configProjectDir, "app", "main.ts"),
+      `export const main = 1;`
+    );
+    fs.writeFileSync(
+      path.join(configProjectDir, "js", "script.js"),
+      `export const script = 1;`
+    );
+  });
+
+  afterAll(() => {
+    if (configProjectDir && fs.existsSync(configProjectDir)) {
+      fs.rmSync(configProjectDir, { recursive: true, force: true });
+    }
+  });
+
+  it("指定した tsconfig を使用する", () => {
+    const result = createTsService(configProjectDir, {
+      tsconfigPath: "tsconfig.app.json",
+    });
+
+    expect(result.configPath).toBe(
+      path.join(configProjectDir, "tsconfig.app.json")
+    );
+    expect(result.parsedConfig.fileNames).toEqual([
+      path.join(configProjectDir, "app", "main.ts"),
+    ]);
+  });
+
+  it("jsconfig.json では JS ファイルが対象になる", () => {
+    const result = createTsService(configProjectDir, {
+      tsconfigPath: path.join(configProjectDir, "jsconfig.json"),
+    });
+
+    expect(result.parsedConfig.options.allowJs).toBe(true);
+    expect(result.parsedConfig.fileNames).toEqual([
+      path.join(configProjectDir, "js", "script.js"),
+    ]);
+  });
+
+  it("指定した tsconfig が存在しない場合、エラーを投げる", () => {
+    expect(() =>
+      createTsService(configProjectDir, {
+        tsconfigPath: "tsconfig.missing.json",
+      })
+    ).toThrow(/tsconfig not found/);
+  });
+
+  it("assertFileInConfig は対象外のファイルでエラーを投げる", () => {
+    const result = createTsService(configProjectDir, {
+      tsconfigPath: "tsconfig.app.json",
+    });
+
+    expect(() =>
+      assertFileInConfig(
+        [result],
+        path.join(configProjectDir, "app", "main.ts")
+      )
+    ).not.toThrow();
+    expect(() =>
+      assertFileInConfig(
+        [result],
+        path.join(configProjectDir, "src", "lib.ts")
+      )
+    ).toThrow(/File is not included in .*tsconfig\.app\.json/);
+  });
+});
+
+describe("getTsServices - project references", () => {
+  let solutionDir: string;
+
+  beforeAll(() => {
+    solutionDir = fs.mkdtempSync(
+      path.join(os.tmpdir(), "ts-service-solution-")
+    );
+
+    // ルートは "files": [] + references の solution 形式
+    fs.writeFileSync(
+      path.join(solutionDir, "tsconfig.json"),
+      JSON.stringify(
+        {
+          files: [],
+          references: [{ path: "./packages/a" }, { path: "./packages/b" }],
+        },
+        null,
+        2
+      )
+    );
+
+    for (const name of ["a", "b"]) {
+      fs.mkdirSync(path.join(solutionDir, "packages", name, "src"), {
+        recursive: true,
+      });
+      fs.writeFileSync(
+        path.join(solutionDir, "packages", name, "tsconfig.json"),
+        JSON.stringify(
+          {
+            compilerOptions: {
+              composite: true,
+              target: "ES2020",
+              module: "ESNext",
+              moduleResolution: "node",
+              rootDir: "src",
+              outDir: "dist",
+            },
+            include: ["src"],
+            references: name === "b" ? [{ path: "../a" }] : undefined,
+          },
+          null,
+          2
+        )
+      );
+    }
+
+    fs.writeFileSync(
+      path.join(solutionDir, "packages", "a", "src", "index.ts"),
+      `export function greet(name: string) {
+  return name;
+}
+`
+    );
+    fs.writeFileSync(
+      path.join(solutionDir, "packages", "b", "src", "main.ts"),
+      `import { greet } from "../../a/src/index.js";
+
+export const message = greet("b");
+`
+    );
+  });
+
+  afterAll(() => {
+    if (solutionDir && fs.existsSync(solutionDir)) {
+      fs.rmSync(solutionDir, { recursive: true, force: true });
+    }
+  });
+
+  it("参照先プロジェクトごとに Language Service を返す", () => {
+    const tsServices = getTsServices(solutionDir);
+
+    expect(tsServices.map((s) => s.configPath)).toEqual([
+      path.join(solutionDir, "tsconfig.json"),
+      path.join(solutionDir, "packages", "a", "tsconfig.json"),
+      path.join(solutionDir, "packages", "b", "tsconfig.json"),
+    ]);
+    expect(tsServices[0].parsedConfig.fileNames).toHaveLength(0);
+  });
+
+  it("参照先プロジェクトのファイルでは参照関係全体と所有 tsconfig を返す", () => {
+    const { tsServices, configPath } = getTsServicesForFile(
+      solutionDir,
+      path.join(solutionDir, "packages", "a", "src", "index.ts")
+    );
+
+    expect(tsServices).toHaveLength(3);
+    expect(configPath).toBe(
+      path.join(solutionDir, "packages", "a", "tsconfig.json")
+    );
+  });
+
+  it("参照元プロジェクトは参照先のソースを直接参照する", () => {
+    const [, , b] = getTsServices(solutionDir);
+    const program = b.service.getProgram();
+
+    expect(
+      program?.getSourceFile(
+        path.join(solutionDir, "packages", "a", "src", "index.ts")
+      )
+    ).toBeDefined();
+  });
+
+  it("assertFileInConfig は参照先プロジェクトのファイルを含むとみなす", () => {
+    const tsServices = getTsServices(solutionDir);
+
+    expect(() =>
+      assertFileInConfig(
+        tsServices,
+        path.join(solutionDir, "packages", "b", "src", "main.ts")
+      )
+    ).not.toThrow();
+  });
+});
+
+describe("getTsServices - キャッシュの上限を超える project references", () => {
+  const packageNames = Array.from({ length: 10 }, (_, i) => `p${i}`);
+  let solutionDir: string;
+
+  beforeAll(() => {
+    solutionDir = fs.mkdtempSync(
+      path.join(os.tmpdir(), "ts-service-large-solution-")
+    );
+
+    fs.writeFileSync(
+      path.join(solutionDir, "tsconfig.json"),
+      JSON.stringify(
+        {
+          files: [],
+          references: packageNames.map((name) => ({
+            path: `./packages/${name}`,
+          })),
+        },
+        null,
+        2
+      )
+    );
+
+    for (const name of packageNames) {
+      fs.mkdirSync(path.join(solutionDir, "packages", name, "src"), {
+        recursive: true,
+      });
+      fs.writeFileSync(
+        path.join(solutionDir, "packages", name, "tsconfig.json"),
+        JSON.stringify(
+          {
+            compilerOptions: {
+              composite: true,
+              target: "ES2020",
+              module: "ESNext",
+              moduleResolution: "node",
+              rootDir: "src",
+              outDir: "dist",
+            },
+            include: ["src"],
+            references: name === "p0" ? undefined : [{ path: "../p0" }],
+          },
+          null,
+          2
+        )
+      );
+      fs.writeFileSync(
+        path.join(solutionDir, "packages", name, "src", "index.ts"),
+        name === "p0"
+          ? "export const shared = 1;\n"
+          : `import { shared } from "../../p0/src/index.js";\n\nexport const ${name} = shared;\n`
+      );
+    }
+  });
+
+  afterAll(() => {
+    clearTsServiceCache();
+    if (solutionDir && fs.existsSync(solutionDir)) {
+      fs.rmSync(solutionDir, { recursive: true, force: true });
+    }
+  });
+
+  it("返した Language Service は同じ呼び出しの中で破棄されない", () => {
+    const tsServices = getTsServices(solutionDir);
+    expect(tsServices).toHaveLength(11);
+
+    const sharedFile = path.join(solutionDir, "packages/p0/src/index.ts");
+    const references = tsServices
+      .filter(({ service }) => service.getProgram()?.getSourceFile(sharedFile))
+      .flatMap(
+        ({ service }) =>
+          service.getReferencesAtPosition(sharedFile, "export const ".length) ??
+          []
+      );
+    expect(new Set(references.map(({ fileName }) => fileName)).size).toBe(10);
+  });
+
+  it("再度呼び出すと全プロジェクトの Language Service を再利用する", () => {
+    const first = getTsServices(solutionDir);
+    const second = getTsServices(solutionDir);
+
+    for (const [i, { service }] of second.entries()) {
+      expect(service).toBe(first[i].service);
+    }
+  });
+});
+
+describe("getTsServicesForFile", () => {
+  let ownerProjectDir: string;
+
+  beforeAll(() => {
+    ownerProjectDir = fs.mkdtempSync(
+      path.join(os.tmpdir(), "ts-service-owner-")
+    );
+
+    // ルートは src だけを含み、scripts は独自の tsconfig を持つ
+    fs.writeFileSync(
+      path.join(ownerProjectDir, "tsconfig.json"),
+      JSON.stringify({ include: ["src/**/*.ts"] }, null, 2)
+    );
+    fs.mkdirSync(path.join(ownerProjectDir, "src"));
+    fs.mkdirSync(path.join(ownerProjectDir, "scripts"));
+    fs.writeFileSync(
+      path.join(ownerProjectDir, "scripts", "tsconfig.build.json"),
+      JSON.stringify({ include: ["*.ts"] }, null, 2)
+    );
+    fs.writeFileSync(
+      path.join(ownerProjectDir, "src", "index.ts"),
+      `export const index = 1;`
+    );
+    fs.writeFileSync(
+      path.join(ownerProjectDir, "scripts", "build.ts"),
+      `export const build = 1;`
+    );
+  });
+
+  afterAll(() => {
+    if (ownerProjectDir && fs.existsSync(ownerProjectDir)) {
+      fs.rmSync(ownerProjectDir, { recursive: true, force: true });
+    }
+  });
+
+  it("projectRoot の tsconfig が含むファイルはその tsconfig を使う", () => {
+    const { tsServices, configPath } = getTsServicesForFile(
+      ownerProjectDir,
+      path.join(ownerProjectDir, "src", "index.ts")
+    );
+
+    expect(configPath).toBe(path.join(ownerProjectDir, "tsconfig.json"));
+    expect(tsServices[0].configPath).toBe(configPath);
+  });
+
+  it("projectRoot の tsconfig に含まれないファイルは最も近い所有 tsconfig を使う", () => {
+    const { tsServices, configPath } = getTsServicesForFile(
+      ownerProjectDir,
+      path.join(ownerProjectDir, "scripts", "build.ts")
+    );
+
+    expect(configPath).toBe(
+      path.join(ownerProjectDir, "scripts", "tsconfig.build.json")
+    );
+    expect(tsServices[0].configPath).toBe(configPath);
+  });
+
+  it("どの tsconfig にも含まれないファイルは projectRoot の tsconfig を使う", () => {
+    const { configPath } = getTsServicesForFile(
+      ownerProjectDir,
+      path.join(ownerProjectDir, "notes.ts")
+    );
+
+    expect(configPath).toBe(path.join(ownerProjectDir, "tsconfig.json"));
+  });
+
+  it("所有 tsconfig の探索は読み込み済みの tsconfig を読み直さない", () => {
+    // 同梱版の exports は差し替えられないため、別バージョンの呼び出しを数える
+    const require = createRequire(import.meta.url);
+    const typescriptPath = require.resolve("typescript-4.9");
+    const tsModule = require(typescriptPath) as typeof ts;
+    const fileName = path.join(ownerProjectDir, "src", "index.ts");
+    getTsServicesForFile(ownerProjectDir, fileName, { typescriptPath });
+
+    const parse = vi.spyOn(tsModule, "parseJsonConfigFileContent");
+    try {
+      getTsServicesForFile(ownerProjectDir, fileName, { typescriptPath });
+      // projectRoot の tsconfig を Language Service の更新で1回だけ読む
+      expect(parse).toHaveBeenCalledTimes(1);
+    } finally {
+      parse.mockRestore();
+    }
+  });
+
+  it("前回の探索より後に作られたファイルも所有 tsconfig を見つける", () => {
+    getTsServicesForFile(
+      ownerProjectDir,
+      path.join(ownerProjectDir, "scripts", "build.ts")
+    );
+    fs.writeFileSync(
+      path.join(ownerProjectDir, "scripts", "deploy.ts"),
+      `export const deploy = 1;`
+    );
+
+    const { configPath } = getTsServicesForFile(
+      ownerProjectDir,
+      path.join(ownerProjectDir, "scripts", "deploy.ts")
+    );
+
+    expect(configPath).toBe(
+      path.join(ownerProjectDir, "scripts", "tsconfig.build.json")
+    );
+  });
+
+  it("明示された tsconfig が対象ファイルを含まない場合、エラーを投げる", () => {
+    expect(() =>
+      getTsServicesForFile(
+        ownerProjectDir,
+        path.join(ownerProjectDir, "scripts", "build.ts"),
+        { tsconfigPath: "tsconfig.json" }
+      )
+    ).toThrow(/File is not included in/);
+  });
+});
+
+describe("createTsService - TypeScript のバージョン", () => {
+  it("使用した TypeScript のバージョンを返す", () => {
+    const result = createTsService(process.cwd(), {
+      typescriptPath: "bundled",
+    });
+
+    expect(result.typescriptVersion).toBe(ts.version);
+  });
+});
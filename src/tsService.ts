@@ -5,40 +5,574 @@
 import ts from "typescript";
 import path from "node:path";
 import fs from "node:fs";
+import crypto from "node:crypto";
+import {
+  getTypeScript,
+  resolveTypeScriptPath,
+  type TypeScriptModule,
+} from "./typescriptModule.js";
+import {
+  applyLanguageServicePlugins,
+  getPluginExternalFiles,
+  type LoadedPlugin,
+} from "./plugins.js";
+
+/**
+ * createTsService / getTsService のオプション
+ */
+export type TsServiceOptions = {
+  tsconfigPath?: string; // 明示的な設定ファイル（絶対 or projectRoot からの相対）。省略時は上方向に探索
+  overlays?: Record<string, string>; // ファイルパス（絶対 or projectRoot からの相対）→ 未保存の内容
+  removedFiles?: string[]; // ディスク上にあっても存在しないものとして扱うファイル（絶対 or projectRoot からの相対）
+  typescriptPath?: string; // 使用する TypeScript（パッケージディレクトリ or lib/typescript.js、"bundled" で同梱版）。省略時は自動検出
+  disablePlugins?: boolean; // true の場合、tsconfig の compilerOptions.plugins を読み込まない
+};
+
+/**
+ * createTsService / getTsService の戻り値
+ */
+export type TsService = {
+  service: ts.LanguageService;
+  projectRoot: string;
+  parsedConfig: ts.ParsedCommandLine;
+  configPath: string;
+  getFileText: (fileName: string) => string | undefined; // オーバーレイ優先でファイル内容を返す
+  typescriptVersion: string; // Language Service を生成した TypeScript のバージョン
+  tsModule: TypeScriptModule; // Language Service を生成した TypeScript（Program のノードはこのモジュールで扱う）
+};
+
+/**
+ * 読み込み済みの tsconfig
+ */
+type LoadedTsConfig = {
+  configPath: string;
+  parsedConfig: ts.ParsedCommandLine;
+};
+
+/**
+ * 読み込んだ tsconfig（対象ファイルを所有する tsconfig の探索で再利用する）
+ */
+type CachedTsConfig = {
+  tsModule: TypeScriptModule;
+  config: LoadedTsConfig | undefined; // 読み込みに失敗した場合は undefined
+  mtimeMs: number; // 読み込んだ時点の tsconfig の mtime
+  size: number; // 読み込んだ時点の tsconfig のサイズ
+  loadedAtMs: number; // 読み込みを始めた時刻（これより前からあるファイルは fileNames に反映済み）
+};
+
+/**
+ * ディレクトリにある tsconfig の候補
+ */
+type CachedConfigCandidates = {
+  mtimeMs: number; // 一覧を作った時点のディレクトリの mtime
+  configPaths: string[]; // 調べる順の tsconfig パス
+};
+
+/**
+ * キャッシュされた Language Service
+ */
+type CachedTsService = {
+  service: ts.LanguageService;
+  state: ProjectHostState;
+  watchers: Map<string, fs.FSWatcher>; // ディレクトリパス → watcher
+  pluginsKey: string; // 読み込んだプラグイン設定（変わったら作り直す）
+};
+
+/**
+ * LanguageServiceHost が参照する可変状態（呼び出しごとに config を差し替える）
+ */
+type ProjectHostState = {
+  tsModule: TypeScriptModule;
+  projectRoot: string;
+  config: LoadedTsConfig;
+  overlays: Map<string, string>; // 絶対パス → 未保存の内容
+  removedFiles: Set<string>; // 存在しないものとして扱うファイル（絶対パス）
+  plugins: LoadedPlugin[]; // 読み込んだ Language Service プラグイン
+};
+
+/**
+ * ファイルごとのスクリプトバージョン
+ */
+type FileVersion = {
+  mtimeMs: number;
+  size: number;
+  version: number;
+};
+
+/**
+ * 同時に保持する Language Service の上限
+ */
+const MAX_CACHED_SERVICES = 8;
+
+/**
+ * tsconfig パスをキーにした Language Service キャッシュ（挿入順 = LRU 順）
+ */
+const tsServiceCache = new Map<string, CachedTsService>();
+
+/**
+ * ファイルの時刻の分解能として見込む余裕
+ *
+ * ファイルシステムの時刻は Date.now() より粗く、直後に作ったファイルの ctime が
+ * 読み込みを始めた時刻より前になることがあるため。
+ */
+const FILE_TIME_RESOLUTION_MS = 2000;
+
+/**
+ * tsconfig パス → 最後に読み込んだ結果
+ */
+const tsConfigCache = new Map<string, CachedTsConfig>();
+
+/**
+ * ディレクトリパス → そのディレクトリにある tsconfig の候補
+ */
+const configCandidatesCache = new Map<string, CachedConfigCandidates>();
+
+/**
+ * キャッシュされた Language Service 間で共有する DocumentRegistry
+ *
+ * SourceFile は TypeScript のバージョン間で共有できないため、モジュールごとに持つ。
+ */
+const sharedDocumentRegistries = new Map<TypeScriptModule, ts.DocumentRegistry>();
+
+/**
+ * ファイルパス → スクリプトバージョン
+ *
+ * DocumentRegistry を共有するため、バージョンはプロジェクト間で一意にする。
+ */
+const fileVersions = new Map<string, FileVersion>();
 
 /**
  * TypeScript Language Service を生成する
  *
  * @param projectRoot プロジェクトルートディレクトリ（絶対 or 相対）
+ * @param options オーバーレイなどのオプション
  * @returns Language Service とプロジェクトルート
  * @throws tsconfig.json が見つからない場合
  */
-export function createTsService(projectRoot: string): {
-  service: ts.LanguageService;
-  projectRoot: string;
-  parsedConfig: ts.ParsedCommandLine;
-} {
+export function createTsService(
+  projectRoot: string,
+  options: TsServiceOptions = {}
+): TsService {
   // projectRoot を絶対パスに正規化
   const absProjectRoot = path.resolve(projectRoot);
+  const tsModule = getTypeScript(absProjectRoot, options.typescriptPath);
+  const config = loadTsConfig(tsModule, absProjectRoot, options.tsconfigPath);
+  const state: ProjectHostState = {
+    tsModule,
+    projectRoot: absProjectRoot,
+    config,
+    overlays: resolveOverlays(absProjectRoot, options.overlays),
+    removedFiles: resolveRemovedFiles(absProjectRoot, options.removedFiles),
+    plugins: [],
+  };
+
+  return {
+    service: createLanguageService(
+      state,
+      new Map(),
+      tsModule.createDocumentRegistry(),
+      options.disablePlugins ?? false
+    ),
+    projectRoot: absProjectRoot,
+    parsedConfig: config.parsedConfig,
+    configPath: config.configPath,
+    getFileText: (fileName) => readFileText(state, fileName),
+    typescriptVersion: tsModule.version,
+    tsModule,
+  };
+}
+
+/**
+ * キャッシュ済みの TypeScript Language Service を取得する
+ *
+ * tsconfig パスごとに Language Service を保持し、呼び出しのたびに tsconfig を
+ * 読み直してファイル一覧を更新する。各ファイルのバージョンは mtime とサイズ
+ * （加えてファイル監視の通知）から決まるため、変更されたファイルだけが再解析される。
+ * オーバーレイはその呼び出しの間だけ有効で、次の呼び出しで差し替えられる。
+ *
+ * @param projectRoot プロジェクトルートディレクトリ（絶対 or 相対）
+ * @param options オーバーレイなどのオプション
+ * @returns Language Service とプロジェクトルート
+ * @throws tsconfig.json が見つからない場合
+ */
+export function getTsService(
+  projectRoot: string,
+  options: TsServiceOptions = {}
+): TsService {
+  const tsService = acquireTsService(projectRoot, options);
+  evictTsServices(new Set([tsService.configPath]));
+  return tsService;
+}
+
+/**
+ * キャッシュ済みの Language Service を取得する（上限を超えても破棄しない）
+ *
+ * 複数のプロジェクトをまとめて取得する場合に、取得済みの Language Service を
+ * 後の取得で破棄しないよう、破棄は evictTsServices で別に行う。
+ *
+ * @param projectRoot プロジェクトルートディレクトリ（絶対 or 相対）
+ * @param options オーバーレイなどのオプション
+ * @returns Language Service とプロジェクトルート
+ * @throws tsconfig.json が見つからない場合
+ */
+function acquireTsService(
+  projectRoot: string,
+  options: TsServiceOptions
+): TsService {
+  const absProjectRoot = path.resolve(projectRoot);
+  const tsModule = getTypeScript(absProjectRoot, options.typescriptPath);
+  const config = loadTsConfig(tsModule, absProjectRoot, options.tsconfigPath);
+  const overlays = resolveOverlays(absProjectRoot, options.overlays);
+  const removedFiles = resolveRemovedFiles(
+    absProjectRoot,
+    options.removedFiles
+  );
+  const pluginsKey = getPluginsKey(config, options.disablePlugins ?? false);
+
+  let cached = tsServiceCache.get(config.configPath);
+  if (cached) {
+    // LRU 順を更新
+    tsServiceCache.delete(config.configPath);
+
+    // 別の TypeScript やプラグイン設定を使う場合は作り直す
+    if (
+      cached.state.tsModule !== tsModule ||
+      cached.pluginsKey !== pluginsKey
+    ) {
+      disposeCachedTsService(cached);
+      cached = undefined;
+    }
+  }
+
+  if (cached) {
+    cached.state.projectRoot = absProjectRoot;
+    cached.state.config = config;
+    cached.state.overlays = overlays;
+    cached.state.removedFiles = removedFiles;
+  } else {
+    const state: ProjectHostState = {
+      tsModule,
+      projectRoot: absProjectRoot,
+      config,
+      overlays,
+      removedFiles,
+      plugins: [],
+    };
+    let documentRegistry = sharedDocumentRegistries.get(tsModule);
+    if (!documentRegistry) {
+      documentRegistry = tsModule.createDocumentRegistry();
+      sharedDocumentRegistries.set(tsModule, documentRegistry);
+    }
+    cached = {
+      service: createLanguageService(
+        state,
+        fileVersions,
+        documentRegistry,
+        options.disablePlugins ?? false
+      ),
+      state,
+      watchers: new Map(),
+      pluginsKey,
+    };
+  }
+  tsServiceCache.set(config.configPath, cached);
+  syncWatchers(cached);
+
+  const state = cached.state;
+  return {
+    service: cached.service,
+    projectRoot: absProjectRoot,
+    parsedConfig: config.parsedConfig,
+    configPath: config.configPath,
+    getFileText: (fileName) => readFileText(state, fileName),
+    typescriptVersion: tsModule.version,
+    tsModule,
+  };
+}
+
+/**
+ * tsconfig と、その project references を再帰的に辿った全プロジェクトの
+ * Language Service を取得する
+ *
+ * solution 形式（"files": [] + "references"）の tsconfig でも、参照先ごとに
+ * キャッシュ済みの Language Service を返す。先頭は常に起点の tsconfig。
+ *
+ * @param projectRoot プロジェクトルートディレクトリ（絶対 or 相対）
+ * @param options オーバーレイなどのオプション
+ * @returns 起点の tsconfig と参照先プロジェクトの Language Service
+ * @throws 起点の tsconfig が見つからない場合
+ */
+export function getTsServices(
+  projectRoot: string,
+  options: TsServiceOptions = {}
+): TsService[] {
+  const absProjectRoot = path.resolve(projectRoot);
+  // 参照先は projectRoot が異なるため、オーバーレイのキーを先に絶対パスにする
+  const overlays = Object.fromEntries(
+    resolveOverlays(absProjectRoot, options.overlays)
+  );
+  const removedFiles = [
+    ...resolveRemovedFiles(absProjectRoot, options.removedFiles),
+  ];
+  // 参照先でも起点と同じ TypeScript を使う
+  const typescriptPath = resolveTypeScriptPath(
+    absProjectRoot,
+    options.typescriptPath
+  );
+
+  const root = acquireTsService(absProjectRoot, {
+    ...options,
+    overlays,
+    removedFiles,
+    typescriptPath,
+  });
+  const tsServices = [root];
+  const visited = new Set([path.normalize(root.configPath)]);
+  const pending = [...(root.parsedConfig.projectReferences ?? [])];
+
+  while (pending.length > 0) {
+    const reference = pending.shift()!;
+    const configPath = ts.resolveProjectReferencePath(reference);
+    if (visited.has(path.normalize(configPath))) continue;
+    visited.add(path.normalize(configPath));
+
+    try {
+      const tsService = acquireTsService(path.dirname(configPath), {
+        ...options,
+        tsconfigPath: configPath,
+        overlays,
+        removedFiles,
+        typescriptPath,
+      });
+      tsServices.push(tsService);
+      pending.push(...(tsService.parsedConfig.projectReferences ?? []));
+    } catch (error) {
+      // 壊れた参照先はスキップし、残りのプロジェクトで処理を続ける
+      console.error(
+        `Skipping project reference ${configPath}:`,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+
+  // 全プロジェクトを取得してから、今回返すもの以外を上限まで破棄する
+  evictTsServices(new Set(tsServices.map(({ configPath }) => configPath)));
+
+  return tsServices;
+}
+
+/**
+ * キャッシュが上限を超えていれば、古いものから Language Service を破棄する
+ *
+ * 使用中の Language Service は破棄しないため、使用中のものだけで上限を
+ * 超える場合（参照先の多い solution 形式の tsconfig など）はそのまま残す。
+ *
+ * @param inUse 使用中の tsconfig パス（破棄しない）
+ */
+function evictTsServices(inUse: ReadonlySet<string>): void {
+  for (const [configPath, cached] of tsServiceCache) {
+    if (tsServiceCache.size <= MAX_CACHED_SERVICES) break;
+    if (inUse.has(configPath)) continue;
+    disposeCachedTsService(cached);
+    tsServiceCache.delete(configPath);
+  }
+}
+
+/**
+ * 対象ファイルを所有する tsconfig を解決し、その Language Service を取得する
+ *
+ * tsconfigPath が指定されていればそれを使う。指定が無ければ対象ファイルの
+ * ディレクトリから projectRoot まで上方向に、パース結果の fileNames に対象ファイルを
+ * 含む最も近い tsconfig を探す。見つかった tsconfig が projectRoot の tsconfig（とその
+ * project references）に含まれる場合は、参照関係を跨いだ結果をマージできるよう
+ * projectRoot 側の全プロジェクトを返す。
+ *
+ * @param projectRoot プロジェクトルートディレクトリ（絶対 or 相対）
+ * @param fileName 対象ファイル（絶対パス）
+ * @param options オーバーレイなどのオプション
+ * @returns Language Service 群と、対象ファイルを所有する tsconfig のパス
+ * @throws tsconfig が見つからない、または明示された tsconfig が対象ファイルを含まない場合
+ */
+export function getTsServicesForFile(
+  projectRoot: string,
+  fileName: string,
+  options: TsServiceOptions = {}
+): { tsServices: TsService[]; configPath: string } {
+  const absProjectRoot = path.resolve(projectRoot);
+
+  if (options.tsconfigPath !== undefined) {
+    const tsServices = getTsServices(absProjectRoot, options);
+    assertFileInConfig(tsServices, fileName);
+    return {
+      tsServices,
+      configPath: findOwningTsService(tsServices, fileName).configPath,
+    };
+  }
+
+  // projectRoot 側の tsconfig を先に読み込み、所有する tsconfig の探索で再利用する
+  let tsServices: TsService[] | undefined;
+  let rootError: unknown;
+  try {
+    tsServices = getTsServices(absProjectRoot, options);
+  } catch (error) {
+    rootError = error;
+  }
 
-  // tsconfig.json を探索
-  const configPath = ts.findConfigFile(
+  const ownerConfigPath = findNearestOwningConfig(
+    getTypeScript(absProjectRoot, options.typescriptPath),
     absProjectRoot,
-    ts.sys.fileExists,
-    "tsconfig.json"
+    fileName
+  );
+  // projectRoot に tsconfig が無くても、対象ファイルの tsconfig があれば続行
+  if (!tsServices && ownerConfigPath === undefined) throw rootError;
+
+  if (
+    tsServices &&
+    (ownerConfigPath === undefined ||
+      tsServices.some(
+        ({ configPath }) =>
+          path.normalize(configPath) === path.normalize(ownerConfigPath)
+      ))
+  ) {
+    return {
+      tsServices,
+      configPath:
+        ownerConfigPath ?? findOwningTsService(tsServices, fileName).configPath,
+    };
+  }
+
+  const ownerServices = getTsServices(absProjectRoot, {
+    ...options,
+    tsconfigPath: ownerConfigPath,
+  });
+  return { tsServices: ownerServices, configPath: ownerConfigPath! };
+}
+
+/**
+ * ファイルがいずれかの tsconfig の対象ファイル（またはオーバーレイ）に
+ * 含まれることを確認する
+ *
+ * @param tsServices 対象の Language Service（先頭が起点の tsconfig）
+ * @param fileName 確認するファイル（絶対パス）
+ * @throws どの tsconfig にも含まれない場合
+ */
+export function assertFileInConfig(
+  tsServices: TsService[],
+  fileName: string
+): void {
+  const normalized = path.normalize(fileName);
+  const included = tsServices.some((tsService) =>
+    (tsService.service.getProgram()?.getRootFileNames() ?? []).some(
+      (rootFileName) => path.normalize(rootFileName) === normalized
+    )
   );
 
-  if (!configPath) {
+  if (!included) {
     throw new Error(
-      `tsconfig.json not found in or above: ${absProjectRoot}`
+      `File is not included in ${tsServices[0].configPath}: ${fileName}`
+    );
+  }
+}
+
+/**
+ * Language Service キャッシュを破棄する
+ */
+export function clearTsServiceCache(): void {
+  for (const cached of tsServiceCache.values()) {
+    disposeCachedTsService(cached);
+  }
+  tsServiceCache.clear();
+  fileVersions.clear();
+  tsConfigCache.clear();
+  configCandidatesCache.clear();
+}
+
+/**
+ * tsconfig を決定し、読み込み & パースする
+ *
+ * tsconfigPath が指定されていればそれを使い、無ければ projectRoot から
+ * tsconfig.json を上方向に探索する。読み込んだ結果は所有する tsconfig の
+ * 探索のために tsConfigCache に記録する。
+ *
+ * @param absProjectRoot プロジェクトルート（絶対パス）
+ * @param tsconfigPath 明示的な設定ファイルパス（絶対 or projectRoot からの相対）
+ * @returns tsconfig パスとパース結果
+ * @throws tsconfig が見つからない、または読み込み・パースに失敗した場合
+ */
+function loadTsConfig(
+  tsModule: TypeScriptModule,
+  absProjectRoot: string,
+  tsconfigPath?: string
+): LoadedTsConfig {
+  let configPath: string | undefined;
+  if (tsconfigPath !== undefined) {
+    configPath = path.resolve(absProjectRoot, tsconfigPath);
+    if (!tsModule.sys.fileExists(configPath)) {
+      throw new Error(`tsconfig not found: ${configPath}`);
+    }
+  } else {
+    // tsconfig.json を探索
+    configPath = tsModule.findConfigFile(
+      absProjectRoot,
+      tsModule.sys.fileExists,
+      "tsconfig.json"
     );
+
+    if (!configPath) {
+      throw new Error(
+        `tsconfig.json not found in or above: ${absProjectRoot}`
+      );
+    }
+  }
+
+  const stat = fs.statSync(configPath);
+  const loadedAtMs = Date.now();
+  try {
+    const config = parseTsConfig(tsModule, absProjectRoot, configPath);
+    tsConfigCache.set(configPath, {
+      tsModule,
+      config,
+      mtimeMs: stat.mtimeMs,
+      size: stat.size,
+      loadedAtMs,
+    });
+    return config;
+  } catch (error) {
+    tsConfigCache.set(configPath, {
+      tsModule,
+      config: undefined,
+      mtimeMs: stat.mtimeMs,
+      size: stat.size,
+      loadedAtMs,
+    });
+    throw error;
   }
+}
+
+/**
+ * tsconfig を読み込み & パースする
+ *
+ * @param tsModule 使用する TypeScript
+ * @param absProjectRoot プロジェクトルート（絶対パス、エラーメッセージ用）
+ * @param configPath tsconfig のパス（絶対パス）
+ * @returns tsconfig パスとパース結果
+ * @throws 読み込み・パースに失敗した場合
+ */
+function parseTsConfig(
+  tsModule: TypeScriptModule,
+  absProjectRoot: string,
+  configPath: string
+): LoadedTsConfig {
+  const configName = path.basename(configPath);
 
   // 設定ファイル読み込み & パース
-  const configFile = ts.readConfigFile(configPath, ts.sys.readFile);
+  const configFile = tsModule.readConfigFile(
+    configPath,
+    tsModule.sys.readFile
+  );
   if (configFile.error) {
     throw new Error(
-      `Failed to read tsconfig.json: ${ts.formatDiagnostic(
+      `Failed to read ${configName}: ${tsModule.formatDiagnostic(
         configFile.error,
         {
           getCanonicalFileName: (f) => f,
@@ -49,52 +583,476 @@ export function createTsService(projectRoot: string): {
     );
   }
 
-  const parsed = ts.parseJsonConfigFileContent(
+  // jsconfig.json は tsserver と同じく JS 向けの既定値を補う
+  const existingOptions: ts.CompilerOptions | undefined =
+    configName === "jsconfig.json"
+      ? {
+          allowJs: true,
+          maxNodeModuleJsDepth: 2,
+          allowSyntheticDefaultImports: true,
+          skipLibCheck: true,
+          noEmit: true,
+        }
+      : undefined;
+
+  const parsed = tsModule.parseJsonConfigFileContent(
     configFile.config,
-    ts.sys,
-    path.dirname(configPath)
+    tsModule.sys,
+    path.dirname(configPath),
+    existingOptions,
+    configPath
   );
 
   if (parsed.errors.length > 0) {
     const errorMessages = parsed.errors
       .map((error) =>
-        ts.formatDiagnostic(error, {
+        tsModule.formatDiagnostic(error, {
           getCanonicalFileName: (f) => f,
           getCurrentDirectory: () => absProjectRoot,
           getNewLine: () => "\n",
         })
       )
       .join("\n");
-    throw new Error(`Failed to parse tsconfig.json: ${errorMessages}`);
+    throw new Error(`Failed to parse ${configName}: ${errorMessages}`);
+  }
+
+  return {
+    configPath,
+    parsedConfig: parsed,
+  };
+}
+
+/**
+ * Language Service 群のうち、対象ファイルをルートファイルに含むものを返す
+ *
+ * @param tsServices 対象の Language Service（先頭が起点の tsconfig）
+ * @param fileName 対象ファイル（絶対パス）
+ * @returns 対象ファイルを含む Language Service（無ければ先頭）
+ */
+function findOwningTsService(
+  tsServices: TsService[],
+  fileName: string
+): TsService {
+  const normalized = path.normalize(fileName);
+  return (
+    tsServices.find(({ parsedConfig }) =>
+      parsedConfig.fileNames.some(
+        (rootFileName) => path.normalize(rootFileName) === normalized
+      )
+    ) ?? tsServices[0]
+  );
+}
+
+/**
+ * 対象ファイルのディレクトリから上方向に、fileNames に対象ファイルを含む
+ * 最も近い tsconfig を探す
+ *
+ * 対象ファイルが projectRoot 配下にあれば projectRoot で探索を止める。
+ * 同じディレクトリでは tsconfig.json を優先し、tsconfig.*.json と jsconfig.json は
+ * 名前順に調べる。ディレクトリごとの候補と各 tsconfig の読み込み結果は
+ * キャッシュし、ディレクトリ・tsconfig の mtime が変わったら読み直す。
+ *
+ * @param tsModule 使用する TypeScript
+ * @param absProjectRoot プロジェクトルート（絶対パス）
+ * @param fileName 対象ファイル（絶対パス）
+ * @returns tsconfig のパス（見つからない場合は undefined）
+ */
+function findNearestOwningConfig(
+  tsModule: TypeScriptModule,
+  absProjectRoot: string,
+  fileName: string
+): string | undefined {
+  const normalized = path.normalize(fileName);
+  const root = path.normalize(absProjectRoot);
+  let dir = path.dirname(normalized);
+
+  for (;;) {
+    for (const configPath of getConfigCandidates(dir)) {
+      if (configIncludesFile(tsModule, configPath, normalized)) {
+        return configPath;
+      }
+    }
+
+    const parent = path.dirname(dir);
+    if (dir === root || parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+/**
+ * ディレクトリにある tsconfig の候補を調べる順に返す
+ *
+ * @param dir 対象ディレクトリ（絶対パス）
+ * @returns tsconfig のパス（tsconfig.json、tsconfig.*.json と jsconfig.json の名前順）
+ */
+function getConfigCandidates(dir: string): string[] {
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(dir).mtimeMs;
+  } catch {
+    // 存在しないディレクトリ（未保存のオーバーレイなど）は候補なし
+    configCandidatesCache.delete(dir);
+    return [];
+  }
+
+  const cached = configCandidatesCache.get(dir);
+  if (cached && cached.mtimeMs === mtimeMs) return cached.configPaths;
+
+  let entries: string[] = [];
+  try {
+    entries = fs.readdirSync(dir);
+  } catch {
+    // 読めないディレクトリは候補なし
+  }
+  const configPaths = entries
+    .filter(
+      (name) =>
+        /^tsconfig(\..+)?\.json$/.test(name) || name === "jsconfig.json"
+    )
+    .sort((a, b) => {
+      if (a === "tsconfig.json") return -1;
+      if (b === "tsconfig.json") return 1;
+      return a.localeCompare(b);
+    })
+    .map((name) => path.join(dir, name));
+  configCandidatesCache.set(dir, { mtimeMs, configPaths });
+  return configPaths;
+}
+
+/**
+ * tsconfig の fileNames に対象ファイルが含まれるかを判定する
+ *
+ * 前回の読み込みから tsconfig が変わっていなければその結果を使う。含まれない
+ * という結果は、対象ファイルが前回の読み込みより後に作られた（または
+ * 移動された）場合だけ読み直して確かめる。
+ *
+ * @param tsModule 使用する TypeScript
+ * @param configPath tsconfig のパス（絶対パス）
+ * @param fileName 対象ファイル（絶対パス、正規化済み）
+ * @returns 含まれる場合は true（読み込めない tsconfig は false）
+ */
+function configIncludesFile(
+  tsModule: TypeScriptModule,
+  configPath: string,
+  fileName: string
+): boolean {
+  const includes = (config: LoadedTsConfig | undefined): boolean =>
+    config?.parsedConfig.fileNames.some(
+      (rootFileName) => path.normalize(rootFileName) === fileName
+    ) ?? false;
+
+  let stat: fs.Stats;
+  try {
+    stat = fs.statSync(configPath);
+  } catch {
+    return false;
+  }
+
+  const cached = tsConfigCache.get(configPath);
+  if (
+    cached &&
+    cached.tsModule === tsModule &&
+    cached.mtimeMs === stat.mtimeMs &&
+    cached.size === stat.size
+  ) {
+    if (includes(cached.config)) return true;
+    if (!isCreatedSince(fileName, cached.loadedAtMs)) return false;
+  }
+
+  try {
+    return includes(
+      loadTsConfig(tsModule, path.dirname(configPath), configPath)
+    );
+  } catch {
+    // 読み込めない tsconfig は候補から外す
+    return false;
+  }
+}
+
+/**
+ * ファイルが指定時刻以降に作られた（または移動された）かを判定する
+ *
+ * ディスク上に無いファイル（未保存のオーバーレイなど）は tsconfig の
+ * fileNames に含まれることが無いため false とする。
+ *
+ * @param fileName 対象ファイル（絶対パス）
+ * @param sinceMs 基準の時刻
+ * @returns ctime が基準の時刻以降（分解能の余裕を含む）であれば true
+ */
+function isCreatedSince(fileName: string, sinceMs: number): boolean {
+  try {
+    return fs.statSync(fileName).ctimeMs >= sinceMs - FILE_TIME_RESOLUTION_MS;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * オーバーレイのキーを絶対パスに正規化する
+ *
+ * @param absProjectRoot プロジェクトルート（絶対パス）
+ * @param overlays ファイルパス → 未保存の内容
+ * @returns 絶対パス → 未保存の内容
+ */
+function resolveOverlays(
+  absProjectRoot: string,
+  overlays: Record<string, string> = {}
+): Map<string, string> {
+  return new Map(
+    Object.entries(overlays).map(([filePath, text]) => [
+      path.resolve(absProjectRoot, filePath),
+      text,
+    ])
+  );
+}
+
+/**
+ * 存在しないものとして扱うファイルのパスを絶対パスにする
+ *
+ * @param absProjectRoot プロジェクトルート（絶対パス）
+ * @param removedFiles ファイルパス（絶対 or projectRoot からの相対）
+ * @returns 絶対パスの集合
+ */
+function resolveRemovedFiles(
+  absProjectRoot: string,
+  removedFiles: string[] = []
+): Set<string> {
+  return new Set(
+    removedFiles.map((filePath) => path.resolve(absProjectRoot, filePath))
+  );
+}
+
+/**
+ * オーバーレイを優先してファイル内容を読み込む
+ *
+ * @param state ホストが参照するプロジェクト状態
+ * @param fileName 対象ファイル（絶対パス）
+ * @returns ファイル内容（存在しない場合は undefined）
+ */
+function readFileText(
+  state: ProjectHostState,
+  fileName: string
+): string | undefined {
+  if (state.removedFiles.has(fileName)) return undefined;
+  return state.overlays.get(fileName) ?? ts.sys.readFile(fileName);
+}
+
+/**
+ * ファイルのスクリプトバージョンを取得する
+ *
+ * mtime とサイズが前回から変わっていればバージョンを進める。
+ *
+ * @param versions バージョン管理用のマップ
+ * @param fileName 対象ファイル（絶対パス）
+ * @returns スクリプトバージョン
+ */
+function getFileVersion(
+  versions: Map<string, FileVersion>,
+  fileName: string
+): string {
+  let stat: fs.Stats;
+  try {
+    stat = fs.statSync(fileName);
+  } catch {
+    return "";
+  }
+
+  const current = versions.get(fileName);
+  if (
+    current &&
+    current.mtimeMs === stat.mtimeMs &&
+    current.size === stat.size
+  ) {
+    return String(current.version);
+  }
+
+  const version = (current?.version ?? 0) + 1;
+  versions.set(fileName, {
+    mtimeMs: stat.mtimeMs,
+    size: stat.size,
+    version,
+  });
+  return String(version);
+}
+
+/**
+ * 対象ファイルを含むディレクトリを監視し、変更通知でバージョンを無効化する
+ *
+ * mtime の分解能内で同じサイズに書き換えられた場合も取りこぼさないようにするため。
+ * 監視できない環境では mtime とサイズの比較だけで動作する。
+ *
+ * @param cached 対象のキャッシュエントリ
+ */
+function syncWatchers(cached: CachedTsService): void {
+  const dirs = new Set(
+    cached.state.config.parsedConfig.fileNames.map((fileName) =>
+      path.dirname(fileName)
+    )
+  );
+
+  // 不要になったディレクトリの監視を解除
+  for (const [dir, watcher] of cached.watchers) {
+    if (!dirs.has(dir)) {
+      watcher.close();
+      cached.watchers.delete(dir);
+    }
+  }
+
+  for (const dir of dirs) {
+    if (cached.watchers.has(dir)) continue;
+
+    try {
+      const watcher = fs.watch(dir, { persistent: false }, (_, fileName) => {
+        if (!fileName) return;
+        const current = fileVersions.get(path.join(dir, fileName.toString()));
+        if (current) {
+          // 次回の getScriptVersion で必ずバージョンを進める
+          current.mtimeMs = NaN;
+        }
+      });
+      watcher.on("error", () => {
+        watcher.close();
+        cached.watchers.delete(dir);
+      });
+      cached.watchers.set(dir, watcher);
+    } catch {
+      // 監視できないディレクトリは mtime 比較のみで扱う
+    }
   }
+}
+
+/**
+ * キャッシュエントリの Language Service と watcher を破棄する
+ *
+ * @param cached 対象のキャッシュエントリ
+ */
+function disposeCachedTsService(cached: CachedTsService): void {
+  for (const watcher of cached.watchers.values()) {
+    watcher.close();
+  }
+  cached.watchers.clear();
+  cached.service.dispose();
+}
+
+/**
+ * Language Service を生成し、tsconfig の compilerOptions.plugins を適用する
+ *
+ * @param state ホストが参照するプロジェクト状態
+ * @param versions バージョン管理用のマップ
+ * @param documentRegistry 使用する DocumentRegistry
+ * @param disablePlugins プラグインを読み込まない場合は true
+ * @returns Language Service（プラグイン適用後）
+ */
+function createLanguageService(
+  state: ProjectHostState,
+  versions: Map<string, FileVersion>,
+  documentRegistry: ts.DocumentRegistry,
+  disablePlugins: boolean
+): ts.LanguageService {
+  const host = createHost(state, versions);
+  const service = state.tsModule.createLanguageService(host, documentRegistry);
+  if (disablePlugins) {
+    return service;
+  }
+
+  const applied = applyLanguageServicePlugins(
+    state.tsModule,
+    service,
+    host,
+    state.config.parsedConfig,
+    state.config.configPath,
+    state.projectRoot
+  );
+  state.plugins = applied.plugins;
+  return applied.service;
+}
+
+/**
+ * キャッシュの作り直しを判定するためのプラグイン設定のキー
+ *
+ * @param config 読み込み済みの tsconfig
+ * @param disablePlugins プラグインを読み込まない場合は true
+ * @returns プラグイン設定のキー
+ */
+function getPluginsKey(
+  config: LoadedTsConfig,
+  disablePlugins: boolean
+): string {
+  if (disablePlugins) return "disabled";
+  return JSON.stringify(config.parsedConfig.options.plugins ?? []);
+}
 
-  const files = parsed.fileNames;
+/**
+ * LanguageServiceHost を実装する
+ *
+ * @param state ホストが参照するプロジェクト状態
+ * @param versions バージョン管理用のマップ（省略時はホスト専用）
+ * @returns LanguageServiceHost
+ */
+function createHost(
+  state: ProjectHostState,
+  versions: Map<string, FileVersion> = new Map()
+): ts.LanguageServiceHost {
+  const { tsModule } = state;
 
-  // LanguageServiceHost 実装
-  const host: ts.LanguageServiceHost = {
-    getScriptFileNames: () => files,
-    getScriptVersion: () => "0", // 初期実装では常に 0
+  // useSourceOfProjectReferenceRedirect は公開型に無いが tsserver と同じく指定し、
+  // 参照先プロジェクトの出力 .d.ts ではなくソースを直接参照させる
+  const host: ts.LanguageServiceHost & {
+    useSourceOfProjectReferenceRedirect(): boolean;
+  } = {
+    getScriptFileNames: () => {
+      const fileNames = state.config.parsedConfig.fileNames.filter(
+        (fileName) => !state.removedFiles.has(fileName)
+      );
+      // ディスク上に無い（未保存の）オーバーレイと、プラグインが扱うファイル
+      // （.vue など）もルートファイルとして扱う
+      const extraFileNames = [
+        ...new Set([
+          ...state.overlays.keys(),
+          ...getPluginExternalFiles(state.plugins),
+        ]),
+      ].filter(
+        (fileName) =>
+          !fileNames.includes(fileName) && !state.removedFiles.has(fileName)
+      );
+      return [...fileNames, ...extraFileNames];
+    },
+    getScriptVersion: (fileName) => {
+      const overlay = state.overlays.get(fileName);
+      if (overlay !== undefined) {
+        // 内容のハッシュをバージョンにする（プロジェクト間でも一意）
+        const hash = crypto.createHash("sha1").update(overlay).digest("hex");
+        return `overlay-${hash}`;
+      }
+      return getFileVersion(versions, fileName);
+    },
     getScriptSnapshot: (fileName) => {
+      if (state.removedFiles.has(fileName)) {
+        return undefined;
+      }
+      const overlay = state.overlays.get(fileName);
+      if (overlay !== undefined) {
+        return tsModule.ScriptSnapshot.fromString(overlay);
+      }
       if (!fs.existsSync(fileName)) {
         return undefined;
       }
       const text = fs.readFileSync(fileName, "utf8");
-      return ts.ScriptSnapshot.fromString(text);
+      return tsModule.ScriptSnapshot.fromString(text);
     },
-    getCurrentDirectory: () => absProjectRoot,
-    getCompilationSettings: () => parsed.options,
-    getDefaultLibFileName: (opts) => ts.getDefaultLibFilePath(opts),
-    fileExists: ts.sys.fileExists,
-    readFile: ts.sys.readFile,
-    readDirectory: ts.sys.readDirectory,
+    getCurrentDirectory: () => state.projectRoot,
+    // 省略すると古い TypeScript はパスの大文字・小文字を区別しないものとして扱う
+    useCaseSensitiveFileNames: () => tsModule.sys.useCaseSensitiveFileNames,
+    getCompilationSettings: () => state.config.parsedConfig.options,
+    getProjectReferences: () => state.config.parsedConfig.projectReferences,
+    useSourceOfProjectReferenceRedirect: () => true,
+    getDefaultLibFileName: (opts) => tsModule.getDefaultLibFilePath(opts),
+    fileExists: (fileName) =>
+      !state.removedFiles.has(fileName) &&
+      (state.overlays.has(fileName) || tsModule.sys.fileExists(fileName)),
+    readFile: (fileName) => readFileText(state, fileName),
+    readDirectory: tsModule.sys.readDirectory,
   };
 
-  // Language Service 生成
-  const service = ts.createLanguageService(host, ts.createDocumentRegistry());
-
-  return {
-    service,
-    projectRoot: absProjectRoot,
-    parsedConfig: parsed,
-  };
+  return host;
 }
@@ -25,6 +25,7 @@ export type Range = {
 export type TextEdit = {
   range: Range;
   newText: string;
+  oldText?: string; // プラン作成時に range にあったテキスト（適用前の確認用）
 };
 
 /**
@@ -32,6 +33,8 @@ export type TextEdit = {
  */
 export type FileTextEdits = {
   filePath: string; // absolute path
+  isNewFile?: boolean; // true の場合、ファイルを新規作成する（範囲は空の内容に対するもの）
+  contentHash?: string; // プラン作成時のファイル内容の SHA-256（16進）
   textEdits: TextEdit[];
 };
 
@@ -43,17 +46,107 @@ export type FsMove = {
   to: string; // absolute path
 };
 
+/**
+ * plan* ツールの出力形式
+ *
+ * - json: edits / fsMoves だけを返す
+ * - unifiedDiff: edits / fsMoves に加えて、git apply で適用できる diff を返す
+ * - workspaceEdit: edits / fsMoves に加えて、LSP の WorkspaceEdit を返す
+ */
+export type OutputFormat = "json" | "unifiedDiff" | "workspaceEdit";
+
+/**
+ * LSP の TextDocumentEdit（1ファイル分の編集）
+ */
+export type LspTextDocumentEdit = {
+  textDocument: { uri: string; version: null }; // file:// URI（バージョンは指定しない）
+  edits: TextEdit[]; // 範囲はすべて編集前の内容に対するもの
+};
+
+/**
+ * LSP の CreateFile（ファイル作成）
+ */
+export type LspCreateFile = {
+  kind: "create";
+  uri: string; // file:// URI
+};
+
+/**
+ * LSP の RenameFile（ファイル移動）
+ */
+export type LspRenameFile = {
+  kind: "rename";
+  oldUri: string; // file:// URI
+  newUri: string; // file:// URI
+};
+
+/**
+ * LSP の WorkspaceEdit（documentChanges 形式）
+ */
+export type LspWorkspaceEdit = {
+  documentChanges: (LspTextDocumentEdit | LspCreateFile | LspRenameFile)[]; // 先頭から順に適用する
+};
+
+/**
+ * 名前で検索したシンボル宣言の候補
+ */
+export type SymbolCandidate = {
+  name: string;
+  kind: string; // ts.ScriptElementKind（"function", "method", "class" など）
+  containerName?: string; // ファイル直下からのドット区切りのコンテナ名
+  range: Range; // 宣言名の範囲
+};
+
+/**
+ * リネーム後の名前と既存の宣言との衝突
+ *
+ * shadow 以外はリネームで意味が変わる（またはコンパイルエラーになる）衝突。
+ */
+export type NameCollision = {
+  kind: "duplicate" | "capture" | "member" | "export" | "shadow";
+  filePath: string; // absolute path
+  range: Range; // 衝突する既存の宣言（capture では捕捉される参照）の範囲
+  message: string;
+};
+
+/**
+ * newName がシンボルの名前として使えない理由
+ */
+export type NewNameError = {
+  code:
+    | "empty"
+    | "invalidIdentifier"
+    | "reservedWord"
+    | "strictModeReservedWord"
+    | "reservedTypeName"
+    | "privateNameRequired"
+    | "privateNameNotAllowed"
+    | "quotedNameNotAllowed";
+  message: string;
+};
+
 /**
  * planRenameSymbol の入力パラメータ
+ *
+ * line / character か symbolName のどちらかで対象シンボルを指定する。
  */
 export type PlanRenameSymbolParams = {
   projectRoot: string; // 絶対 or 相対
   filePath: string; // 絶対 or projectRoot からの相対
-  line: number; // 0-based
-  character: number; // 0-based
-  newName: string;
+  line?: number; // 0-based（symbolName 指定時は省略可）
+  character?: number; // 0-based（symbolName 指定時は省略可）
+  symbolName?: string; // 宣言名で対象を指定（line / character より優先）
+  containerName?: string; // symbolName の絞り込みに使うコンテナ名（クラス・名前空間など）
+  newName: string; // プロパティは "my-key" のような引用符付きの名前、private メンバーは #x も可
   findInStrings?: boolean; // デフォルト false
   findInComments?: boolean; // デフォルト false
+  usePrefixAndSuffixText?: boolean; // true の場合、短縮プロパティや export { x } の外部向けの名前を保つ（デフォルト false）
+  allowCollisions?: boolean; // true の場合、名前の衝突があっても編集を返す（衝突は warnings に入る）
+  outputFormat?: OutputFormat; // デフォルト "json"
+  overlays?: Record<string, string>; // ファイルパス → 未保存の内容（ディスクより優先）
+  tsconfigPath?: string; // 使用する tsconfig（省略時は projectRoot から上方向に探索）
+  typescriptPath?: string; // 使用する TypeScript（省略時は projectRoot から自動検出、"bundled" で同梱版）
+  disablePlugins?: boolean; // true の場合、tsconfig の Language Service プラグインを読み込まない
 };
 
 /**
@@ -63,12 +156,242 @@ export type PlanRenameSymbolResult =
   | {
       canRename: false;
       reason: string;
+      candidates?: SymbolCandidate[]; // symbolName が複数の宣言に一致した場合の候補
+      collisions?: NameCollision[]; // newName が既存の宣言と衝突する場合
+      nameError?: NewNameError; // newName がシンボルの名前として使えない場合
     }
   | {
       canRename: true;
       edits: FileTextEdits[];
+      tsconfigPath: string; // 対象ファイルを所有する tsconfig（絶対パス）
+      typescriptVersion: string; // 使用した TypeScript のバージョン
+      warnings?: NameCollision[]; // シャドーイングなど、編集は返すが確認が必要な衝突
+      diff?: string; // outputFormat が "unifiedDiff" の場合の diff
+      workspaceEdit?: LspWorkspaceEdit; // outputFormat が "workspaceEdit" の場合の WorkspaceEdit
+    };
+
+/**
+ * findReferences の入力パラメータ
+ *
+ * line / character か symbolName のどちらかで対象シンボルを指定する。
+ */
+export type FindReferencesParams = {
+  projectRoot: string; // 絶対 or 相対
+  filePath: string; // 絶対 or projectRoot からの相対
+  line?: number; // 0-based（symbolName 指定時は省略可）
+  character?: number; // 0-based（symbolName 指定時は省略可）
+  symbolName?: string; // 宣言名で対象を指定（line / character より優先）
+  containerName?: string; // symbolName の絞り込みに使うコンテナ名（クラス・名前空間など）
+  overlays?: Record<string, string>; // ファイルパス → 未保存の内容（ディスクより優先）
+  tsconfigPath?: string; // 使用する tsconfig（省略時は projectRoot から上方向に探索）
+  typescriptPath?: string; // 使用する TypeScript（省略時は projectRoot から自動検出、"bundled" で同梱版）
+  disablePlugins?: boolean; // true の場合、tsconfig の Language Service プラグインを読み込まない
+};
+
+/**
+ * 参照の種類
+ *
+ * - definition: 宣言
+ * - read: 値の読み取り
+ * - write: 値の書き込み（代入・インクリメントなど）
+ * - import: import 文での参照
+ * - export: export 文での参照（export { x }、export default x など）
+ * - typeOnly: 型としてだけの参照（型注釈、typeof、implements など）
+ */
+export type ReferenceKind =
+  | "definition"
+  | "read"
+  | "write"
+  | "import"
+  | "export"
+  | "typeOnly";
+
+/**
+ * 参照箇所
+ */
+export type ReferenceLocation = {
+  filePath: string; // absolute path
+  range: Range; // 参照している名前の範囲
+  preview: string; // 参照を含む行のテキスト（前後の空白を除き、長い行は参照の周辺だけ）
+};
+
+/**
+ * findReferences の出力結果
+ */
+export type FindReferencesResult =
+  | {
+      found: false;
+      reason: string;
+      candidates?: SymbolCandidate[]; // symbolName が複数の宣言に一致した場合の候補
+    }
+  | {
+      found: true;
+      symbol: {
+        name: string;
+        kind: string; // ts.ScriptElementKind（"function", "class" など）
+        display: string; // "function getUser(id: string): User" のような表示文字列
+      };
+      references: Record<ReferenceKind, ReferenceLocation[]>; // 種類ごとにファイル・位置順
+      tsconfigPath: string; // 対象ファイルを所有する tsconfig（絶対パス）
+      typescriptVersion: string; // 使用した TypeScript のバージョン
+    };
+
+/**
+ * getDefinition の入力パラメータ
+ *
+ * line / character か symbolName のどちらかで対象シンボルを指定する。
+ */
+export type GetDefinitionParams = {
+  projectRoot: string; // 絶対 or 相対
+  filePath: string; // 絶対 or projectRoot からの相対
+  line?: number; // 0-based（symbolName 指定時は省略可）
+  character?: number; // 0-based（symbolName 指定時は省略可）
+  symbolName?: string; // 宣言名で対象を指定（line / character より優先）
+  containerName?: string; // symbolName の絞り込みに使うコンテナ名（クラス・名前空間など）
+  overlays?: Record<string, string>; // ファイルパス → 未保存の内容（ディスクより優先）
+  tsconfigPath?: string; // 使用する tsconfig（省略時は projectRoot から上方向に探索）
+  typescriptPath?: string; // 使用する TypeScript（省略時は projectRoot から自動検出、"bundled" で同梱版）
+  disablePlugins?: boolean; // true の場合、tsconfig の Language Service プラグインを読み込まない
+};
+
+/**
+ * 宣言の位置
+ */
+export type DefinitionLocation = {
+  filePath: string; // absolute path
+  range: Range; // 宣言名の範囲（モジュールの場合はファイル先頭）
+  declarationRange?: Range; // 宣言全体の範囲
+  name: string;
+  kind: string; // ts.ScriptElementKind（"function", "class", "module" など）
+  containerName?: string; // 宣言を含むクラス・名前空間など（モジュール直下の宣言では無し）
+  moduleName: string; // 宣言を含むモジュール（projectRoot からの相対パス、パッケージ名、または declare module の名前）
+  isExternal: boolean; // node_modules や TypeScript の lib にある宣言の場合は true
+};
+
+/**
+ * getDefinition の出力結果
+ */
+export type GetDefinitionResult =
+  | {
+      found: false;
+      reason: string;
+      candidates?: SymbolCandidate[]; // symbolName が複数の宣言に一致した場合の候補
+    }
+  | {
+      found: true;
+      definitions: DefinitionLocation[]; // import・re-export をたどった元の宣言
+      typeDefinitions: DefinitionLocation[]; // 値の型の宣言（プリミティブ型など、宣言が無い場合は空）
+      tsconfigPath: string; // 対象ファイルを所有する tsconfig（絶対パス）
+      typescriptVersion: string; // 使用した TypeScript のバージョン
+    };
+
+/**
+ * searchSymbols の入力パラメータ
+ */
+export type SearchSymbolsParams = {
+  projectRoot: string; // 絶対 or 相対
+  query: string; // シンボル名（前方一致・部分一致・キャメルケースの略記でも可）
+  kinds?: string[]; // ts.ScriptElementKind で絞り込む（"class", "function" など）
+  includeExternal?: boolean; // true の場合、node_modules や TypeScript の lib の宣言も含める（デフォルト false）
+  maxResults?: number; // 返す最大件数（デフォルト 50）
+  overlays?: Record<string, string>; // ファイルパス → 未保存の内容（ディスクより優先）
+  tsconfigPath?: string; // 使用する tsconfig（省略時は projectRoot から上方向に探索）
+  typescriptPath?: string; // 使用する TypeScript（省略時は projectRoot から自動検出、"bundled" で同梱版）
+  disablePlugins?: boolean; // true の場合、tsconfig の Language Service プラグインを読み込まない
+};
+
+/**
+ * searchSymbols で見つかったシンボル
+ */
+export type SymbolMatch = {
+  name: string;
+  kind: string; // ts.ScriptElementKind（"function", "method", "class" など）
+  containerName?: string; // 宣言を含むクラス・名前空間など（ファイル直下の宣言では無し）
+  filePath: string; // absolute path
+  range: Range; // 宣言名の範囲（planRenameSymbol の line / character に使える）
+  declarationRange: Range; // 宣言全体の範囲
+  matchKind: "exact" | "prefix" | "substring" | "camelCase";
+};
+
+/**
+ * searchSymbols の出力結果
+ */
+export type SearchSymbolsResult = {
+  symbols: SymbolMatch[]; // 一致の強い順（完全一致 → 前方一致 → 部分一致 → キャメルケース）
+  truncated: boolean; // maxResults を超えて省略した場合は true
+  typescriptVersion: string; // 使用した TypeScript のバージョン
+};
+
+/**
+ * planRenameSymbols の1件分のリネーム指定
+ */
+export type RenameRequest = {
+  filePath: string; // 絶対 or projectRoot からの相対
+  line?: number; // 0-based（元のテキスト上の位置、symbolName 指定時は省略可）
+  character?: number; // 0-based（元のテキスト上の位置、symbolName 指定時は省略可）
+  symbolName?: string; // 宣言名で対象を指定（line / character より優先）
+  containerName?: string; // symbolName の絞り込みに使うコンテナ名
+  newName: string;
+  findInStrings?: boolean; // デフォルト false
+  findInComments?: boolean; // デフォルト false
+  usePrefixAndSuffixText?: boolean; // true の場合、短縮プロパティや export { x } の外部向けの名前を保つ
+  allowCollisions?: boolean; // true の場合、名前の衝突があっても適用する
+};
+
+/**
+ * planRenameSymbols の入力パラメータ
+ */
+export type PlanRenameSymbolsParams = {
+  projectRoot: string; // 絶対 or 相対
+  renames: RenameRequest[]; // 先頭から順に適用する
+  overlays?: Record<string, string>; // ファイルパス → 未保存の内容（ディスクより優先）
+  tsconfigPath?: string; // 使用する tsconfig（省略時は対象ファイルごとに自動選択）
+  typescriptPath?: string; // 使用する TypeScript（省略時は projectRoot から自動検出、"bundled" で同梱版）
+  disablePlugins?: boolean; // true の場合、tsconfig の Language Service プラグインを読み込まない
+};
+
+/**
+ * planRenameSymbols の各リネームの結果
+ */
+export type RenameRequestResult =
+  | {
+      index: number; // renames 内の位置
+      applied: false;
+      reason: string;
+      candidates?: SymbolCandidate[]; // symbolName が複数の宣言に一致した場合の候補
+      collisions?: NameCollision[]; // newName が既存の宣言と衝突する場合
+      nameError?: NewNameError; // newName がシンボルの名前として使えない場合
+    }
+  | {
+      index: number; // renames 内の位置
+      applied: true;
+      editCount: number; // このリネームで追加された TextEdit の数
+      tsconfigPath: string; // 対象ファイルを所有する tsconfig（絶対パス）
+      warnings?: NameCollision[]; // シャドーイングなど、確認が必要な衝突
     };
 
+/**
+ * planRenameSymbols で検出した編集の衝突
+ */
+export type RenameConflict = {
+  index: number; // 適用できなかったリネームの位置
+  conflictsWith: number; // 先に適用されたリネームの位置
+  filePath: string; // absolute path
+  range: Range; // 先に適用された編集の範囲（元のテキスト上）
+  newText: string; // 適用できなかったリネームの新しい名前
+  existingText: string; // 先に適用された編集の新しいテキスト
+};
+
+/**
+ * planRenameSymbols の出力結果
+ */
+export type PlanRenameSymbolsResult = {
+  edits: FileTextEdits[]; // 適用できたリネームをまとめた編集（元のテキスト上の範囲）
+  results: RenameRequestResult[]; // renames と同じ順
+  conflicts: RenameConflict[];
+  typescriptVersion?: string; // 使用した TypeScript のバージョン（1件も計算できなかった場合は無し）
+};
+
 /**
  * planFileMove の入力パラメータ
  */
@@ -76,6 +399,12 @@ export type PlanFileMoveParams = {
   projectRoot: string; // 絶対 or 相対
   oldPath: string; // 元ファイルパス
   newPath: string; // 移動先ファイルパス
+  organizeImports?: boolean; // true の場合、編集するファイルの import を移動後に整理する（並べ替えと統合のみ、デフォルト false）
+  outputFormat?: OutputFormat; // デフォルト "json"
+  overlays?: Record<string, string>; // ファイルパス → 未保存の内容（ディスクより優先）
+  tsconfigPath?: string; // 使用する tsconfig（省略時は projectRoot から上方向に探索）
+  typescriptPath?: string; // 使用する TypeScript（省略時は projectRoot から自動検出、"bundled" で同梱版）
+  disablePlugins?: boolean; // true の場合、tsconfig の Language Service プラグインを読み込まない
 };
 
 /**
@@ -84,8 +413,49 @@ export type PlanFileMoveParams = {
 export type PlanFileMoveResult = {
   edits: FileTextEdits[];
   fsMoves: FsMove[]; // 通常は 1 件だけ
+  tsconfigPath: string; // 移動元ファイルを所有する tsconfig（絶対パス）
+  typescriptVersion: string; // 使用した TypeScript のバージョン
+  diff?: string; // outputFormat が "unifiedDiff" の場合の diff
+  workspaceEdit?: LspWorkspaceEdit; // outputFormat が "workspaceEdit" の場合の WorkspaceEdit
 };
 
+/**
+ * planMoveSymbol の入力パラメータ
+ *
+ * line / character か symbolName のどちらかで対象シンボルを指定する。
+ */
+export type PlanMoveSymbolParams = {
+  projectRoot: string; // 絶対 or 相対
+  filePath: string; // 絶対 or projectRoot からの相対
+  line?: number; // 0-based（symbolName 指定時は省略可）
+  character?: number; // 0-based（symbolName 指定時は省略可）
+  symbolName?: string; // ファイル直下の宣言名で対象を指定（line / character より優先）
+  targetPath: string; // 移動先ファイルパス（存在しない場合は新規作成）
+  outputFormat?: OutputFormat; // デフォルト "json"
+  overlays?: Record<string, string>; // ファイルパス → 未保存の内容（ディスクより優先）
+  tsconfigPath?: string; // 使用する tsconfig（省略時は projectRoot から上方向に探索）
+  typescriptPath?: string; // 使用する TypeScript（省略時は projectRoot から自動検出、"bundled" で同梱版）
+  disablePlugins?: boolean; // true の場合、tsconfig の Language Service プラグインを読み込まない
+};
+
+/**
+ * planMoveSymbol の出力結果
+ */
+export type PlanMoveSymbolResult =
+  | {
+      canMove: false;
+      reason: string;
+      candidates?: SymbolCandidate[]; // symbolName が複数の宣言に一致した場合の候補
+    }
+  | {
+      canMove: true;
+      edits: FileTextEdits[]; // 移動元・移動先・import しているファイルの編集
+      tsconfigPath: string; // 対象ファイルを所有する tsconfig（絶対パス）
+      typescriptVersion: string; // 使用した TypeScript のバージョン
+      diff?: string; // outputFormat が "unifiedDiff" の場合の diff
+      workspaceEdit?: LspWorkspaceEdit; // outputFormat が "workspaceEdit" の場合の WorkspaceEdit
+    };
+
 /**
  * planDirectoryMove の入力パラメータ
  */
@@ -93,6 +463,13 @@ export type PlanDirectoryMoveParams = {
   projectRoot: string; // 絶対 or 相対
   oldDir: string; // 元ディレクトリパス
   newDir: string; // 移動先ディレクトリパス
+  includeAllFiles?: boolean; // true の場合、tsconfig に含まれないファイル（CSS・画像など）も移動する（デフォルト false）
+  organizeImports?: boolean; // true の場合、編集するファイルの import を移動後に整理する（並べ替えと統合のみ、デフォルト false）
+  outputFormat?: OutputFormat; // デフォルト "json"
+  overlays?: Record<string, string>; // ファイルパス → 未保存の内容（ディスクより優先）
+  tsconfigPath?: string; // 使用する tsconfig（省略時は projectRoot から上方向に探索）
+  typescriptPath?: string; // 使用する TypeScript（省略時は projectRoot から自動検出、"bundled" で同梱版）
+  disablePlugins?: boolean; // true の場合、tsconfig の Language Service プラグインを読み込まない
 };
 
 /**
@@ -101,4 +478,74 @@ export type PlanDirectoryMoveParams = {
 export type PlanDirectoryMoveResult = {
   edits: FileTextEdits[];
   fsMoves: FsMove[];
+  typescriptVersion: string; // 使用した TypeScript のバージョン
+  diff?: string; // outputFormat が "unifiedDiff" の場合の diff
+  workspaceEdit?: LspWorkspaceEdit; // outputFormat が "workspaceEdit" の場合の WorkspaceEdit
+};
+
+/**
+ * TypeScript の診断（エラー・警告）
+ */
+export type Diagnostic = {
+  filePath: string; // absolute path
+  range: Range;
+  code: number; // TS のエラーコード（2304 など）
+  category: "error" | "warning" | "suggestion" | "message";
+  message: string;
+};
+
+/**
+ * プラン作成後に内容が変わったファイル
+ *
+ * - contentHash: ファイル内容のハッシュが FileTextEdits.contentHash と一致しない
+ * - oldText: 編集範囲のテキストが TextEdit.oldText と一致しない
+ */
+export type StaleFile = {
+  kind: "contentHash" | "oldText";
+  filePath: string; // 絶対パス
+  range?: Range; // kind が "oldText" の場合の編集範囲
+  message: string;
+};
+
+/**
+ * verifyPlan の入力パラメータ
+ */
+export type VerifyPlanParams = {
+  projectRoot: string; // 絶対 or 相対
+  edits: FileTextEdits[]; // 検証する編集（移動前のファイルパスでも移動先のファイルパスでも可）
+  fsMoves?: FsMove[]; // 検証するファイル移動
+  overlays?: Record<string, string>; // ファイルパス → 未保存の内容（ディスクより優先）
+  tsconfigPath?: string; // 使用する tsconfig（省略時は projectRoot から上方向に探索）
+  typescriptPath?: string; // 使用する TypeScript（省略時は projectRoot から自動検出、"bundled" で同梱版）
+  disablePlugins?: boolean; // true の場合、tsconfig の Language Service プラグインを読み込まない
+};
+
+/**
+ * verifyPlan の出力結果
+ */
+export type VerifyPlanResult = {
+  ok: boolean; // 編集・移動の適用で新しいエラーが発生しない場合は true
+  newDiagnostics: Diagnostic[]; // 適用後にだけ発生する診断（適用後の位置）
+  removedDiagnostics: Diagnostic[]; // 適用で解消される診断（適用前の位置）
+  staleFiles?: StaleFile[]; // プラン作成後に変更されたファイル（ある場合は型チェックしない）
+  typescriptVersion: string; // 使用した TypeScript のバージョン
+};
+
+/**
+ * applyPlan の入力パラメータ
+ */
+export type ApplyPlanParams = {
+  projectRoot: string; // 絶対 or 相対
+  edits: FileTextEdits[]; // 書き込む編集（移動前のファイルパスでも移動先のファイルパスでも可）
+  fsMoves?: FsMove[]; // 実行するファイル移動
+  dryRun?: boolean; // true の場合、検証だけ行いディスクには書き込まない
+};
+
+/**
+ * applyPlan の出力結果
+ */
+export type ApplyPlanResult = {
+  applied: boolean; // ディスクに書き込んだ場合は true（dryRun では false）
+  writtenFiles: string[]; // 内容を書き込む（書き込んだ）ファイル（移動先を含む、絶対パス）
+  removedFiles: string[]; // 移動で削除する（削除した）移動元のファイル（絶対パス）
 };
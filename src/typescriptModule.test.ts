@@ -0,0 +1,142 @@
+/**
+ * typescriptModule のテスト
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import ts from "typescript";
+import { createRequire } from "node:module";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import {
+  BUNDLED_TYPESCRIPT,
+  resolveTypeScriptPath,
+  loadTypeScript,
+  getTypeScript,
+} from "./typescriptModule.js";
+
+const require = createRequire(import.meta.url);
+const bundledEntryPath = require.resolve("typescript");
+
+describe("typescriptModule", () => {
+  let workspaceDir: string;
+  let workspaceEntryPath: string;
+  let brokenDir: string;
+  let emptyDir: string;
+
+  beforeAll(() => {
+    // node_modules/typescript を持つワークスペース（同梱版のコピー）
+    workspaceDir = fs.mkdtempSync(
+      path.join(os.tmpdir(), "ts-module-workspace-")
+    );
+    const bundledPackageDir = path.dirname(path.dirname(bundledEntryPath));
+    const workspacePackageDir = path.join(
+      workspaceDir,
+      "node_modules",
+      "typescript"
+    );
+    fs.mkdirSync(workspacePackageDir, { recursive: true });
+    fs.copyFileSync(
+      path.join(bundledPackageDir, "package.json"),
+      path.join(workspacePackageDir, "package.json")
+    );
+    fs.cpSync(
+      path.join(bundledPackageDir, "lib"),
+      path.join(workspacePackageDir, "lib"),
+      { recursive: true }
+    );
+    workspaceEntryPath = fs.realpathSync(
+      path.join(workspacePackageDir, "lib", "typescript.js")
+    );
+
+    // Language Service API を持たない壊れた typescript
+    brokenDir = fs.mkdtempSync(path.join(os.tmpdir(), "ts-module-broken-"));
+    const brokenPackageDir = path.join(brokenDir, "node_modules", "typescript");
+    fs.mkdirSync(path.join(brokenPackageDir, "lib"), { recursive: true });
+    fs.writeFileSync(
+      path.join(brokenPackageDir, "package.json"),
+      JSON.stringify({ name: "typescript", main: "./lib/typescript.js" })
+    );
+    fs.writeFileSync(
+      path.join(brokenPackageDir, "lib", "typescript.js"),
+      "module.exports = {};"
+    );
+
+    emptyDir = fs.mkdtempSync(path.join(os.tmpdir(), "ts-module-empty-"));
+  });
+
+  afterAll(() => {
+    for (const dir of [workspaceDir, brokenDir, emptyDir]) {
+      if (dir && fs.existsSync(dir)) {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    }
+  });
+
+  describe("resolveTypeScriptPath", () => {
+    it("projectRoot の node_modules/typescript を検出する", () => {
+      expect(resolveTypeScriptPath(workspaceDir)).toBe(workspaceEntryPath);
+    });
+
+    it("node_modules/typescript が無い場合は同梱版を使う", () => {
+      expect(resolveTypeScriptPath(emptyDir)).toBe(bundledEntryPath);
+    });
+
+    it('"bundled" を指定すると同梱版を使う', () => {
+      expect(resolveTypeScriptPath(workspaceDir, BUNDLED_TYPESCRIPT)).toBe(
+        bundledEntryPath
+      );
+    });
+
+    it("パッケージディレクトリを指定すると lib/typescript.js を使う", () => {
+      expect(
+        resolveTypeScriptPath(
+          emptyDir,
+          path.join(workspaceDir, "node_modules", "typescript")
+        )
+      ).toBe(workspaceEntryPath);
+    });
+
+    it("指定した TypeScript が存在しない場合、エラーを投げる", () => {
+      expect(() =>
+        resolveTypeScriptPath(emptyDir, "node_modules/typescript")
+      ).toThrow(/TypeScript not found/);
+    });
+  });
+
+  describe("loadTypeScript", () => {
+    it("ワークスペースの TypeScript を同梱版とは別に読み込む", () => {
+      const tsModule = loadTypeScript(resolveTypeScriptPath(workspaceDir));
+
+      expect(tsModule).not.toBe(ts);
+      expect(tsModule.version).toBe(ts.version);
+      expect(typeof tsModule.createLanguageService).toBe("function");
+    });
+
+    it("同じパスは同じモジュールを返す", () => {
+      const entryPath = resolveTypeScriptPath(workspaceDir);
+      expect(loadTypeScript(entryPath)).toBe(loadTypeScript(entryPath));
+    });
+
+    it("Language Service API を持たない場合、エラーを投げる", () => {
+      expect(() => loadTypeScript(resolveTypeScriptPath(brokenDir))).toThrow(
+        /does not provide the Language Service API/
+      );
+    });
+  });
+
+  describe("getTypeScript", () => {
+    it("自動検出した TypeScript が読み込めない場合は同梱版にフォールバックする", () => {
+      expect(getTypeScript(brokenDir)).toBe(ts);
+    });
+
+    it("明示した TypeScript が読み込めない場合、エラーを投げる", () => {
+      expect(() =>
+        getTypeScript(
+          emptyDir,
+          path.join(brokenDir, "node_modules", "typescript")
+        )
+      ).toThrow(/does not provide the Language Service API/);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * 使用する TypeScript モジュールの解決・読み込み
+ * プロジェクトにインストールされた TypeScript を優先し、無ければ同梱版を使う
+ */
+
+import ts from "typescript";
+import path from "node:path";
+import fs from "node:fs";
+import { createRequire } from "node:module";
+
+/**
+ * TypeScript モジュールの型（同梱版と同じ API を持つ前提）
+ */
+export type TypeScriptModule = typeof ts;
+
+/**
+ * 同梱版を明示的に指定するための typescriptPath の値
+ */
+export const BUNDLED_TYPESCRIPT = "bundled";
+
+const require = createRequire(import.meta.url);
+
+/**
+ * 同梱版 TypeScript のエントリファイル
+ */
+const bundledTypeScriptPath = require.resolve("typescript");
+
+/**
+ * 読み込み済みの TypeScript モジュール（エントリファイル → モジュール）
+ */
+const loadedModules = new Map<string, TypeScriptModule>([
+  [bundledTypeScriptPath, ts],
+]);
+
+/**
+ * 使用する TypeScript のエントリファイルを決定する
+ *
+ * typescriptPath が指定されていればそれを使い（パッケージディレクトリ or
+ * lib/typescript.js）、無ければ projectRoot から node_modules/typescript を探す。
+ * 見つからない場合は同梱版を使う。
+ *
+ * @param absProjectRoot プロジェクトルート（絶対パス）
+ * @param typescriptPath 明示的な TypeScript のパス、または "bundled"
+ * @returns TypeScript のエントリファイル（絶対パス）
+ * @throws 明示された TypeScript が見つからない場合
+ */
+export function resolveTypeScriptPath(
+  absProjectRoot: string,
+  typescriptPath?: string
+): string {
+  if (typescriptPath === BUNDLED_TYPESCRIPT) {
+    return bundledTypeScriptPath;
+  }
+
+  if (typescriptPath !== undefined) {
+    const resolved = path.resolve(absProjectRoot, typescriptPath);
+    const entryPath =
+      fs.existsSync(resolved) && fs.statSync(resolved).isDirectory()
+        ? path.join(resolved, "lib", "typescript.js")
+        : resolved;
+
+    if (!fs.existsSync(entryPath)) {
+      throw new Error(`TypeScript not found: ${entryPath}`);
+    }
+    return fs.realpathSync(entryPath);
+  }
+
+  // projectRoot から Node.js のモジュール解決で typescript を探す
+  try {
+    return createRequire(path.join(absProjectRoot, "package.json")).resolve(
+      "typescript"
+    );
+  } catch {
+    return bundledTypeScriptPath;
+  }
+}
+
+/**
+ * TypeScript モジュールを読み込む
+ *
+ * @param entryPath TypeScript のエントリファイル（絶対パス）
+ * @returns TypeScript モジュール
+ * @throws 読み込みに失敗した、または Language Service API を持たない場合
+ */
+export function loadTypeScript(entryPath: string): TypeScriptModule {
+  const loaded = loadedModules.get(entryPath);
+  if (loaded) {
+    return loaded;
+  }
+
+  let tsModule: TypeScriptModule;
+  try {
+    tsModule = require(entryPath) as TypeScriptModule;
+  } catch (error) {
+    throw new Error(
+      `Failed to load TypeScript from ${entryPath}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+
+  if (typeof tsModule.createLanguageService !== "function") {
+    throw new Error(
+      `TypeScript at ${entryPath} does not provide the Language Service API`
+    );
+  }
+
+  loadedModules.set(entryPath, tsModule);
+  return tsModule;
+}
+
+/**
+ * projectRoot に対応する TypeScript モジュールを取得する
+ *
+ * 自動検出したワークスペースの TypeScript が読み込めない場合は同梱版に
+ * フォールバックする。明示された TypeScript が読み込めない場合はエラーにする。
+ *
+ * @param absProjectRoot プロジェクトルート（絶対パス）
+ * @param typescriptPath 明示的な TypeScript のパス、または "bundled"
+ * @returns TypeScript モジュール
+ * @throws 明示された TypeScript が見つからない、または読み込めない場合
+ */
+export function getTypeScript(
+  absProjectRoot: string,
+  typescriptPath?: string
+): TypeScriptModule {
+  const entryPath = resolveTypeScriptPath(absProjectRoot, typescriptPath);
+
+  try {
+    return loadTypeScript(entryPath);
+  } catch (error) {
+    if (typescriptPath !== undefined) throw error;
+
+    console.error(
+      "Falling back to bundled TypeScript:",
+      error instanceof Error ? error.message : String(error)
+    );
+    return ts;
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * workspaceEdit のテスト
+ */
+
+import { describe, it, expect } from "vitest";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { toWorkspaceEdit } from "./workspaceEdit.js";
+import type { TextEdit } from "./types.js";
+
+describe("toWorkspaceEdit", () => {
+  const projectRoot = path.resolve("/project");
+  const existing = new Set(
+    ["src/a.ts", "src/b.ts", "src/my file.ts"].map((fileName) =>
+      path.join(projectRoot, fileName)
+    )
+  );
+  const fileExists = (fileName: string): boolean => existing.has(fileName);
+  const toUri = (fileName: string): string =>
+    pathToFileURL(path.join(projectRoot, fileName)).href;
+  const textEdit: TextEdit = {
+    range: {
+      start: { line: 0, character: 18 },
+      end: { line: 0, character: 23 },
+    },
+    newText: `"../src/b"`,
+  };
+
+  it("RenameFile を先に並べ、移動したファイルの編集は移動後の URI に付ける", () => {
+    const result = toWorkspaceEdit(
+      projectRoot,
+      [
+        { filePath: "src/a.ts", textEdits: [textEdit] },
+        { filePath: path.join(projectRoot, "lib/b.ts"), textEdits: [textEdit] },
+      ],
+      [
+        { from: "src/a.ts", to: "lib/a.ts" },
+        { from: "src/b.ts", to: "lib/b.ts" },
+      ],
+      fileExists
+    );
+
+    expect(result).toEqual({
+      documentChanges: [
+        {
+          kind: "rename",
+          oldUri: toUri("src/a.ts"),
+          newUri: toUri("lib/a.ts"),
+        },
+        {
+          kind: "rename",
+          oldUri: toUri("src/b.ts"),
+          newUri: toUri("lib/b.ts"),
+        },
+        {
+          textDocument: { uri: toUri("lib/a.ts"), version: null },
+          edits: [textEdit],
+        },
+        {
+          textDocument: { uri: toUri("lib/b.ts"), version: null },
+          edits: [textEdit],
+        },
+      ],
+    });
+  });
+
+  it("URI はパーセントエンコードし、編集の無いファイルは含めない", () => {
+    const result = toWorkspaceEdit(
+      projectRoot,
+      [
+        { filePath: "src/my file.ts", textEdits: [textEdit] },
+        { filePath: "src/a.ts", textEdits: [] },
+      ],
+      [],
+      fileExists
+    );
+
+    expect(result.documentChanges).toHaveLength(1);
+    expect(result.documentChanges[0]).toMatchObject({
+      textDocument: {
+        uri: expect.stringMatching(/^file:\/\/.*my%20file\.ts$/),
+      },
+    });
+  });
+
+  it("新規作成するファイルは CreateFile の後に編集を並べる", () => {
+    const result = toWorkspaceEdit(
+      projectRoot,
+      [
+        { filePath: "src/new.ts", isNewFile: true, textEdits: [textEdit] },
+        { filePath: "src/a.ts", textEdits: [textEdit] },
+      ],
+      [],
+      fileExists
+    );
+
+    expect(result.documentChanges).toEqual([
+      { kind: "create", uri: toUri("src/new.ts") },
+      {
+        textDocument: { uri: toUri("src/new.ts"), version: null },
+        edits: [textEdit],
+      },
+      {
+        textDocument: { uri: toUri("src/a.ts"), version: null },
+        edits: [textEdit],
+      },
+    ]);
+  });
+
+  it("新規作成するファイルが既に存在する場合はエラーを投げる", () => {
+    expect(() =>
+      toWorkspaceEdit(
+        projectRoot,
+        [{ filePath: "src/a.ts", isNewFile: true, textEdits: [textEdit] }],
+        [],
+        fileExists
+      )
+    ).toThrow(/File already exists/);
+  });
+
+  it("対象ファイルが無い場合はエラーを投げる", () => {
+    expect(() =>
+      toWorkspaceEdit(
+        projectRoot,
+        [{ filePath: "src/missing.ts", textEdits: [textEdit] }],
+        [],
+        fileExists
+      )
+    ).toThrow(/File not found/);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * 編集プランの LSP WorkspaceEdit への変換
+ */
+
+import { pathToFileURL } from "node:url";
+import { resolvePlan } from "./plan.js";
+import type {
+  FileTextEdits,
+  FsMove,
+  LspCreateFile,
+  LspRenameFile,
+  LspTextDocumentEdit,
+  LspWorkspaceEdit,
+} from "./types.js";
+
+/**
+ * 編集プランを LSP の WorkspaceEdit（documentChanges 形式）にする
+ *
+ * documentChanges は先頭から順に適用されるため、先にすべての RenameFile と
+ * 新規作成するファイルの CreateFile を並べ、その後に移動後の URI に対する
+ * TextDocumentEdit を並べる。
+ * 移動では内容が変わらないので、編集の範囲は元の内容に対するままでよい。
+ *
+ * @param absProjectRoot プロジェクトルート（絶対パス）
+ * @param edits 編集
+ * @param fsMoves ファイル移動
+ * @param fileExists 適用前のファイルが存在するか（オーバーレイを含む）
+ * @returns WorkspaceEdit
+ * @throws 編集・移動の対象ファイルが無い、または移動先が既に存在する場合
+ */
+export function toWorkspaceEdit(
+  absProjectRoot: string,
+  edits: readonly FileTextEdits[],
+  fsMoves: readonly FsMove[],
+  fileExists: (fileName: string) => boolean
+): LspWorkspaceEdit {
+  const plan = resolvePlan(absProjectRoot, edits, fsMoves, fileExists);
+  const toUri = (fileName: string): string => pathToFileURL(fileName).href;
+
+  const renameFiles: LspRenameFile[] = Array.from(plan.moves.entries()).map(
+    ([from, to]) => ({ kind: "rename", oldUri: toUri(from), newUri: toUri(to) })
+  );
+  const createFiles: LspCreateFile[] = Array.from(plan.createdFiles).map(
+    (fileName) => ({ kind: "create", uri: toUri(fileName) })
+  );
+  const textDocumentEdits: LspTextDocumentEdit[] = Array.from(
+    plan.edits.entries()
+  )
+    .filter(([, textEdits]) => textEdits.length > 0)
+    .map(([fileName, textEdits]) => ({
+      textDocument: {
+        uri: toUri(plan.moves.get(fileName) ?? fileName),
+        version: null,
+      },
+      // oldText は LSP の TextEdit に無いため除く
+      edits: textEdits.map(({ range, newText }) => ({ range, newText })),
+    }));
+
+  return {
+    documentChanges: [...renameFiles, ...createFiles, ...textDocumentEdits],
+  };
+}